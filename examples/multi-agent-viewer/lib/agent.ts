@@ -1,6 +1,10 @@
 import { openai } from "@ai-sdk/openai";
 import { streamText, tool } from "ai";
-import { type TailEvent, type StarciteSession } from "@starcite/sdk";
+import {
+  type SessionAppendCoalesceOptions,
+  type TailEvent,
+  type StarciteSession,
+} from "@starcite/sdk";
 import { z } from "zod";
 import { starcite } from "./starcite";
 
@@ -21,37 +25,35 @@ const coordinatorAgent = {
   name: "Coordinator",
 } as const;
 
+// Merges consecutive streaming deltas from the same agent into one event.
+const streamingChunkCoalescing: SessionAppendCoalesceOptions = {
+  key: (input) =>
+    input.type === "agent.streaming.chunk"
+      ? String(input.payload?.agent)
+      : undefined,
+  merge: (pending, next) => ({
+    ...pending,
+    payload: {
+      ...pending.payload,
+      delta: `${pending.payload?.delta ?? ""}${next.payload?.delta ?? ""}`,
+    },
+  }),
+};
+
 type WorkerAssignment = z.infer<typeof startAgentInput> & { id: string };
 type WorkerFinding = { name: string; text: string };
 
-starcite.on("session.created", (event) => {
-  void (async () => {
-    const session = await starcite.session({
-      identity: starcite.agent({ id: "coordinator" }),
-      id: event.session_id,
-      title: "Research Swarm",
-    });
-
-    let running = false;
-
-    session.on("event", async (nextEvent) => {
-      if (nextEvent.type !== "message.user" || running) {
-        return;
-      }
-
-      const question = messageText(nextEvent);
-      if (!question) {
-        return;
-      }
-
-      running = true;
-      try {
-        await runCoordinatorTurn(session, question);
-      } finally {
-        running = false;
-      }
-    });
-  })();
+starcite.worker({
+  identity: starcite.agent({ id: "coordinator" }),
+  title: "Research Swarm",
+  appendOptions: { coalesce: streamingChunkCoalescing },
+  filter: (event) => event.type === "message.user",
+  handle: async (event, { session }) => {
+    const question = messageText(event);
+    if (question) {
+      await runCoordinatorTurn(session, question);
+    }
+  },
 });
 
 async function runCoordinatorTurn(
@@ -102,16 +104,20 @@ async function runCoordinatorTurn(
     },
   });
 
+  const chunks: Promise<unknown>[] = [];
   for await (const delta of result.textStream) {
-    await session.append({
-      type: "agent.streaming.chunk",
-      source: "agent",
-      payload: {
-        ...coordinatorAgent,
-        delta,
-      },
-    });
+    chunks.push(
+      session.append({
+        type: "agent.streaming.chunk",
+        source: "agent",
+        payload: {
+          ...coordinatorAgent,
+          delta,
+        },
+      })
+    );
   }
+  await Promise.all(chunks);
 
   await session.append({
     type: "agent.done",
@@ -135,16 +141,20 @@ async function runCoordinatorTurn(
     prompt: summaryPrompt(question, findings),
   });
 
+  const summaryChunks: Promise<unknown>[] = [];
   for await (const delta of summary.textStream) {
-    await session.append({
-      type: "agent.streaming.chunk",
-      source: "agent",
-      payload: {
-        ...coordinatorAgent,
-        delta,
-      },
-    });
+    summaryChunks.push(
+      session.append({
+        type: "agent.streaming.chunk",
+        source: "agent",
+        payload: {
+          ...coordinatorAgent,
+          delta,
+        },
+      })
+    );
   }
+  await Promise.all(summaryChunks);
 
   await session.append({
     type: "agent.done",
@@ -160,6 +170,7 @@ async function runWorker(
   const session = await starcite.session({
     identity: starcite.agent({ id: assignment.id }),
     id: sessionId,
+    appendOptions: { coalesce: streamingChunkCoalescing },
   });
 
   const result = streamText({
@@ -170,18 +181,22 @@ async function runWorker(
 
   let text = "";
 
+  const chunks: Promise<unknown>[] = [];
   for await (const delta of result.textStream) {
     text += delta;
-    await session.append({
-      type: "agent.streaming.chunk",
-      source: "agent",
-      payload: {
-        agent: assignment.id,
-        name: assignment.name,
-        delta,
-      },
-    });
+    chunks.push(
+      session.append({
+        type: "agent.streaming.chunk",
+        source: "agent",
+        payload: {
+          agent: assignment.id,
+          name: assignment.name,
+          delta,
+        },
+      })
+    );
   }
+  await Promise.all(chunks);
 
   await session.append({
     type: "agent.done",
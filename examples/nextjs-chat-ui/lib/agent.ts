@@ -1,6 +1,7 @@
 import { openai } from "@ai-sdk/openai";
 import {
   appendAssistantChunkEvent,
+  chatAssistantChunkCoalescing,
   chatUserMessageEventType,
   toUIMessagesFromEvents,
 } from "@starcite/react/chat-protocol";
@@ -11,35 +12,33 @@ const agentIdentity = starcite.agent({
   id: process.env.STARCITE_AGENT_ID || "nextjs-demo-agent",
 });
 
-starcite.on("session.created", (event) => {
-  void (async () => {
-    const session = await starcite.session({
-      identity: agentIdentity,
-      id: event.session_id,
-      title: "Next.js demo chat",
-    });
-
-    session.on("event", async (sessionEvent) => {
-      if (sessionEvent.type !== chatUserMessageEventType) {
-        return;
-      }
-
-      const messages = await toUIMessagesFromEvents(session.events());
-      if (messages.length === 0) {
-        return;
-      }
+starcite.worker({
+  identity: agentIdentity,
+  title: "Next.js demo chat",
+  appendOptions: { coalesce: chatAssistantChunkCoalescing },
+  filter: (event) => event.type === chatUserMessageEventType,
+  handle: async (_event, { session }) => {
+    const messages = await toUIMessagesFromEvents(session.events());
+    if (messages.length === 0) {
+      return;
+    }
 
-      const result = streamText({
-        model: openai(process.env.OPENAI_MODEL || "gpt-4o-mini"),
-        system: "You are a concise assistant in a Starcite demo chat.",
-        messages: convertToModelMessages(messages),
-      });
+    const result = streamText({
+      model: openai(process.env.OPENAI_MODEL || "gpt-4o-mini"),
+      system: "You are a concise assistant in a Starcite demo chat.",
+      messages: convertToModelMessages(messages),
+    });
 
-      for await (const chunk of result.toUIMessageStream()) {
-        await appendAssistantChunkEvent(session, chunk, {
+    // Deltas are not awaited one by one so the SDK can merge them; each
+    // promise still settles once its merged event commits.
+    const appends: Promise<unknown>[] = [];
+    for await (const chunk of result.toUIMessageStream()) {
+      appends.push(
+        appendAssistantChunkEvent(session, chunk, {
           source: "openai",
-        });
-      }
-    });
-  })();
+        })
+      );
+    }
+    await Promise.all(appends);
+  },
 });
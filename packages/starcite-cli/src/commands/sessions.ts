@@ -1,4 +1,9 @@
-import type { SessionArchivedFilter, SessionRecord } from "@starcite/sdk";
+import type {
+  SessionArchivedFilter,
+  SessionListItem,
+  SessionListPage,
+  SessionRecord,
+} from "@starcite/sdk";
 import {
   type CliRuntime,
   CliUsageError,
@@ -10,6 +15,8 @@ import {
   trimString,
 } from "../runtime";
 
+const SESSIONS_HEADER = "id\ttitle\tarchived\tcreated_at";
+
 export async function runSessionsCommand(
   args: string[],
   globalOptions: GlobalOptions,
@@ -52,6 +59,7 @@ async function runSessionsListCommand(
       "--cursor": String,
       "--metadata": String,
       "--archived": String,
+      "--all": Boolean,
     },
     args
   );
@@ -68,7 +76,7 @@ async function runSessionsListCommand(
   }
 
   const resolved = await runtime.resolveGlobalOptions(globalOptions);
-  const page = await resolved.client.listSessions({
+  const listOptions = {
     limit: parsed["--limit"]
       ? parsePositiveInteger(parsed["--limit"], "--limit")
       : undefined,
@@ -77,13 +85,34 @@ async function runSessionsListCommand(
     metadata: parsed["--metadata"]
       ? parseSessionMetadataFilters(parsed["--metadata"])
       : undefined,
-  });
-
+  };
   runtime.logger.error(
     "Warning: `sessions list` is a bad call to use in production."
   );
 
-  if (resolved.json) {
+  if (parsed["--all"]) {
+    // `--limit` stays the page size of each request, not a cap on the total.
+    await writeAllSessions(
+      resolved.client.iterateSessions(listOptions),
+      resolved.json,
+      runtime
+    );
+    return;
+  }
+
+  writeSessionsPage(
+    await resolved.client.listSessions(listOptions),
+    resolved.json,
+    runtime
+  );
+}
+
+function writeSessionsPage(
+  page: SessionListPage,
+  json: boolean,
+  runtime: CliRuntime
+): void {
+  if (json) {
     runtime.writeJsonOutput(page, true);
     return;
   }
@@ -93,11 +122,9 @@ async function runSessionsListCommand(
     return;
   }
 
-  runtime.logger.info("id\ttitle\tarchived\tcreated_at");
+  runtime.logger.info(SESSIONS_HEADER);
   for (const session of page.sessions) {
-    runtime.logger.info(
-      `${session.id}\t${session.title ?? ""}\t${formatArchivedValue(session.archived)}\t${session.created_at}`
-    );
+    runtime.logger.info(formatSessionRow(session));
   }
 
   if (page.next_cursor) {
@@ -105,6 +132,37 @@ async function runSessionsListCommand(
   }
 }
 
+/**
+ * Prints sessions as the pages arrive instead of buffering every page. JSON
+ * output is one session record per line.
+ */
+async function writeAllSessions(
+  sessions: AsyncIterable<SessionListItem>,
+  json: boolean,
+  runtime: CliRuntime
+): Promise<void> {
+  let count = 0;
+  for await (const session of sessions) {
+    if (json) {
+      runtime.writeJsonOutput(session);
+    } else {
+      if (count === 0) {
+        runtime.logger.info(SESSIONS_HEADER);
+      }
+      runtime.logger.info(formatSessionRow(session));
+    }
+    count += 1;
+  }
+
+  if (count === 0 && !json) {
+    runtime.logger.info("No sessions found.");
+  }
+}
+
+function formatSessionRow(session: SessionListItem): string {
+  return `${session.id}\t${session.title ?? ""}\t${formatArchivedValue(session.archived)}\t${session.created_at}`;
+}
+
 async function runSessionsGetCommand(
   args: string[],
   globalOptions: GlobalOptions,
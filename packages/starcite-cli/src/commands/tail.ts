@@ -103,91 +103,56 @@ async function emitTailEvents({
     return;
   }
 
-  return await new Promise<void>((resolve, reject) => {
-    let emitted = 0;
-    let idleTimer: ReturnType<typeof setTimeout> | undefined;
-    let settled = false;
-
-    const cleanup = () => {
-      stopEvents();
-      stopError();
-      signal.removeEventListener("abort", handleAbort);
-      if (idleTimer) {
-        clearTimeout(idleTimer);
-      }
-    };
-
-    const finish = () => {
-      if (settled) {
-        return;
-      }
+  // `AbortSignal.any` needs Node 20.3, so the caller's signal and the
+  // --no-follow idle timer abort one controller instead.
+  const stop = new AbortController();
+  const abort = () => {
+    stop.abort();
+  };
+  if (signal.aborted) {
+    abort();
+  }
+  signal.addEventListener("abort", abort, { once: true });
 
-      settled = true;
-      cleanup();
-      resolve();
-    };
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  const resetIdleTimer = () => {
+    if (follow) {
+      return;
+    }
 
-    const fail = (error: unknown) => {
-      if (settled) {
-        return;
-      }
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(abort, NO_FOLLOW_IDLE_MS);
+  };
 
-      settled = true;
-      cleanup();
-      reject(error);
-    };
+  const actor = agent ? `agent:${agent}` : undefined;
+  let emitted = 0;
+  resetIdleTimer();
 
-    const resetIdleTimer = () => {
-      if (follow) {
-        return;
+  try {
+    for await (const event of session.stream({
+      fromSeq: cursorSeq === undefined ? undefined : Math.max(cursorSeq, 1),
+      signal: stop.signal,
+    })) {
+      // Any received event shows the session is still delivering, including
+      // ones the --agent filter skips.
+      resetIdleTimer();
+      if (actor && event.actor !== actor) {
+        continue;
       }
 
-      if (idleTimer) {
-        clearTimeout(idleTimer);
+      if (json) {
+        runtime.writeJsonOutput(event);
+      } else {
+        runtime.logger.info(runtime.formatTailEvent(event));
       }
 
-      idleTimer = setTimeout(() => {
-        finish();
-      }, NO_FOLLOW_IDLE_MS);
-    };
-
-    const handleAbort = () => {
-      finish();
-    };
-
-    const stopError = session.on("error", (error) => {
-      fail(error);
-    });
-    const stopEvents = session.on(
-      "event",
-      (event) => {
-        resetIdleTimer();
-
-        if (cursorSeq !== undefined && event.seq < cursorSeq) {
-          return;
-        }
-
-        if (limit !== undefined && emitted >= limit) {
-          finish();
-          return;
-        }
-
-        if (json) {
-          runtime.writeJsonOutput(event);
-        } else {
-          runtime.logger.info(runtime.formatTailEvent(event));
-        }
-
-        emitted += 1;
-
-        if (limit !== undefined && emitted >= limit) {
-          finish();
-        }
-      },
-      { agent }
-    );
-
-    signal.addEventListener("abort", handleAbort, { once: true });
-    resetIdleTimer();
-  });
+      emitted += 1;
+      if (limit !== undefined && emitted >= limit) {
+        return;
+      }
+    }
+  } finally {
+    clearTimeout(idleTimer);
+    signal.removeEventListener("abort", abort);
+  }
 }
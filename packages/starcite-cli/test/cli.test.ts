@@ -2,7 +2,12 @@ import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
-import { StarciteIdentity, type TailEvent } from "@starcite/sdk";
+import {
+  Starcite,
+  StarciteIdentity,
+  type StarciteSession,
+  type TailEvent,
+} from "@starcite/sdk";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { buildProgram } from "../src/cli";
 import { StarciteCliCache } from "../src/store";
@@ -13,52 +18,129 @@ interface FakeSession {
   readonly identity: StarciteIdentity;
   readonly record?: { id: string; title?: string };
   append: ReturnType<typeof vi.fn>;
-  on: ReturnType<typeof vi.fn>;
+  stream: ReturnType<typeof vi.fn>;
   disconnect: ReturnType<typeof vi.fn>;
   log: {
     hydrate: ReturnType<typeof vi.fn>;
   };
 }
 
-function createOnMock(input: {
-  error?: Error;
-  events?: TailEvent[];
-  gap?: Record<string, unknown>;
-}): ReturnType<typeof vi.fn> {
-  return vi.fn((eventName, listener, options) => {
-    if (eventName === "event") {
-      queueMicrotask(() => {
-        if (input.error) {
-          return;
-        }
+const phoenixMock = vi.hoisted(() => {
+  /**
+   * What every `tail:<id>` channel join answers with: a join error, or a join
+   * reply followed by one `events` batch.
+   */
+  const tailScript: { events: unknown[]; joinError?: string } = { events: [] };
 
-        for (const event of input.events ?? []) {
-          if (
-            options?.agent &&
-            event.actor !== `agent:${options.agent as string}`
-          ) {
-            continue;
-          }
+  class MockPush {
+    private readonly status: string;
+    private readonly payload: unknown;
 
-          listener(event, { phase: "live", replayed: false });
-        }
-      });
+    constructor(status: string, payload: unknown = {}) {
+      this.status = status;
+      this.payload = payload;
     }
 
-    if (eventName === "gap" && input.gap) {
-      queueMicrotask(() => {
-        listener(input.gap);
-      });
+    receive(status: string, callback: (payload?: unknown) => void): this {
+      if (status === this.status) {
+        setTimeout(() => callback(this.payload), 0);
+      }
+      return this;
     }
+  }
+
+  class MockPhoenixChannel {
+    private readonly bindings = new Map<string, (payload?: unknown) => void>();
 
-    if (eventName === "error" && input.error) {
-      queueMicrotask(() => {
-        listener(input.error);
-      });
+    join(): MockPush {
+      if (tailScript.joinError) {
+        return new MockPush("error", { reason: tailScript.joinError });
+      }
+
+      setTimeout(() => {
+        this.bindings.get("events")?.({ events: tailScript.events });
+      }, 0);
+      return new MockPush("ok");
     }
 
-    return () => undefined;
-  });
+    leave(): MockPush {
+      this.bindings.clear();
+      return new MockPush("ok");
+    }
+
+    rejoin(): void {
+      this.join();
+    }
+
+    on(event: string, callback: (payload?: unknown) => void): number {
+      this.bindings.set(event, callback);
+      return this.bindings.size;
+    }
+
+    off(event: string): void {
+      this.bindings.delete(event);
+    }
+
+    onClose(): number {
+      return 0;
+    }
+
+    onError(): number {
+      return 0;
+    }
+  }
+
+  class MockPhoenixSocket {
+    channel(): MockPhoenixChannel {
+      return new MockPhoenixChannel();
+    }
+
+    connect(): void {
+      // Channels answer on their own; there is no connection to open.
+    }
+
+    disconnect(callback?: () => void): void {
+      callback?.();
+    }
+
+    isConnected(): boolean {
+      return true;
+    }
+
+    onOpen(): string {
+      return "";
+    }
+
+    onClose(): string {
+      return "";
+    }
+
+    onError(): string {
+      return "";
+    }
+
+    off(): void {
+      // No socket callbacks are kept.
+    }
+  }
+
+  return { MockPhoenixChannel, MockPhoenixSocket, tailScript };
+});
+
+vi.mock("phoenix", () => ({
+  Channel: phoenixMock.MockPhoenixChannel,
+  Socket: phoenixMock.MockPhoenixSocket,
+}));
+
+function makeTailEvent(seq: number, text: string): TailEvent {
+  return {
+    seq,
+    type: "content",
+    payload: { text },
+    actor: "agent:drafter",
+    producer_id: "producer:drafter",
+    producer_seq: seq,
+  };
 }
 
 function makeLogger() {
@@ -109,10 +191,12 @@ describe("starcite CLI", () => {
   const user = vi.fn();
   const session = vi.fn();
   const listSessions = vi.fn();
+  const iterateSessions = vi.fn();
   const getSession = vi.fn();
   const updateSession = vi.fn();
   const archiveSession = vi.fn();
   const unarchiveSession = vi.fn();
+  const tailSessions: StarciteSession[] = [];
   let configDir = "";
   let previousApiKey: string | undefined;
   const serviceToken = encodeJwt({
@@ -136,7 +220,7 @@ describe("starcite CLI", () => {
     }),
     record: { id: "ses_123", title: "Draft contract" },
     append: vi.fn(),
-    on: vi.fn(),
+    stream: vi.fn(),
     disconnect: vi.fn(),
     log: {
       hydrate: vi.fn(),
@@ -149,6 +233,7 @@ describe("starcite CLI", () => {
       user,
       session,
       listSessions,
+      iterateSessions,
       getSession,
       updateSession,
       archiveSession,
@@ -164,12 +249,13 @@ describe("starcite CLI", () => {
     user.mockReset();
     session.mockReset();
     listSessions.mockReset();
+    iterateSessions.mockReset();
     getSession.mockReset();
     updateSession.mockReset();
     archiveSession.mockReset();
     unarchiveSession.mockReset();
     fakeSession.append.mockReset();
-    fakeSession.on.mockReset();
+    fakeSession.stream.mockReset();
     fakeSession.disconnect.mockReset();
     fakeSession.log.hydrate.mockReset();
 
@@ -263,23 +349,27 @@ describe("starcite CLI", () => {
       last_seq: 1,
       deduped: false,
     });
-    fakeSession.on.mockImplementation(
-      createOnMock({
-        events: [
-          {
-            seq: 1,
-            type: "content",
-            payload: { text: "Drafting clause 4.2..." },
-            actor: "agent:drafter",
-            producer_id: "producer:drafter",
-            producer_seq: 1,
-          },
-        ],
-      })
+    phoenixMock.tailScript.events = [
+      makeTailEvent(1, "Drafting clause 4.2..."),
+    ];
+    phoenixMock.tailScript.joinError = undefined;
+    // Streams run through a real session tailing the mocked socket.
+    fakeSession.stream.mockImplementation(
+      (options: Parameters<StarciteSession["stream"]>[0]) => {
+        const tailSession = new Starcite({
+          baseUrl: "http://localhost:45187",
+          fetch: vi.fn<typeof fetch>(),
+        }).session({ token: sessionToken });
+        tailSessions.push(tailSession);
+        return tailSession.stream(options);
+      }
     );
   });
 
   afterEach(() => {
+    for (const tailSession of tailSessions.splice(0)) {
+      tailSession.disconnect();
+    }
     if (previousApiKey === undefined) {
       Reflect.deleteProperty(process.env, "STARCITE_API_KEY");
     } else {
@@ -1281,6 +1371,52 @@ describe("starcite CLI", () => {
     });
   });
 
+  it("sessions list --all follows every page", async () => {
+    const { logger, info } = makeLogger();
+
+    iterateSessions.mockReturnValue([
+      {
+        id: "ses_201",
+        title: "First",
+        metadata: {},
+        archived: false,
+        created_at: "2026-02-13T01:00:00Z",
+      },
+      {
+        id: "ses_202",
+        title: "Second",
+        metadata: {},
+        archived: false,
+        created_at: "2026-02-13T01:05:00Z",
+      },
+    ]);
+
+    const program = buildProgram({
+      logger,
+      createClient: () => createFakeClient(),
+    });
+
+    await program.parseAsync(
+      ["--config-dir", configDir, "sessions", "list", "--all", "--limit", "50"],
+      {
+        from: "user",
+      }
+    );
+
+    expect(listSessions).not.toHaveBeenCalled();
+    expect(iterateSessions).toHaveBeenCalledWith({
+      limit: 50,
+      cursor: undefined,
+      archived: undefined,
+      metadata: undefined,
+    });
+    expect(info).toEqual([
+      "id\ttitle\tarchived\tcreated_at",
+      "ses_201\tFirst\tfalse\t2026-02-13T01:00:00Z",
+      "ses_202\tSecond\tfalse\t2026-02-13T01:05:00Z",
+    ]);
+  });
+
   it("sessions list outputs JSON with --json", async () => {
     const { logger, info, error } = makeLogger();
     const { stdout, messages } = makeStdout();
@@ -1311,6 +1447,48 @@ describe("starcite CLI", () => {
     ]);
   });
 
+  it("sessions list --all --json prints one record per line as pages arrive", async () => {
+    const { logger, info } = makeLogger();
+    const { stdout, messages } = makeStdout();
+    const printedBeforeSecondPage: string[] = [];
+
+    iterateSessions.mockImplementation(function* () {
+      yield {
+        id: "ses_301",
+        metadata: {},
+        created_at: "2026-02-13T02:00:00Z",
+      };
+      printedBeforeSecondPage.push(...messages);
+      yield {
+        id: "ses_302",
+        metadata: {},
+        created_at: "2026-02-13T02:05:00Z",
+      };
+    });
+
+    const program = buildProgram({
+      logger,
+      stdout,
+      createClient: () => createFakeClient(),
+    });
+
+    await program.parseAsync(
+      ["--config-dir", configDir, "--json", "sessions", "list", "--all"],
+      {
+        from: "user",
+      }
+    );
+
+    const lines = messages
+      .join("")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as { id: string });
+    expect(lines.map((line) => line.id)).toEqual(["ses_301", "ses_302"]);
+    expect(printedBeforeSecondPage).toHaveLength(1);
+    expect(info).toEqual([]);
+  });
+
   it("sessions get prints the session header", async () => {
     const { logger, info } = makeLogger();
 
@@ -1463,8 +1641,9 @@ describe("starcite CLI", () => {
       id: "ses_123",
       identity: expect.any(StarciteIdentity),
     });
-    expect(fakeSession.on).toHaveBeenCalledWith("event", expect.any(Function), {
-      agent: undefined,
+    expect(fakeSession.stream).toHaveBeenCalledWith({
+      fromSeq: undefined,
+      signal: expect.any(AbortSignal),
     });
     expect(info).toEqual(["[drafter] Drafting clause 4.2..."]);
   });
@@ -1473,12 +1652,10 @@ describe("starcite CLI", () => {
     const { logger, info, error } = makeLogger();
     let capturedCache: StarciteCliCache | undefined;
 
+    phoenixMock.tailScript.joinError = "synthetic session failure";
     const staleSession: FakeSession = {
       ...fakeSession,
       append: vi.fn(),
-      on: createOnMock({
-        error: new Error("synthetic session failure"),
-      }),
     };
 
     const program = buildProgram({
@@ -1549,32 +1726,13 @@ describe("starcite CLI", () => {
     );
   });
 
-  it("tail ignores gap notifications from the session and continues streaming events", async () => {
+  it("tail continues streaming events past a seq gap", async () => {
     const { logger, info, error } = makeLogger();
 
+    phoenixMock.tailScript.events = [makeTailEvent(2, "recovered after gap")];
     const gappedSession: FakeSession = {
       ...fakeSession,
       append: vi.fn(),
-      on: createOnMock({
-        events: [
-          {
-            seq: 2,
-            type: "content",
-            payload: { text: "recovered after gap" },
-            actor: "agent:drafter",
-            producer_id: "producer:drafter",
-            producer_seq: 2,
-          },
-        ],
-        gap: {
-          type: "gap",
-          reason: "resume_invalidated",
-          from_cursor: 1,
-          next_cursor: 2,
-          committed_cursor: 2,
-          earliest_available_cursor: 2,
-        },
-      }),
     };
 
     const program = buildProgram({
@@ -1604,28 +1762,10 @@ describe("starcite CLI", () => {
   it("tail --cursor uses a sequence number and filters replay by seq", async () => {
     const { logger, info } = makeLogger();
 
-    fakeSession.on.mockImplementation(
-      createOnMock({
-        events: [
-          {
-            seq: 1,
-            type: "content",
-            payload: { text: "first event" },
-            actor: "agent:drafter",
-            producer_id: "producer:drafter",
-            producer_seq: 1,
-          },
-          {
-            seq: 2,
-            type: "content",
-            payload: { text: "second event" },
-            actor: "agent:drafter",
-            producer_id: "producer:drafter",
-            producer_seq: 2,
-          },
-        ],
-      })
-    );
+    phoenixMock.tailScript.events = [
+      makeTailEvent(1, "first event"),
+      makeTailEvent(2, "second event"),
+    ];
 
     const program = buildProgram({
       logger,
@@ -1686,28 +1826,10 @@ describe("starcite CLI", () => {
   it("tail --limit applies a hard cap even when multiple events arrive in one callback stream", async () => {
     const { logger, info } = makeLogger();
 
-    fakeSession.on.mockImplementation(
-      createOnMock({
-        events: [
-          {
-            seq: 1,
-            type: "content",
-            payload: { text: "first event" },
-            actor: "agent:drafter",
-            producer_id: "producer:drafter",
-            producer_seq: 1,
-          },
-          {
-            seq: 2,
-            type: "content",
-            payload: { text: "second event" },
-            actor: "agent:drafter",
-            producer_id: "producer:drafter",
-            producer_seq: 2,
-          },
-        ],
-      })
-    );
+    phoenixMock.tailScript.events = [
+      makeTailEvent(1, "first event"),
+      makeTailEvent(2, "second event"),
+    ];
 
     const program = buildProgram({
       logger,
@@ -4,6 +4,7 @@ import { fileURLToPath } from "node:url";
 import { defineConfig } from "vitest/config";
 
 const currentDirectory = dirname(fileURLToPath(import.meta.url));
+const sdkDirectory = resolve(currentDirectory, "../typescript-sdk");
 const pkg = JSON.parse(readFileSync("package.json", "utf8")) as {
   version: string;
 };
@@ -14,10 +15,10 @@ export default defineConfig({
   },
   resolve: {
     alias: {
-      "@starcite/sdk": resolve(
-        currentDirectory,
-        "../typescript-sdk/src/index.ts"
-      ),
+      "@starcite/sdk": resolve(sdkDirectory, "src/index.ts"),
+      // The SDK's socket client, resolved the same way for the CLI tests so
+      // they can mock it.
+      phoenix: resolve(sdkDirectory, "node_modules/phoenix"),
     },
   },
   test: {
@@ -1,4 +1,8 @@
-import type { AppendResult, SessionAppendInput } from "@starcite/sdk";
+import type {
+  AppendResult,
+  SessionAppendCoalesceOptions,
+  SessionAppendInput,
+} from "@starcite/sdk";
 import { readUIMessageStream, type UIMessage, type UIMessageChunk } from "ai";
 import { z } from "zod";
 
@@ -24,6 +28,14 @@ const assistantEnvelopeSchema = z.object({
   chunk: chatChunkSchema.passthrough(),
 });
 
+const coalescibleDeltaChunkSchema = z
+  .object({
+    type: z.enum(["text-delta", "reasoning-delta"]),
+    id: z.string(),
+    delta: z.string(),
+  })
+  .passthrough();
+
 const chatPayloadEnvelopeSchema = z.discriminatedUnion("kind", [
   userEnvelopeSchema.passthrough(),
   assistantEnvelopeSchema.passthrough(),
@@ -91,6 +103,49 @@ export function appendAssistantChunkEvent(
   });
 }
 
+function parseCoalescibleDeltaChunk(input: SessionAppendInput) {
+  if (input.type !== chatAssistantChunkEventType) {
+    return undefined;
+  }
+
+  const envelope = assistantEnvelopeSchema.safeParse(input.payload);
+  if (!envelope.success) {
+    return undefined;
+  }
+
+  const chunk = coalescibleDeltaChunkSchema.safeParse(envelope.data.chunk);
+  return chunk.success ? chunk.data : undefined;
+}
+
+/**
+ * Append coalescing for assistant chunk events.
+ *
+ * Pass as `appendOptions.coalesce` to merge consecutive `text-delta` and
+ * `reasoning-delta` chunks of the same part into one event. Any other chunk,
+ * such as `text-end` or `finish`, flushes the merged delta first.
+ */
+export const chatAssistantChunkCoalescing: SessionAppendCoalesceOptions = {
+  key: (input) => {
+    const chunk = parseCoalescibleDeltaChunk(input);
+    return chunk ? `${chunk.type}:${chunk.id}` : undefined;
+  },
+  merge: (pending, next) => {
+    const pendingChunk = parseCoalescibleDeltaChunk(pending);
+    const nextChunk = parseCoalescibleDeltaChunk(next);
+    if (!(pendingChunk && nextChunk)) {
+      throw new Error("Cannot merge non-delta assistant chunks");
+    }
+
+    return {
+      ...pending,
+      payload: createAssistantChunkEnvelope({
+        ...pendingChunk,
+        delta: `${pendingChunk.delta}${nextChunk.delta}`,
+      }),
+    };
+  },
+};
+
 export async function appendAssistantTextMessage(
   session: SessionAppender,
   text: string,
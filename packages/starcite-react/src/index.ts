@@ -4,6 +4,7 @@ export {
   appendAssistantChunkEvent,
   appendAssistantTextMessage,
   appendUserMessageEvent,
+  chatAssistantChunkCoalescing,
   chatAssistantChunkEventType,
   chatUserMessageEventType,
   createAssistantChunkEnvelope,
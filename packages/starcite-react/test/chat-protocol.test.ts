@@ -3,6 +3,7 @@ import {
   appendAssistantChunkEvent,
   appendAssistantTextMessage,
   appendUserMessageEvent,
+  chatAssistantChunkCoalescing,
   chatAssistantChunkEventType,
   chatUserMessageEventType,
   createAssistantChunkEnvelope,
@@ -96,6 +97,42 @@ describe("chat protocol", () => {
     });
   });
 
+  it("coalesces consecutive text deltas of the same part", () => {
+    const chunkInput = (chunk: Record<string, unknown>) => ({
+      type: chatAssistantChunkEventType,
+      source: "agent",
+      payload: createAssistantChunkEnvelope(chunk),
+    });
+    const first = chunkInput({
+      type: "text-delta",
+      id: "part_1",
+      delta: "Hel",
+    });
+    const second = chunkInput({
+      type: "text-delta",
+      id: "part_1",
+      delta: "lo",
+    });
+
+    expect(chatAssistantChunkCoalescing.key(first)).toBe("text-delta:part_1");
+    expect(
+      chatAssistantChunkCoalescing.key(
+        chunkInput({ type: "text-delta", id: "part_2", delta: "x" })
+      )
+    ).toBe("text-delta:part_2");
+    expect(
+      chatAssistantChunkCoalescing.key(
+        chunkInput({ type: "text-end", id: "part_1" })
+      )
+    ).toBeUndefined();
+    expect(
+      chatAssistantChunkCoalescing.key({ type: chatUserMessageEventType })
+    ).toBeUndefined();
+    expect(chatAssistantChunkCoalescing.merge(first, second)).toEqual(
+      chunkInput({ type: "text-delta", id: "part_1", delta: "Hello" })
+    );
+  });
+
   it("appends a complete assistant text message as chunk events", async () => {
     const append = vi.fn().mockResolvedValue({ deduped: false, seq: 13 });
 
@@ -0,0 +1,168 @@
+import { StarciteError } from "./errors";
+import type {
+  AppendResult,
+  SessionAppendCoalesceOptions,
+  SessionAppendInput,
+} from "./types";
+
+// ---------------------------------------------------------------------------
+// Internal types
+// ---------------------------------------------------------------------------
+
+interface Deferred<T> {
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+}
+
+interface PendingCoalescedAppend {
+  key: string;
+  input: SessionAppendInput;
+  timer: ReturnType<typeof setTimeout>;
+  waiters: Deferred<AppendResult>[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const APPEND_COALESCE_WINDOW_MS = 50;
+const APPEND_COALESCE_MAX_BYTES = 16 * 1024;
+
+const textEncoder = new TextEncoder();
+
+// ---------------------------------------------------------------------------
+// AppendCoalescer
+// ---------------------------------------------------------------------------
+
+/**
+ * Merges consecutive appends that share a coalescing key into one event.
+ *
+ * At most one merged append is buffered at a time, so flushing it before any
+ * other append keeps the producer order intact.
+ */
+export class AppendCoalescer {
+  private readonly key: SessionAppendCoalesceOptions["key"];
+  private readonly merge: SessionAppendCoalesceOptions["merge"];
+  private readonly windowMs: number;
+  private readonly maxBytes: number;
+  private readonly append: (input: SessionAppendInput) => Promise<AppendResult>;
+  private pending: PendingCoalescedAppend | undefined;
+
+  constructor(
+    options: SessionAppendCoalesceOptions,
+    append: (input: SessionAppendInput) => Promise<AppendResult>
+  ) {
+    const windowMs = options.windowMs ?? APPEND_COALESCE_WINDOW_MS;
+    const maxBytes = options.maxBytes ?? APPEND_COALESCE_MAX_BYTES;
+    if (!Number.isFinite(windowMs) || windowMs < 0) {
+      throw new StarciteError(
+        "append coalesce windowMs must be a non-negative number"
+      );
+    }
+    if (!Number.isInteger(maxBytes) || maxBytes <= 0) {
+      throw new StarciteError(
+        "append coalesce maxBytes must be a positive integer"
+      );
+    }
+
+    this.key = options.key;
+    this.merge = options.merge;
+    this.windowMs = windowMs;
+    this.maxBytes = maxBytes;
+    this.append = append;
+  }
+
+  /**
+   * Buffers `input` when it has a coalescing key.
+   *
+   * Returns `undefined` for appends that must not be merged; the caller then
+   * flushes and appends them directly.
+   */
+  add(input: SessionAppendInput): Promise<AppendResult> | undefined {
+    const key = this.key(input);
+    if (key === undefined) {
+      return undefined;
+    }
+
+    if (this.pending && this.pending.key !== key) {
+      this.flush();
+    }
+
+    let merged = input;
+    if (this.pending) {
+      try {
+        merged = this.merge(this.pending.input, input);
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+
+    let waiter: Deferred<AppendResult> | undefined;
+    const promise = new Promise<AppendResult>((resolve, reject) => {
+      waiter = { resolve, reject };
+    });
+
+    this.pending ??= {
+      key,
+      input: merged,
+      timer: setTimeout(() => {
+        this.flush();
+      }, this.windowMs),
+      waiters: [],
+    };
+    this.pending.input = merged;
+    this.pending.waiters.push(waiter as Deferred<AppendResult>);
+
+    const bytes = textEncoder.encode(
+      JSON.stringify(merged.payload ?? merged.text)
+    ).byteLength;
+    if (bytes >= this.maxBytes) {
+      this.flush();
+    }
+
+    return promise;
+  }
+
+  /**
+   * Hands the buffered append, if any, to the append queue.
+   */
+  flush(): void {
+    const pending = this.take();
+    if (!pending) {
+      return;
+    }
+
+    this.append(pending.input).then(
+      (result) => {
+        for (const waiter of pending.waiters) {
+          waiter.resolve(result);
+        }
+      },
+      (error: unknown) => {
+        for (const waiter of pending.waiters) {
+          waiter.reject(error);
+        }
+      }
+    );
+  }
+
+  /**
+   * Drops the buffered append without sending it.
+   */
+  reject(reason: Error): void {
+    const pending = this.take();
+    for (const waiter of pending?.waiters ?? []) {
+      waiter.reject(reason);
+    }
+  }
+
+  private take(): PendingCoalescedAppend | undefined {
+    const pending = this.pending;
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending = undefined;
+    }
+
+    return pending;
+  }
+}
@@ -1,13 +1,17 @@
+import { AppendCoalescer } from "./append-coalescer";
+import { StarciteApiError, StarciteError } from "./errors";
+import { instrument } from "./instrumentation";
 import {
-  StarciteApiError,
-  StarciteConnectionError,
-  StarciteError,
-} from "./errors";
+  calculateRetryDelay,
+  exceedsRetryAfterLimit,
+  isRetryableError,
+  RETRY_AFTER_MAX_MS,
+  type ResolvedRetryPolicy,
+} from "./retry";
 import type { TransportConfig } from "./transport";
 import { request } from "./transport";
 import type {
   AppendEventRequest,
-  AppendEventResponse,
   AppendResult,
   SessionAppendFailureSnapshot,
   SessionAppendInput,
@@ -16,9 +20,14 @@ import type {
   SessionAppendQueueState,
   SessionAppendStoreState,
   SessionPendingAppend,
+  SessionPendingEvent,
+  SessionPendingEventStatus,
   TailEvent,
 } from "./types";
-import { AppendEventResponseSchema } from "./types";
+import {
+  AppendEventBatchResponseSchema,
+  AppendEventResponseSchema,
+} from "./types";
 
 // ---------------------------------------------------------------------------
 // Internal types
@@ -32,26 +41,27 @@ interface Deferred<T> {
 interface RuntimeAppendQueueItem {
   id: string;
   request: AppendEventRequest;
+  batch?: AppendEventRequest[];
   enqueuedAtMs: number;
   retryAttempt: number;
   signal?: AbortSignal;
-  deferred?: Deferred<AppendEventResponse>;
+  deferred?: Deferred<AppendResult[]>;
+  /** Committed seqs observed on the tail, keyed by request index. */
+  committedSeqs?: Map<number, number>;
+  /** Sent while an earlier item was still unacknowledged. */
+  pipelined?: boolean;
 }
 
-interface ResolvedSessionAppendRetryPolicy {
-  mode: "fixed" | "exponential";
-  initialDelayMs: number;
-  maxDelayMs: number;
-  multiplier: number;
-  jitterRatio: number;
-  maxAttempts: number;
-}
+type AppendAttemptOutcome =
+  | { ok: true; results: AppendResult[] }
+  | { ok: false; error: unknown };
 
 interface ResolvedSessionAppendOptions {
-  retryPolicy: ResolvedSessionAppendRetryPolicy;
+  retryPolicy: ResolvedRetryPolicy;
   persist: boolean;
   autoFlush: boolean;
   terminalFailureMode: "pause" | "clear";
+  maxInFlight: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -62,36 +72,12 @@ const APPEND_RETRY_INITIAL_DELAY_MS = 250;
 const APPEND_RETRY_MAX_DELAY_MS = 5000;
 const APPEND_RETRY_MULTIPLIER = 2;
 const APPEND_RETRY_JITTER_RATIO = 0;
-const RETRYABLE_APPEND_STATUS_CODES = new Set([
-  408, 425, 429, 500, 502, 503, 504,
-]);
+const APPEND_MAX_IN_FLIGHT = 1;
 
 // ---------------------------------------------------------------------------
 // Free functions
 // ---------------------------------------------------------------------------
 
-function calculateAppendRetryDelay(
-  retryAttempt: number,
-  policy: ResolvedSessionAppendRetryPolicy
-): number {
-  const exponent = policy.mode === "fixed" ? 0 : Math.max(0, retryAttempt - 1);
-  const baseDelayMs = Math.min(
-    policy.initialDelayMs * policy.multiplier ** exponent,
-    policy.maxDelayMs
-  );
-
-  if (policy.jitterRatio === 0) {
-    return baseDelayMs;
-  }
-
-  const jitterWindowMs = Math.round(baseDelayMs * policy.jitterRatio);
-  const minimumDelayMs = Math.max(0, baseDelayMs - jitterWindowMs);
-  const maximumDelayMs = baseDelayMs + jitterWindowMs;
-  return Math.round(
-    minimumDelayMs + Math.random() * (maximumDelayMs - minimumDelayMs)
-  );
-}
-
 function createLinkedAbortController(
   signals: readonly (AbortSignal | undefined)[]
 ): {
@@ -131,6 +117,35 @@ function createLinkedAbortController(
   };
 }
 
+function appendItemRequests(item: {
+  request: AppendEventRequest;
+  batch?: AppendEventRequest[];
+}): AppendEventRequest[] {
+  return item.batch ?? [item.request];
+}
+
+function toPendingEvents(
+  item: RuntimeAppendQueueItem,
+  defaultActor: string,
+  status: SessionPendingEventStatus,
+  results?: readonly AppendResult[]
+): SessionPendingEvent[] {
+  return appendItemRequests(item).map((req, requestIndex) => ({
+    seq: results?.[requestIndex]?.seq,
+    localId: item.batch ? `${item.id}:${requestIndex}` : item.id,
+    status,
+    type: req.type,
+    payload: req.payload,
+    actor: req.actor ?? defaultActor,
+    producer_id: req.producer_id,
+    producer_seq: req.producer_seq,
+    source: req.source,
+    metadata: req.metadata,
+    refs: req.refs,
+    idempotency_key: req.idempotency_key,
+  }));
+}
+
 function createAppendAbortError(sessionId: string): StarciteError {
   return new StarciteError(
     `append() aborted for session '${sessionId}' before the request could be sent`
@@ -160,6 +175,7 @@ export class AppendQueue {
   private readonly sessionId: string;
   private readonly transport: TransportConfig;
   private readonly options: ResolvedSessionAppendOptions;
+  private readonly coalescer: AppendCoalescer | undefined;
   private readonly onUnauthorized:
     | ((error: StarciteApiError) => Promise<void>)
     | undefined;
@@ -170,14 +186,25 @@ export class AppendQueue {
   private appendProducerId: string;
   private appendLastAcknowledgedProducerSeq = 0;
   private readonly appendQueue: RuntimeAppendQueueItem[] = [];
+  /** Acknowledged appends whose committed events have not reached history. */
+  private readonly awaitingCommit: Array<{
+    item: RuntimeAppendQueueItem;
+    results: AppendResult[];
+  }> = [];
   private appendQueueTask: Promise<void> | undefined;
   private appendQueueRunController: AbortController | undefined;
   private appendQueueVersion = 0;
   private appendQueueStatus: SessionAppendQueueState["status"] = "idle";
-  private appendInFlightItemId: string | undefined;
+  private readonly appendInFlight = new Map<
+    string,
+    Promise<AppendAttemptOutcome>
+  >();
+  private appendInFlightController: AbortController | undefined;
   private appendRetryAttempt = 0;
   private appendNextRetryAtMs: number | undefined;
   private appendLastFailure: SessionAppendFailureSnapshot | undefined;
+  private online = true;
+  private readonly connectivityWaiters = new Set<() => void>();
 
   constructor(opts: AppendQueueOptions) {
     this.sessionId = opts.sessionId;
@@ -188,6 +215,11 @@ export class AppendQueue {
     this.onLifecycle = opts.onLifecycle;
 
     const retryPolicy = opts.appendOptions?.retryPolicy;
+    const maxInFlight = opts.appendOptions?.maxInFlight ?? APPEND_MAX_IN_FLIGHT;
+    if (!Number.isInteger(maxInFlight) || maxInFlight < 1) {
+      throw new StarciteError("append maxInFlight must be a positive integer");
+    }
+
     this.options = {
       retryPolicy: {
         mode: retryPolicy?.mode ?? "exponential",
@@ -196,13 +228,24 @@ export class AppendQueue {
         maxDelayMs: retryPolicy?.maxDelayMs ?? APPEND_RETRY_MAX_DELAY_MS,
         multiplier: retryPolicy?.multiplier ?? APPEND_RETRY_MULTIPLIER,
         jitterRatio: retryPolicy?.jitterRatio ?? APPEND_RETRY_JITTER_RATIO,
-        maxAttempts: retryPolicy?.maxAttempts ?? Number.POSITIVE_INFINITY,
+        maxRetries:
+          retryPolicy?.maxRetries ??
+          retryPolicy?.maxAttempts ??
+          Number.POSITIVE_INFINITY,
+        maxRetryAfterMs: retryPolicy?.maxRetryAfterMs ?? RETRY_AFTER_MAX_MS,
       },
       persist: opts.persist && (opts.appendOptions?.persist ?? true),
       autoFlush: opts.appendOptions?.autoFlush ?? true,
       terminalFailureMode: opts.appendOptions?.terminalFailureMode ?? "pause",
+      maxInFlight,
     };
 
+    this.coalescer = opts.appendOptions?.coalesce
+      ? new AppendCoalescer(opts.appendOptions.coalesce, (input) =>
+          this.appendNow(input)
+        )
+      : undefined;
+
     this.appendProducerId = crypto.randomUUID();
   }
 
@@ -214,29 +257,44 @@ export class AppendQueue {
     input: SessionAppendInput,
     signal?: AbortSignal
   ): Promise<AppendResult> {
+    if (this.coalescer && !signal) {
+      const coalesced = this.coalescer.add(input);
+      if (coalesced) {
+        return coalesced;
+      }
+    }
+
+    this.coalescer?.flush();
+    return this.appendNow(input, signal);
+  }
+
+  appendMany(
+    inputs: readonly SessionAppendInput[],
+    signal?: AbortSignal
+  ): Promise<AppendResult[]> {
+    if (inputs.length === 0) {
+      return Promise.resolve([]);
+    }
+
+    this.coalescer?.flush();
     const itemId = crypto.randomUUID();
+    const firstProducerSeq = this.nextManagedProducerSeq();
+    const batch = inputs.map((input, index) =>
+      this.buildAppendRequest(
+        input,
+        firstProducerSeq + index,
+        `${itemId}:${index}`
+      )
+    );
 
     return this.enqueueAppend({
       id: itemId,
-      request: {
-        type: input.type ?? "content",
-        payload: input.payload ?? { text: input.text },
-        actor: input.actor,
-        producer_id: this.appendProducerId,
-        producer_seq: this.nextManagedProducerSeq(),
-        source: input.source ?? "agent",
-        metadata: input.metadata,
-        refs: input.refs,
-        idempotency_key: input.idempotencyKey ?? itemId,
-        expected_seq: input.expectedSeq,
-      },
+      request: batch[0] as AppendEventRequest,
+      batch,
       enqueuedAtMs: Date.now(),
       retryAttempt: 0,
       signal,
-    }).then((result) => ({
-      seq: result.seq,
-      deduped: result.deduped,
-    }));
+    });
   }
 
   state(): SessionAppendQueueState {
@@ -269,6 +327,7 @@ export class AppendQueue {
     const rejection = new StarciteError(
       `append queue reset for session '${this.sessionId}' before pending items could be acknowledged`
     );
+    this.coalescer?.reject(rejection);
 
     this.clear(rejection, {
       rotateProducer: true,
@@ -291,7 +350,29 @@ export class AppendQueue {
     }
   }
 
+  /**
+   * Records a connectivity change. While offline the queue holds its items
+   * without spending retry attempts and flushes again once back online.
+   */
+  setOnline(online: boolean): void {
+    if (this.online === online) {
+      return;
+    }
+
+    this.online = online;
+    const waiters = [...this.connectivityWaiters];
+    this.connectivityWaiters.clear();
+    for (const waiter of waiters) {
+      waiter();
+    }
+
+    if (online) {
+      this.ensureProcessing();
+    }
+  }
+
   stop(): void {
+    this.coalescer?.flush();
     this.appendQueueVersion += 1;
     this.appendQueueRunController?.abort();
   }
@@ -300,82 +381,57 @@ export class AppendQueue {
   // Reconciliation
   // -----------------------------------------------------------------------
 
-  reconcileWithCommittedEvents(
-    events: readonly TailEvent[],
-    lastSeq: number
-  ): boolean {
+  reconcileWithCommittedEvents(events: readonly TailEvent[]): boolean {
     if (this.appendQueue.length === 0) {
       return false;
     }
 
-    const reconciled: Array<{
-      event: TailEvent;
-      item: RuntimeAppendQueueItem;
-    }> = [];
-    let removedInFlightItem = false;
-
     for (const event of events) {
-      const matchedIndex = this.appendQueue.findIndex((item) =>
-        this.matchesCommittedEvent(item.request, event)
-      );
-      if (matchedIndex < 0) {
-        continue;
-      }
+      this.recordCommittedEvent(event);
+    }
 
-      const [matchedItem] = this.appendQueue.splice(matchedIndex, 1);
-      if (!matchedItem) {
-        continue;
-      }
+    const reconciled = this.appendQueue.filter(
+      (item) => item.committedSeqs?.size === appendItemRequests(item).length
+    );
+    if (reconciled.length === 0) {
+      return false;
+    }
 
-      if (matchedItem.id === this.appendInFlightItemId) {
+    let removedInFlightItem = false;
+    for (const item of reconciled) {
+      this.appendQueue.splice(this.appendQueue.indexOf(item), 1);
+      if (this.appendInFlight.has(item.id)) {
         removedInFlightItem = true;
       }
 
-      if (matchedItem.request.producer_id === this.appendProducerId) {
-        this.appendLastAcknowledgedProducerSeq = Math.max(
-          this.appendLastAcknowledgedProducerSeq,
-          matchedItem.request.producer_seq
-        );
-      }
-
-      reconciled.push({ event, item: matchedItem });
-    }
-
-    if (reconciled.length === 0) {
-      return false;
+      this.recordAcknowledgedProducerSeq(item);
     }
 
     if (removedInFlightItem) {
       this.appendQueueVersion += 1;
       this.appendQueueRunController?.abort();
+      this.abortInFlightAppends();
     }
 
     if (this.appendQueueStatus !== "paused") {
-      this.appendQueueStatus = "idle";
+      this.appendQueueStatus =
+        this.online || this.appendQueue.length === 0 ? "idle" : "offline";
     }
 
     if (removedInFlightItem || this.appendQueue.length === 0) {
-      this.appendInFlightItemId = undefined;
       this.appendRetryAttempt = 0;
       this.appendNextRetryAtMs = undefined;
       this.appendLastFailure = undefined;
     }
 
     const queueSnapshot = this.snapshotAppendQueueState();
-    for (const { event, item } of reconciled) {
-      item.deferred?.resolve({
-        deduped: false,
-        last_seq: lastSeq,
-        seq: event.seq,
-      });
-      this.emitLifecycle({
-        type: "acknowledged",
-        sessionId: this.sessionId,
-        itemId: item.id,
-        seq: event.seq,
+    for (const item of reconciled) {
+      const results = appendItemRequests(item).map((_, index) => ({
+        seq: item.committedSeqs?.get(index) ?? 0,
         deduped: false,
-        queue: queueSnapshot,
-      });
+      }));
+      item.deferred?.resolve(results);
+      this.emitAcknowledged(item, results, queueSnapshot);
     }
 
     if (
@@ -405,6 +461,7 @@ export class AppendQueue {
       pending: this.appendQueue.map((item) => ({
         id: item.id,
         request: item.request,
+        batch: item.batch,
         enqueuedAtMs: item.enqueuedAtMs,
         retryAttempt: item.retryAttempt,
       })),
@@ -429,12 +486,13 @@ export class AppendQueue {
       this.appendQueue.push({
         id: pending.id,
         request: pending.request,
+        batch: pending.batch,
         enqueuedAtMs: pending.enqueuedAtMs,
         retryAttempt: pending.retryAttempt ?? 0,
       });
     }
 
-    this.appendInFlightItemId = undefined;
+    this.abortInFlightAppends();
     this.appendNextRetryAtMs = undefined;
     this.appendRetryAttempt = this.appendQueue[0]?.retryAttempt ?? 0;
     this.appendLastFailure = storedState.lastFailure
@@ -458,19 +516,85 @@ export class AppendQueue {
     return this.appendQueue.length;
   }
 
+  /**
+   * Number of acknowledged appends still waiting for their committed events.
+   */
+  get awaitingCommitCount(): number {
+    return this.awaitingCommit.length;
+  }
+
+  /**
+   * Drops acknowledged appends whose committed seqs have all been reached.
+   * Returns whether anything was dropped.
+   */
+  settleAcknowledged(isCommitted: (seq: number) => boolean): boolean {
+    const before = this.awaitingCommit.length;
+    for (let index = this.awaitingCommit.length - 1; index >= 0; index -= 1) {
+      const entry = this.awaitingCommit[index];
+      if (entry?.results.every((result) => isCommitted(result.seq))) {
+        this.awaitingCommit.splice(index, 1);
+      }
+    }
+
+    return this.awaitingCommit.length !== before;
+  }
+
+  /**
+   * Projects acknowledged appends (carrying their committed seq) and then
+   * pending appends as provisional events in producer order.
+   */
+  pendingEvents(defaultActor: string): SessionPendingEvent[] {
+    const acknowledged = this.awaitingCommit.flatMap(({ item, results }) =>
+      toPendingEvents(item, defaultActor, "acknowledged", results)
+    );
+    const pending = this.appendQueue.flatMap((item, index) =>
+      toPendingEvents(
+        item,
+        defaultActor,
+        this.pendingEventStatus(item, index === 0)
+      )
+    );
+
+    return [...acknowledged, ...pending];
+  }
+
   // -----------------------------------------------------------------------
   // Private — queue management
   // -----------------------------------------------------------------------
 
-  private enqueueAppend(
-    item: RuntimeAppendQueueItem
-  ): Promise<AppendEventResponse> {
+  private appendNow(
+    input: SessionAppendInput,
+    signal?: AbortSignal
+  ): Promise<AppendResult> {
+    const itemId = crypto.randomUUID();
+
+    return this.enqueueAppend({
+      id: itemId,
+      request: this.buildAppendRequest(
+        input,
+        this.nextManagedProducerSeq(),
+        itemId
+      ),
+      enqueuedAtMs: Date.now(),
+      retryAttempt: 0,
+      signal,
+    }).then(([result]) => {
+      if (!result) {
+        throw new StarciteError(
+          `Append for session '${this.sessionId}' was acknowledged without a result`
+        );
+      }
+      return result;
+    });
+  }
+
+  private enqueueAppend(item: RuntimeAppendQueueItem): Promise<AppendResult[]> {
     if (item.signal?.aborted) {
       return Promise.reject(createAppendAbortError(this.sessionId));
     }
 
     const wasEmpty = this.appendQueue.length === 0;
-    const promise = new Promise<AppendEventResponse>((resolve, reject) => {
+    const promise = new Promise<AppendResult[]>((resolve, reject) => {
       item.deferred = { resolve, reject };
     });
 
@@ -497,11 +621,17 @@ export class AppendQueue {
   }
 
   private startProcessing(): void {
-    if (
-      this.appendQueueTask ||
-      this.appendQueueStatus === "paused" ||
-      this.appendQueue.length === 0
-    ) {
+    if (this.appendQueueTask) {
+      if (
+        this.appendQueueStatus === "flushing" &&
+        this.appendQueueRunController
+      ) {
+        this.fillAppendWindow(this.appendQueueRunController.signal);
+      }
+      return;
+    }
+
+    if (this.appendQueueStatus === "paused" || this.appendQueue.length === 0) {
       return;
     }
 
@@ -528,190 +658,329 @@ export class AppendQueue {
     runId: number,
     runSignal: AbortSignal
   ): Promise<void> {
-    while (!runSignal.aborted && runId === this.appendQueueVersion) {
-      if (this.appendQueueStatus === "paused") {
-        return;
-      }
+    try {
+      while (!runSignal.aborted && runId === this.appendQueueVersion) {
+        if (this.appendQueueStatus === "paused") {
+          return;
+        }
 
-      const head = this.appendQueue[0];
-      if (!head) {
-        this.appendQueueStatus = "idle";
-        this.appendInFlightItemId = undefined;
-        this.appendRetryAttempt = 0;
-        this.appendNextRetryAtMs = undefined;
-        this.onStateChange();
-        return;
-      }
+        const head = this.appendQueue[0];
+        if (!head) {
+          this.appendQueueStatus = "idle";
+          this.appendRetryAttempt = 0;
+          this.appendNextRetryAtMs = undefined;
+          this.onStateChange();
+          return;
+        }
 
-      const shouldContinue = await this.processAppendQueueHead(
-        head,
-        runId,
-        runSignal
-      );
-      if (!shouldContinue) {
-        return;
+        if (!this.online) {
+          await this.waitForOnline(runSignal);
+          continue;
+        }
+
+        const shouldContinue = await this.processAppendQueueHead(
+          head,
+          runId,
+          runSignal
+        );
+        if (!shouldContinue) {
+          return;
+        }
       }
+    } finally {
+      this.abortInFlightAppends();
     }
   }
 
-  private async processAppendQueueHead(
-    item: RuntimeAppendQueueItem,
-    runId: number,
-    runSignal: AbortSignal
-  ): Promise<boolean> {
-    if (item.signal?.aborted) {
-      this.handleTerminalAppendFailure(
-        item,
-        createAppendAbortError(this.sessionId)
+  /**
+   * Sends every not-yet-sent item in the head window of `maxInFlight` items.
+   *
+   * Requests are dispatched and acknowledged in queue order, but concurrent
+   * requests may reach the server out of `producer_seq` order. A pipelined
+   * request the server rejects is resent once it is the oldest, so a rejection
+   * for arriving ahead of its predecessor never fails the append.
+   */
+  private fillAppendWindow(runSignal: AbortSignal): void {
+    const dispatched: RuntimeAppendQueueItem[] = [];
+
+    for (const item of this.appendQueue.slice(0, this.options.maxInFlight)) {
+      if (this.appendInFlight.has(item.id)) {
+        continue;
+      }
+
+      if (item.signal?.aborted) {
+        break;
+      }
+
+      item.pipelined = item !== this.appendQueue[0];
+      this.appendInFlightController ??= new AbortController();
+      this.appendInFlight.set(
+        item.id,
+        this.sendAppend(item, [
+          item.signal,
+          runSignal,
+          this.appendInFlightController.signal,
+        ])
       );
-      return false;
+      dispatched.push(item);
+    }
+
+    if (dispatched.length === 0) {
+      return;
     }
 
     this.appendQueueStatus = "flushing";
-    this.appendInFlightItemId = item.id;
-    this.appendRetryAttempt = item.retryAttempt;
+    this.appendRetryAttempt = this.appendQueue[0]?.retryAttempt ?? 0;
     this.appendNextRetryAtMs = undefined;
     this.onStateChange();
-    this.emitLifecycle({
-      type: "attempt_started",
-      sessionId: this.sessionId,
-      itemId: item.id,
-      attempt: item.retryAttempt + 1,
-      queue: this.snapshotAppendQueueState(),
-    });
 
-    const { controller, detach } = createLinkedAbortController([
-      item.signal,
-      runSignal,
-    ]);
+    for (const item of dispatched) {
+      this.emitLifecycle({
+        type: "attempt_started",
+        sessionId: this.sessionId,
+        itemId: item.id,
+        attempt: item.retryAttempt + 1,
+        queue: this.snapshotAppendQueueState(),
+      });
+    }
+  }
 
-    try {
+  private sendAppend(
+    item: RuntimeAppendQueueItem,
+    signals: readonly (AbortSignal | undefined)[]
+  ): Promise<AppendAttemptOutcome> {
+    const { controller, detach } = createLinkedAbortController(signals);
+    const attempt = item.retryAttempt + 1;
+    const startedAtMs = Date.now();
+
+    return this.postAppend(item, controller.signal)
+      .then(
+        (results): AppendAttemptOutcome => ({ ok: true, results }),
+        (error: unknown): AppendAttemptOutcome => ({ ok: false, error })
+      )
+      .then((outcome) => {
+        instrument(this.transport.instrumentation, "onAppendAttempt", {
+          sessionId: this.sessionId,
+          itemId: item.id,
+          attempt,
+          eventCount: item.batch?.length ?? 1,
+          durationMs: Date.now() - startedAtMs,
+          ok: outcome.ok,
+          error: outcome.ok ? undefined : this.toError(outcome.error),
+        });
+        return outcome;
+      })
+      .finally(detach);
+  }
+
+  private async postAppend(
+    item: RuntimeAppendQueueItem,
+    signal: AbortSignal
+  ): Promise<AppendResult[]> {
+    const path = `/sessions/${encodeURIComponent(this.sessionId)}`;
+
+    if (!item.batch) {
       const response = await request(
         this.transport,
-        `/sessions/${encodeURIComponent(this.sessionId)}/append`,
+        `${path}/append`,
         {
           method: "POST",
           body: JSON.stringify(item.request),
-          signal: controller.signal,
+          signal,
         },
         AppendEventResponseSchema
       );
+      return [{ seq: response.seq, deduped: response.deduped }];
+    }
 
-      if (
-        runSignal.aborted ||
-        runId !== this.appendQueueVersion ||
-        this.appendQueue[0]?.id !== item.id
-      ) {
-        return false;
-      }
+    const response = await request(
+      this.transport,
+      `${path}/append_batch`,
+      {
+        method: "POST",
+        body: JSON.stringify({ events: item.batch }),
+        signal,
+      },
+      AppendEventBatchResponseSchema
+    );
+    if (response.results.length !== item.batch.length) {
+      throw new StarciteError(
+        `Append batch response for session '${this.sessionId}' returned ${response.results.length} results for ${item.batch.length} events`
+      );
+    }
 
-      this.handleAcknowledgedAppend(item, response);
-      return true;
-    } catch (error) {
-      if (
-        runSignal.aborted ||
-        runId !== this.appendQueueVersion ||
-        this.appendQueue[0]?.id !== item.id
-      ) {
-        return false;
-      }
+    return response.results.map((result) => ({
+      seq: result.seq,
+      deduped: result.deduped,
+    }));
+  }
 
-      if (item.signal?.aborted) {
-        this.handleTerminalAppendFailure(
-          item,
-          createAppendAbortError(this.sessionId)
-        );
-        return false;
-      }
+  /**
+   * Cancels every outstanding request so the next attempt restarts from the
+   * first unacknowledged item.
+   */
+  private abortInFlightAppends(): void {
+    this.appendInFlightController?.abort();
+    this.appendInFlightController = undefined;
+    this.appendInFlight.clear();
+  }
 
-      const authRecoveryError = await this.recoverUnauthorizedAppend(
-        error,
+  private async processAppendQueueHead(
+    item: RuntimeAppendQueueItem,
+    runId: number,
+    runSignal: AbortSignal
+  ): Promise<boolean> {
+    if (item.signal?.aborted) {
+      this.handleTerminalAppendFailure(
         item,
-        runId,
-        runSignal
+        createAppendAbortError(this.sessionId)
       );
-      if (authRecoveryError === undefined) {
-        return true;
-      }
+      return false;
+    }
 
-      const retryable = this.isRetryableAppendError(authRecoveryError);
-      const nextRetryAttempt = item.retryAttempt + 1;
-      if (
-        retryable &&
-        nextRetryAttempt <= this.options.retryPolicy.maxAttempts
-      ) {
-        const failure = this.snapshotAppendFailure(
-          authRecoveryError,
-          true,
-          false
-        );
-        item.retryAttempt = nextRetryAttempt;
-        this.appendQueueStatus = "retrying";
-        this.appendRetryAttempt = item.retryAttempt;
-        const delayMs = calculateAppendRetryDelay(
-          item.retryAttempt,
-          this.options.retryPolicy
-        );
-        this.appendNextRetryAtMs = Date.now() + delayMs;
-        this.appendLastFailure = failure;
-        this.onStateChange();
-        this.emitLifecycle({
-          type: "retry_scheduled",
-          sessionId: this.sessionId,
-          itemId: item.id,
-          attempt: item.retryAttempt + 1,
-          delayMs,
-          failure,
-          queue: this.snapshotAppendQueueState(),
-        });
+    this.fillAppendWindow(runSignal);
+    const outcome = await this.appendInFlight.get(item.id);
 
-        await this.waitForAppendRetry(delayMs, item.signal, runSignal);
-        return !runSignal.aborted && runId === this.appendQueueVersion;
-      }
+    if (
+      !outcome ||
+      runSignal.aborted ||
+      runId !== this.appendQueueVersion ||
+      this.appendQueue[0]?.id !== item.id
+    ) {
+      return false;
+    }
 
-      const terminalFailure = this.snapshotAppendFailure(
-        authRecoveryError,
-        retryable,
-        true
-      );
+    this.appendInFlight.delete(item.id);
+    if (outcome.ok) {
+      this.handleAcknowledgedAppend(item, outcome.results);
+      return true;
+    }
+
+    this.abortInFlightAppends();
+    if (item.pipelined) {
+      // The failure may only mean it overtook its predecessor; resend it now.
+      item.pipelined = false;
+      return true;
+    }
+
+    return await this.handleFailedAppend(item, outcome.error, runId, runSignal);
+  }
+
+  private async handleFailedAppend(
+    item: RuntimeAppendQueueItem,
+    error: unknown,
+    runId: number,
+    runSignal: AbortSignal
+  ): Promise<boolean> {
+    if (item.signal?.aborted) {
       this.handleTerminalAppendFailure(
         item,
-        this.toError(authRecoveryError),
-        terminalFailure
+        createAppendAbortError(this.sessionId)
       );
       return false;
-    } finally {
-      detach();
     }
+
+    const authRecoveryError = await this.recoverUnauthorizedAppend(
+      error,
+      item,
+      runId,
+      runSignal
+    );
+    if (authRecoveryError === undefined) {
+      return true;
+    }
+
+    const retryable = isRetryableError(authRecoveryError);
+    if (retryable && !this.online) {
+      // Failures caused by a lost connection do not count against the retry
+      // budget; the run loop waits for connectivity and then retries.
+      this.appendLastFailure = this.snapshotAppendFailure(
+        authRecoveryError,
+        true,
+        false
+      );
+      return !runSignal.aborted && runId === this.appendQueueVersion;
+    }
+
+    const nextRetryAttempt = item.retryAttempt + 1;
+    if (
+      retryable &&
+      nextRetryAttempt <= this.options.retryPolicy.maxRetries &&
+      !exceedsRetryAfterLimit(authRecoveryError, this.options.retryPolicy)
+    ) {
+      const failure = this.snapshotAppendFailure(
+        authRecoveryError,
+        true,
+        false
+      );
+      item.retryAttempt = nextRetryAttempt;
+      this.appendQueueStatus = "retrying";
+      this.appendRetryAttempt = item.retryAttempt;
+      const delayMs = calculateRetryDelay(
+        item.retryAttempt,
+        this.options.retryPolicy,
+        authRecoveryError
+      );
+      this.appendNextRetryAtMs = Date.now() + delayMs;
+      this.appendLastFailure = failure;
+      this.onStateChange();
+      this.emitLifecycle({
+        type: "retry_scheduled",
+        sessionId: this.sessionId,
+        itemId: item.id,
+        attempt: item.retryAttempt + 1,
+        delayMs,
+        failure,
+        queue: this.snapshotAppendQueueState(),
+      });
+
+      await this.waitForAppendRetry(delayMs, item.signal, runSignal);
+      return !runSignal.aborted && runId === this.appendQueueVersion;
+    }
+
+    const terminalFailure = this.snapshotAppendFailure(
+      authRecoveryError,
+      retryable,
+      true
+    );
+    this.handleTerminalAppendFailure(
+      item,
+      this.toError(authRecoveryError),
+      terminalFailure
+    );
+    return false;
   }
 
   private handleAcknowledgedAppend(
     item: RuntimeAppendQueueItem,
-    response: AppendEventResponse
+    results: AppendResult[]
   ): void {
     this.appendQueue.shift();
-    this.appendInFlightItemId = undefined;
+    this.awaitingCommit.push({ item, results });
     this.appendRetryAttempt = 0;
     this.appendNextRetryAtMs = undefined;
     this.appendLastFailure = undefined;
-    this.appendQueueStatus = "idle";
-
-    if (item.request.producer_id === this.appendProducerId) {
-      this.appendLastAcknowledgedProducerSeq = Math.max(
-        this.appendLastAcknowledgedProducerSeq,
-        item.request.producer_seq
-      );
-    }
+    this.appendQueueStatus = this.appendInFlight.size > 0 ? "flushing" : "idle";
+    this.recordAcknowledgedProducerSeq(item);
 
     this.onStateChange();
-    item.deferred?.resolve(response);
+    item.deferred?.resolve(results);
+    this.emitAcknowledged(item, results, this.snapshotAppendQueueState());
+  }
+
+  private emitAcknowledged(
+    item: RuntimeAppendQueueItem,
+    results: AppendResult[],
+    queue: SessionAppendQueueState
+  ): void {
     this.emitLifecycle({
       type: "acknowledged",
       sessionId: this.sessionId,
       itemId: item.id,
-      seq: response.seq,
-      deduped: response.deduped,
-      queue: this.snapshotAppendQueueState(),
+      seq: results.at(-1)?.seq ?? 0,
+      deduped: results.every((result) => result.deduped),
+      results: item.batch ? results : undefined,
+      queue,
     });
   }
 
@@ -737,8 +1006,8 @@ export class AppendQueue {
       return;
     }
 
+    this.abortInFlightAppends();
     this.appendQueueStatus = "paused";
-    this.appendInFlightItemId = undefined;
     this.appendRetryAttempt = item.retryAttempt;
     this.appendNextRetryAtMs = undefined;
     this.appendLastFailure = failure;
@@ -764,8 +1033,9 @@ export class AppendQueue {
 
     const pendingItems = [...this.appendQueue];
     this.appendQueue.length = 0;
+    this.awaitingCommit.length = 0;
+    this.abortInFlightAppends();
     this.appendQueueStatus = "idle";
-    this.appendInFlightItemId = undefined;
     this.appendRetryAttempt = 0;
     this.appendNextRetryAtMs = undefined;
     this.appendLastFailure = options.lastFailure;
@@ -804,21 +1074,89 @@ export class AppendQueue {
     );
   }
 
+  private recordCommittedEvent(event: TailEvent): void {
+    for (const item of this.appendQueue) {
+      const index = appendItemRequests(item).findIndex((req) =>
+        this.matchesCommittedEvent(req, event)
+      );
+      if (index >= 0) {
+        item.committedSeqs ??= new Map();
+        item.committedSeqs.set(index, event.seq);
+        return;
+      }
+    }
+  }
+
+  private recordAcknowledgedProducerSeq(item: RuntimeAppendQueueItem): void {
+    for (const req of appendItemRequests(item)) {
+      if (req.producer_id === this.appendProducerId) {
+        this.appendLastAcknowledgedProducerSeq = Math.max(
+          this.appendLastAcknowledgedProducerSeq,
+          req.producer_seq
+        );
+      }
+    }
+  }
+
+  private buildAppendRequest(
+    input: SessionAppendInput,
+    producerSeq: number,
+    defaultIdempotencyKey: string
+  ): AppendEventRequest {
+    return {
+      type: input.type ?? "content",
+      payload: input.payload ?? { text: input.text },
+      actor: input.actor,
+      producer_id: this.appendProducerId,
+      producer_seq: producerSeq,
+      source: input.source ?? "agent",
+      metadata: input.metadata,
+      refs: input.refs,
+      idempotency_key: input.idempotencyKey ?? defaultIdempotencyKey,
+      expected_seq: input.expectedSeq,
+    };
+  }
+
   private nextManagedProducerSeq(): number {
     let highestProducerSeq = this.appendLastAcknowledgedProducerSeq;
 
     for (const item of this.appendQueue) {
-      if (
-        item.request.producer_id === this.appendProducerId &&
-        item.request.producer_seq > highestProducerSeq
-      ) {
-        highestProducerSeq = item.request.producer_seq;
+      for (const req of appendItemRequests(item)) {
+        if (
+          req.producer_id === this.appendProducerId &&
+          req.producer_seq > highestProducerSeq
+        ) {
+          highestProducerSeq = req.producer_seq;
+        }
       }
     }
 
     return highestProducerSeq + 1;
   }
 
+  private pendingEventStatus(
+    item: RuntimeAppendQueueItem,
+    isHead: boolean
+  ): SessionPendingEventStatus {
+    if (this.appendInFlight.has(item.id)) {
+      return item.retryAttempt > 0 ? "retrying" : "sending";
+    }
+
+    if (
+      isHead &&
+      this.appendQueueStatus === "paused" &&
+      this.appendLastFailure
+    ) {
+      return "failed";
+    }
+
+    if (isHead && this.appendQueueStatus === "retrying") {
+      return "retrying";
+    }
+
+    return "queued";
+  }
+
   private snapshotAppendFailure(
     error: unknown,
     retryable: boolean,
@@ -852,18 +1190,21 @@ export class AppendQueue {
     return {
       id: item.id,
       request: item.request,
+      batch: item.batch,
       enqueuedAtMs: item.enqueuedAtMs,
       retryAttempt: item.retryAttempt,
     };
   }
 
   private snapshotAppendQueueState(): SessionAppendQueueState {
+    const inFlightItemIds = [...this.appendInFlight.keys()];
     return {
       status: this.appendQueueStatus,
       producerId: this.appendProducerId,
       lastAcknowledgedProducerSeq: this.appendLastAcknowledgedProducerSeq,
       pending: this.appendQueue.map((item) => this.snapshotPendingAppend(item)),
-      inFlightItemId: this.appendInFlightItemId,
+      inFlightItemId: inFlightItemIds[0],
+      inFlightItemIds: inFlightItemIds.length > 0 ? inFlightItemIds : undefined,
       retryAttempt: this.appendRetryAttempt || undefined,
       nextRetryAtMs: this.appendNextRetryAtMs,
       lastFailure: this.appendLastFailure
@@ -886,17 +1227,6 @@ export class AppendQueue {
     }
   }
 
-  private isRetryableAppendError(error: unknown): boolean {
-    if (error instanceof StarciteConnectionError) {
-      return true;
-    }
-
-    return (
-      error instanceof StarciteApiError &&
-      RETRYABLE_APPEND_STATUS_CODES.has(error.status)
-    );
-  }
-
   private isSessionAuthError(error: unknown): error is StarciteApiError {
     return (
       error instanceof StarciteApiError &&
@@ -933,7 +1263,6 @@ export class AppendQueue {
     }
 
     this.appendQueueStatus = "idle";
-    this.appendInFlightItemId = undefined;
     this.appendRetryAttempt = 0;
     this.appendNextRetryAtMs = undefined;
     this.appendLastFailure = undefined;
@@ -941,6 +1270,27 @@ export class AppendQueue {
     return undefined;
   }
 
+  private waitForOnline(runSignal: AbortSignal): Promise<void> {
+    this.appendQueueStatus = "offline";
+    this.appendNextRetryAtMs = undefined;
+    this.onStateChange();
+
+    return new Promise((resolve) => {
+      const finish = () => {
+        this.connectivityWaiters.delete(finish);
+        runSignal.removeEventListener("abort", finish);
+        resolve();
+      };
+
+      this.connectivityWaiters.add(finish);
+      runSignal.addEventListener("abort", finish, { once: true });
+    });
+  }
+
+  /**
+   * Waits out a retry delay. Losing connectivity ends the wait early so the
+   * run loop can hold the queue until the connection returns.
+   */
   private waitForAppendRetry(
     delayMs: number,
     itemSignal: AbortSignal | undefined,
@@ -969,6 +1319,7 @@ export class AppendQueue {
         settled = true;
         clearTimeout(timer);
         detach();
+        this.connectivityWaiters.delete(finish);
         resolve();
       };
 
@@ -976,6 +1327,7 @@ export class AppendQueue {
         finish();
       }, delayMs);
 
+      this.connectivityWaiters.add(finish);
       controller.signal.addEventListener("abort", finish, { once: true });
     });
   }
@@ -2,6 +2,8 @@ import { decodeJwt } from "jose";
 import { z } from "zod";
 import type { PrincipalType } from "./identity";
 import { PrincipalTypeSchema, StarciteIdentity } from "./identity";
+import type { SessionCapabilities, SessionTokenScope } from "./types";
+import { SessionTokenScopes } from "./types";
 
 const ApiKeyClaimsSchema = z.object({
   iss: z.string().min(1).optional(),
@@ -14,6 +16,7 @@ const SessionTokenClaimsSchema = z.object({
   tenant_id: z.string().min(1),
   principal_id: z.string().min(1).optional(),
   principal_type: PrincipalTypeSchema.optional(),
+  scopes: z.array(z.string()).optional(),
 });
 
 interface ApiKeyContext {
@@ -56,11 +59,31 @@ export function decodeApiKeyContext(apiKey: string): ApiKeyContext {
 }
 
 /**
- * Decodes session token JWT claims and returns the session ID and identity.
+ * Reads a JWT `exp` claim as epoch milliseconds. Returns `undefined` when the
+ * token has no expiry or cannot be decoded.
+ */
+export function readTokenExpiry(token: string): number | undefined {
+  try {
+    const { exp } = decodeJwt(token);
+    return typeof exp === "number" ? exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isSessionTokenScope(scope: string): scope is SessionTokenScope {
+  return (SessionTokenScopes as readonly string[]).includes(scope);
+}
+
+/**
+ * Decodes session token JWT claims and returns the session ID, identity, and
+ * granted scopes. `scopes` is `undefined` when the token carries no scope
+ * claim, which grants every session operation.
  */
 export function decodeSessionToken(token: string): {
   sessionId?: string;
   identity: StarciteIdentity;
+  scopes?: SessionTokenScope[];
 } {
   const claims = SessionTokenClaimsSchema.parse(decodeJwt(token));
   const rawId = claims.principal_id ?? claims.sub ?? "session-user";
@@ -73,5 +96,30 @@ export function decodeSessionToken(token: string): {
       id: principal.id,
       type: principal.type,
     }),
+    scopes: claims.scopes?.filter(isSessionTokenScope),
+  };
+}
+
+/**
+ * Maps granted scopes onto the operations a session may perform.
+ */
+export function sessionCapabilities(
+  scopes: readonly SessionTokenScope[] | undefined
+): SessionCapabilities {
+  return {
+    read: scopes?.includes("session:read") ?? true,
+    append: scopes?.includes("session:append") ?? true,
   };
 }
+
+/**
+ * Reads the capabilities granted by a session token. Tokens that cannot be
+ * decoded are treated as unrestricted and left for the server to reject.
+ */
+export function readSessionCapabilities(token: string): SessionCapabilities {
+  try {
+    return sessionCapabilities(decodeSessionToken(token).scopes);
+  } catch {
+    return sessionCapabilities(undefined);
+  }
+}
@@ -1,9 +1,17 @@
 import EventEmitter from "eventemitter3";
-import { decodeApiKeyContext, decodeSessionToken } from "./auth";
+import {
+  decodeApiKeyContext,
+  decodeSessionToken,
+  sessionCapabilities,
+} from "./auth";
+import { browserConnectivity } from "./connectivity";
 import { StarciteApiError, StarciteError } from "./errors";
 import { StarciteIdentity } from "./identity";
+import { instrument } from "./instrumentation";
 import { NewSessionCursorRegistry } from "./new-session-cursor-registry";
+import { resolveRequestRetryPolicy } from "./retry";
 import { StarciteSession } from "./session";
+import { SessionRegistry, sessionRegistryKey } from "./session-registry";
 import {
   type RejoinableChannel,
   readJoinFailureReason,
@@ -19,6 +27,7 @@ import {
   toWebSocketBaseUrl,
 } from "./transport";
 import {
+  type AsyncSessionStore,
   type IssueSessionTokenInput,
   IssueSessionTokenResponseSchema,
   type LifecycleEventEnvelope,
@@ -27,21 +36,58 @@ import {
   type SessionAppendOptions,
   type SessionArchivedFilter,
   type SessionAttachMode,
+  type SessionIterateOptions,
   type SessionLifecycleEventListeners,
   type SessionLifecycleEventName,
   SessionLifecycleEventNameSchema,
   SessionLifecycleEventNames,
   SessionLifecycleEventSchema,
+  type SessionListItem,
   type SessionListOptions,
   type SessionListPage,
   SessionListPageSchema,
   type SessionRecord,
   SessionRecordSchema,
+  type SessionRetentionPolicy,
+  type SessionSocketMode,
   type SessionStore,
   type SessionTokenRefreshHandler,
+  type SessionTokenScope,
+  SessionTokenScopes,
   type SessionUpdateInput,
+  type StarciteConnectionListener,
+  type StarciteConnectivitySource,
   type StarciteOptions,
 } from "./types";
+import { StarciteWorker, type StarciteWorkerOptions } from "./worker";
+
+/**
+ * Validates token scopes and TTL for `session({ identity })` and
+ * `issueToken(...)`.
+ */
+function resolveTokenGrant(
+  scopes: readonly SessionTokenScope[] | undefined,
+  ttlSeconds: number | undefined
+): Pick<IssueSessionTokenInput, "scopes" | "ttl_seconds"> {
+  const grantedScopes = scopes ?? [...SessionTokenScopes];
+  if (
+    grantedScopes.length === 0 ||
+    grantedScopes.some((scope) => !SessionTokenScopes.includes(scope))
+  ) {
+    throw new StarciteError(
+      `Session token scopes must be a non-empty list of ${SessionTokenScopes.join(", ")}`
+    );
+  }
+
+  if (
+    ttlSeconds !== undefined &&
+    !(Number.isInteger(ttlSeconds) && ttlSeconds > 0)
+  ) {
+    throw new StarciteError("ttlSeconds must be a positive integer");
+  }
+
+  return { scopes: [...new Set(grantedScopes)], ttl_seconds: ttlSeconds };
+}
 
 /**
  * Resolves auth issuer base URL in this order:
@@ -86,6 +132,7 @@ function mergeAppendOptions(
 
 interface StarciteLifecycleEvents extends SessionLifecycleEventListeners {
   lifecycle: (event: LifecycleEventEnvelope) => void;
+  connection: StarciteConnectionListener;
   error: (error: Error) => void;
 }
 
@@ -103,6 +150,7 @@ function isSupportedLifecycleEventName(
 ): eventName is keyof StarciteLifecycleEvents {
   return (
     eventName === "lifecycle" ||
+    eventName === "connection" ||
     eventName === "error" ||
     SessionLifecycleEventNames.some((candidate) => candidate === eventName)
   );
@@ -123,11 +171,16 @@ export class Starcite {
   private readonly inferredTenantId?: string;
   private readonly apiKey: string | undefined;
   private readonly socketUrl: string;
-  private readonly sessionStore: SessionStore | undefined;
+  private readonly sessionStore: SessionStore | AsyncSessionStore | undefined;
   private readonly sessionAttachMode: SessionAttachMode;
+  private readonly sessionSocketMode: SessionSocketMode;
+  private readonly sessionRetention: SessionRetentionPolicy | undefined;
   private readonly appendOptions: SessionAppendOptions | undefined;
+  private readonly connectivity: StarciteConnectivitySource | undefined;
+  private readonly tokenRefreshMarginMs: number | false | undefined;
   private readonly lifecycle = new EventEmitter<StarciteLifecycleEvents>();
   private readonly newSessionCursors = new NewSessionCursorRegistry();
+  private readonly sessions: SessionRegistry;
   private lifecycleChannel: RejoinableChannel | undefined;
   private closeLifecycleChannel: (() => void) | undefined;
   private lifecycleBindingRef = 0;
@@ -156,7 +209,29 @@ export class Starcite {
     this.apiKey = apiKey;
     this.sessionStore = options.sessionStore;
     this.sessionAttachMode = options.sessionAttachMode ?? "on-demand";
+    this.sessionSocketMode = options.sessionSocketMode ?? "per-session";
+    if (this.sessionSocketMode === "shared" && !apiKey) {
+      throw new StarciteError(
+        'sessionSocketMode "shared" requires StarciteOptions.apiKey to authenticate the shared socket.'
+      );
+    }
+    this.sessionRetention = options.sessionRetention;
+    const tokenRefreshMarginMs = options.tokenRefreshMarginMs;
+    if (
+      typeof tokenRefreshMarginMs === "number" &&
+      !(Number.isFinite(tokenRefreshMarginMs) && tokenRefreshMarginMs >= 0)
+    ) {
+      throw new StarciteError(
+        "tokenRefreshMarginMs must be a non-negative number or false"
+      );
+    }
+    this.tokenRefreshMarginMs = tokenRefreshMarginMs;
     this.appendOptions = options.appendOptions;
+    this.sessions = new SessionRegistry(options.sessionRegistry);
+    this.connectivity =
+      options.connectivity === false
+        ? undefined
+        : (options.connectivity ?? browserConnectivity());
     this.socketUrl = `${toWebSocketBaseUrl(baseUrl)}/socket`;
     this.transport = {
       baseUrl,
@@ -166,7 +241,13 @@ export class Starcite {
         token: apiKey,
       }),
       fetchFn,
+      instrumentation: options.instrumentation,
+      middleware: options.middleware,
+      retryPolicy: resolveRequestRetryPolicy(options.retryPolicy),
     };
+    this.transport.socketManager.onConnectionChange((state) => {
+      this.lifecycle.emit("connection", state);
+    });
   }
 
   /**
@@ -176,6 +257,12 @@ export class Starcite {
    * listeners such as `session.created` are convenience helpers for the
    * currently modeled lifecycle kinds. Lifecycle subscriptions are live-only
    * and require backend/service auth.
+   *
+   * `connection` reports open, close, reconnect, and error transitions of the
+   * shared client socket, including the reconnect attempt count and last
+   * close code. That socket carries lifecycle events and, with
+   * `sessionSocketMode: "shared"`, session tails; sessions on their own
+   * sockets report theirs through `session.state().connection`.
    */
   on(
     eventName: "lifecycle",
@@ -185,15 +272,17 @@ export class Starcite {
     eventName: K,
     listener: StarciteLifecycleEvents[K]
   ): () => void;
+  on(eventName: "connection", listener: StarciteConnectionListener): () => void;
   on(eventName: "error", listener: (error: Error) => void): () => void;
   on(
-    eventName: "lifecycle" | SessionLifecycleEventName | "error",
+    eventName: "lifecycle" | SessionLifecycleEventName | "connection" | "error",
     listener:
       | ((event: LifecycleEventEnvelope) => void)
       | StarciteLifecycleEvents[SessionLifecycleEventName]
+      | StarciteConnectionListener
       | ((error: Error) => void)
   ): () => void {
-    if (!this.apiKey) {
+    if (eventName !== "connection" && !this.apiKey) {
       throw new StarciteError(
         "starcite.on() requires StarciteOptions.apiKey. Lifecycle events are backend-only and authenticate with the server API key, not a minted session token."
       );
@@ -214,12 +303,14 @@ export class Starcite {
     eventName: "lifecycle",
     listener: (event: LifecycleEventEnvelope) => void
   ): void;
+  off(eventName: "connection", listener: StarciteConnectionListener): void;
   off(eventName: "error", listener: (error: Error) => void): void;
   off(
-    eventName: "lifecycle" | SessionLifecycleEventName | "error",
+    eventName: "lifecycle" | SessionLifecycleEventName | "connection" | "error",
     listener:
       | ((event: LifecycleEventEnvelope) => void)
       | StarciteLifecycleEvents[SessionLifecycleEventName]
+      | StarciteConnectionListener
       | ((error: Error) => void)
   ): void {
     if (!isSupportedLifecycleEventName(eventName)) {
@@ -234,7 +325,7 @@ export class Starcite {
     listener: StarciteLifecycleListener
   ): () => void {
     this.lifecycle.on(eventName, listener as never);
-    if (eventName !== "error") {
+    if (eventName !== "error" && eventName !== "connection") {
       this.ensureLifecycleChannelAttached();
     }
 
@@ -248,7 +339,7 @@ export class Starcite {
     listener: StarciteLifecycleListener
   ): void {
     this.lifecycle.off(eventName, listener as never);
-    if (eventName !== "error") {
+    if (eventName !== "error" && eventName !== "connection") {
       this.detachLifecycleChannelIfIdle();
     }
   }
@@ -280,9 +371,15 @@ export class Starcite {
    *
    * **With identity** (backend): creates a new session and/or mints a session
    * token for the given identity. Pass `id` to create-or-bind that session.
+   * `scopes` (default read + append) and `ttlSeconds` apply to the minted
+   * token and to tokens minted by the default refresh handler.
    *
    * **With token** (frontend): wraps an existing session token. The identity
    * and session id are decoded from the JWT.
+   *
+   * While a session is live, later calls for the same session id and identity
+   * return that same instance (their options are ignored). Each caller
+   * releases its reference with `session.disconnect()`.
    */
   session(input: {
     token: string;
@@ -295,6 +392,8 @@ export class Starcite {
     id?: string;
     title?: string;
     metadata?: Record<string, unknown>;
+    scopes?: SessionTokenScope[];
+    ttlSeconds?: number;
     appendOptions?: SessionAppendOptions;
     refreshToken?: SessionTokenRefreshHandler;
     attachMode?: SessionAttachMode;
@@ -312,6 +411,8 @@ export class Starcite {
           id?: string;
           title?: string;
           metadata?: Record<string, unknown>;
+          scopes?: SessionTokenScope[];
+          ttlSeconds?: number;
           appendOptions?: SessionAppendOptions;
           refreshToken?: SessionTokenRefreshHandler;
           attachMode?: SessionAttachMode;
@@ -329,6 +430,28 @@ export class Starcite {
     return this.sessionFromIdentity(input);
   }
 
+  /**
+   * Mints a session token for `identity` without creating the session or
+   * binding a `StarciteSession`, e.g. a read-only token for a share link.
+   *
+   * `scopes` defaults to read + append. `ttlSeconds` defaults to the issuer's
+   * token lifetime. Requires `apiKey`.
+   */
+  async issueToken(input: {
+    sessionId: string;
+    identity: StarciteIdentity;
+    scopes?: SessionTokenScope[];
+    ttlSeconds?: number;
+  }): Promise<{ token: string; expiresIn: number }> {
+    const response = await this.issueSessionToken({
+      session_id: input.sessionId,
+      principal: input.identity.toTokenPrincipal(),
+      ...resolveTokenGrant(input.scopes, input.ttlSeconds),
+    });
+
+    return { token: response.token, expiresIn: response.expires_in };
+  }
+
   /**
    * Lists sessions from the archive-backed catalog.
    */
@@ -369,6 +492,57 @@ export class Starcite {
     );
   }
 
+  /**
+   * Starts an agent worker that binds new sessions for `identity` and runs
+   * `handle` for their events. Requires `apiKey`.
+   */
+  worker(options: StarciteWorkerOptions): StarciteWorker {
+    return new StarciteWorker(this, options);
+  }
+
+  /**
+   * Disposes every session handed out by this client, including ones still
+   * held, stops lifecycle subscriptions, and closes the client socket.
+   *
+   * Unsent appends are dropped unless a session store persists them. Later
+   * `session(...)` calls throw.
+   */
+  close(): void {
+    this.sessions.close();
+    this.lifecycle.removeAllListeners();
+    this.detachLifecycleChannelIfIdle();
+    this.transport.socketManager.disconnectIfIdle();
+  }
+
+  /**
+   * Iterates sessions across catalog pages, following `next_cursor` until the
+   * catalog, `maxItems`, or the abort signal ends the iteration.
+   */
+  iterateSessions(
+    options: SessionIterateOptions = {}
+  ): AsyncIterable<SessionListItem> {
+    const { maxItems, prefetchPages } = options;
+    if (
+      maxItems !== undefined &&
+      !(Number.isInteger(maxItems) && maxItems >= 0)
+    ) {
+      throw new StarciteError(
+        "iterateSessions maxItems must be a non-negative integer"
+      );
+    }
+
+    if (
+      prefetchPages !== undefined &&
+      !(Number.isInteger(prefetchPages) && prefetchPages >= 0)
+    ) {
+      throw new StarciteError(
+        "iterateSessions prefetchPages must be a non-negative integer"
+      );
+    }
+
+    return this.iterateSessionPages(options);
+  }
+
   /**
    * Fetches one session header by id, including archived sessions.
    */
@@ -426,7 +600,8 @@ export class Starcite {
         signal: requestOptions?.signal,
         body: JSON.stringify({}),
       },
-      SessionRecordSchema
+      SessionRecordSchema,
+      { idempotent: true }
     );
   }
 
@@ -445,7 +620,8 @@ export class Starcite {
         signal: requestOptions?.signal,
         body: JSON.stringify({}),
       },
-      SessionRecordSchema
+      SessionRecordSchema,
+      { idempotent: true }
     );
   }
 
@@ -454,10 +630,39 @@ export class Starcite {
     id?: string;
     title?: string;
     metadata?: Record<string, unknown>;
+    scopes?: SessionTokenScope[];
+    ttlSeconds?: number;
     appendOptions?: SessionAppendOptions;
     refreshToken?: SessionTokenRefreshHandler;
     attachMode?: SessionAttachMode;
   }): Promise<StarciteSession> {
+    const capabilities = sessionCapabilities(input.scopes);
+    if (input.id) {
+      return this.sessions.open(
+        sessionRegistryKey(input.id, input.identity, capabilities),
+        () => this.createIdentitySession(input)
+      );
+    }
+
+    const session = await this.createIdentitySession(input);
+    return this.sessions.register(
+      sessionRegistryKey(session.id, input.identity, capabilities),
+      session
+    );
+  }
+
+  private async createIdentitySession(input: {
+    identity: StarciteIdentity;
+    id?: string;
+    title?: string;
+    metadata?: Record<string, unknown>;
+    scopes?: SessionTokenScope[];
+    ttlSeconds?: number;
+    appendOptions?: SessionAppendOptions;
+    refreshToken?: SessionTokenRefreshHandler;
+    attachMode?: SessionAttachMode;
+  }): Promise<StarciteSession> {
+    const tokenGrant = resolveTokenGrant(input.scopes, input.ttlSeconds);
     let sessionId = input.id;
     let record: SessionRecord | undefined;
 
@@ -490,10 +695,10 @@ export class Starcite {
     const tokenResponse = await this.issueSessionToken({
       session_id: sessionId,
       principal: input.identity.toTokenPrincipal(),
-      scopes: ["session:read", "session:append"],
+      ...tokenGrant,
     });
 
-    return new StarciteSession({
+    const session = new StarciteSession({
       id: sessionId,
       token: tokenResponse.token,
       identity: input.identity,
@@ -502,19 +707,24 @@ export class Starcite {
       record,
       initialTailCursor: this.newSessionCursors.initialCursorFor(sessionId),
       attachMode: input.attachMode ?? this.sessionAttachMode,
+      retention: this.sessionRetention,
       appendOptions: mergeAppendOptions(
         this.appendOptions,
         input.appendOptions
       ),
+      connectivity: this.connectivity,
+      tokenRefreshMarginMs: this.tokenRefreshMarginMs,
       refreshToken:
         input.refreshToken ??
         (() =>
           this.issueSessionToken({
             session_id: sessionId,
             principal: input.identity.toTokenPrincipal(),
-            scopes: ["session:read", "session:append"],
+            ...tokenGrant,
           }).then((response) => response.token)),
     });
+    await session.ready();
+    return session;
   }
 
   private sessionFromToken(
@@ -532,19 +742,42 @@ export class Starcite {
       );
     }
 
-    return new StarciteSession({
+    const registryKey = sessionRegistryKey(
+      sessionId,
+      decoded.identity,
+      sessionCapabilities(decoded.scopes)
+    );
+    const live = this.sessions.acquire(registryKey);
+    if (live) {
+      live.adoptToken(token);
+      return live;
+    }
+
+    const session = new StarciteSession({
       id: sessionId,
       token,
       identity: decoded.identity,
       transport: this.buildSessionTransport(token),
       sessionStore: this.sessionStore,
       attachMode: attachMode ?? this.sessionAttachMode,
+      retention: this.sessionRetention,
       appendOptions: mergeAppendOptions(this.appendOptions, appendOptions),
+      connectivity: this.connectivity,
+      tokenRefreshMarginMs: this.tokenRefreshMarginMs,
       refreshToken,
     });
+    return this.sessions.register(registryKey, session);
   }
 
   private buildSessionTransport(token: string): TransportConfig {
+    if (this.sessionSocketMode === "shared") {
+      return {
+        ...this.transport,
+        bearerToken: token,
+        sharedSocket: true,
+      };
+    }
+
     const socketManager =
       token === this.apiKey
         ? this.transport.socketManager
@@ -573,7 +806,9 @@ export class Starcite {
         method: "POST",
         body: JSON.stringify(input),
       },
-      SessionRecordSchema
+      SessionRecordSchema,
+      // Without an explicit id, a retried create could add a second session.
+      { idempotent: input.id !== undefined }
     );
   }
 
@@ -603,7 +838,8 @@ export class Starcite {
         },
         body: JSON.stringify(input),
       },
-      IssueSessionTokenResponseSchema
+      IssueSessionTokenResponseSchema,
+      { idempotent: true }
     );
   }
 
@@ -615,6 +851,75 @@ export class Starcite {
     return tenantId;
   }
 
+  private async *iterateSessionPages(
+    options: SessionIterateOptions
+  ): AsyncGenerator<SessionListItem> {
+    const {
+      maxItems = Number.POSITIVE_INFINITY,
+      prefetchPages = 0,
+      signal,
+      ...listOptions
+    } = options;
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    if (signal?.aborted || maxItems === 0) {
+      return;
+    }
+    signal?.addEventListener("abort", abort, { once: true });
+
+    // Each request chains off the previous page's `next_cursor`, so
+    // prefetching keeps up to `prefetchPages` extra requests queued ahead.
+    let tail: Promise<SessionListPage | undefined> | undefined;
+    const buffered: Promise<SessionListPage | undefined>[] = [];
+    const requestNextPage = (): void => {
+      tail = tail
+        ? tail.then((page) => {
+            if (!page?.next_cursor || controller.signal.aborted) {
+              return undefined;
+            }
+
+            return this.listSessions(
+              { ...listOptions, cursor: page.next_cursor },
+              { signal: controller.signal }
+            );
+          })
+        : this.listSessions(listOptions, { signal: controller.signal });
+      tail.catch(() => undefined);
+      buffered.push(tail);
+    };
+
+    let yielded = 0;
+    try {
+      for (let index = 0; index < prefetchPages; index += 1) {
+        requestNextPage();
+      }
+
+      while (yielded < maxItems) {
+        requestNextPage();
+        const page = await buffered.shift()?.catch((error: unknown) => {
+          if (controller.signal.aborted) {
+            return undefined;
+          }
+          throw error;
+        });
+        if (!page || controller.signal.aborted) {
+          return;
+        }
+
+        for (const session of page.sessions.slice(0, maxItems - yielded)) {
+          yielded += 1;
+          yield session;
+          if (controller.signal.aborted) {
+            return;
+          }
+        }
+      }
+    } finally {
+      signal?.removeEventListener("abort", abort);
+      controller.abort();
+    }
+  }
+
   private ensureLifecycleChannelAttached(): void {
     if (this.lifecycleChannel) {
       return;
@@ -635,13 +940,26 @@ export class Starcite {
       this.handleLifecyclePayload(payload);
     });
 
-    channel.join().receive("error", (payload) => {
-      this.emitLifecycleError(
-        new StarciteError(
-          `Lifecycle subscription failed: ${readJoinFailureReason(payload)}`
-        )
-      );
-    });
+    channel
+      .join()
+      .receive("ok", () => {
+        instrument(this.transport.instrumentation, "onJoin", {
+          topic: "lifecycle",
+          ok: true,
+        });
+      })
+      .receive("error", (payload) => {
+        instrument(this.transport.instrumentation, "onJoin", {
+          topic: "lifecycle",
+          ok: false,
+          reason: readJoinFailureReason(payload),
+        });
+        this.emitLifecycleError(
+          new StarciteError(
+            `Lifecycle subscription failed: ${readJoinFailureReason(payload)}`
+          )
+        );
+      });
   }
 
   private handleLifecyclePayload(payload: unknown): void {
@@ -0,0 +1,131 @@
+import { StarciteError } from "./errors";
+import type { StarciteConnectivitySource } from "./types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Minimal event target shape of `window` used for `online` / `offline` events.
+ */
+export interface ConnectivityEventTarget {
+  addEventListener(type: string, listener: () => void): void;
+  removeEventListener(type: string, listener: () => void): void;
+}
+
+/**
+ * Options for {@link probeConnectivity}.
+ */
+export interface ProbeConnectivityOptions {
+  /** Resolves `true` while the network is reachable. Rejections count as offline. */
+  probe: () => boolean | Promise<boolean>;
+  /** Polling interval while subscribed. Defaults to 5000ms. */
+  intervalMs?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const CONNECTIVITY_PROBE_INTERVAL_MS = 5000;
+
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+/**
+ * Connectivity source backed by browser `online` / `offline` events.
+ *
+ * Returns `undefined` outside environments that expose `navigator.onLine`
+ * and window events.
+ */
+export function browserConnectivity(
+  target: ConnectivityEventTarget | undefined = globalThis as
+    | ConnectivityEventTarget
+    | undefined
+): StarciteConnectivitySource | undefined {
+  const navigatorRef = (
+    globalThis as { navigator?: { onLine?: boolean } } | undefined
+  )?.navigator;
+  if (
+    typeof target?.addEventListener !== "function" ||
+    typeof target.removeEventListener !== "function" ||
+    typeof navigatorRef?.onLine !== "boolean"
+  ) {
+    return undefined;
+  }
+
+  return {
+    isOnline: () => navigatorRef.onLine !== false,
+    subscribe: (listener) => {
+      const handleOnline = () => listener(true);
+      const handleOffline = () => listener(false);
+      target.addEventListener("online", handleOnline);
+      target.addEventListener("offline", handleOffline);
+      return () => {
+        target.removeEventListener("online", handleOnline);
+        target.removeEventListener("offline", handleOffline);
+      };
+    },
+  };
+}
+
+/**
+ * Connectivity source that polls a custom probe, e.g. a health check in Node.
+ *
+ * The probe only runs while at least one listener is subscribed, and the
+ * polling timer never keeps the process alive.
+ */
+export function probeConnectivity(
+  options: ProbeConnectivityOptions
+): StarciteConnectivitySource {
+  const intervalMs = options.intervalMs ?? CONNECTIVITY_PROBE_INTERVAL_MS;
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    throw new StarciteError(
+      "connectivity probe intervalMs must be a positive number"
+    );
+  }
+
+  const listeners = new Set<(online: boolean) => void>();
+  let online = true;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const check = async (): Promise<void> => {
+    let next: boolean;
+    try {
+      next = await options.probe();
+    } catch {
+      next = false;
+    }
+
+    if (next === online) {
+      return;
+    }
+
+    online = next;
+    for (const listener of [...listeners]) {
+      listener(online);
+    }
+  };
+
+  return {
+    isOnline: () => online,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (!timer) {
+        timer = setInterval(() => {
+          check().catch(() => undefined);
+        }, intervalMs);
+        (timer as { unref?: () => void }).unref?.();
+      }
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && timer) {
+          clearInterval(timer);
+          timer = undefined;
+        }
+      };
+    },
+  };
+}
@@ -1,3 +1,5 @@
+import type { SessionTokenScope } from "./types";
+
 /**
  * Base error type for SDK-level failures.
  */
@@ -18,18 +20,25 @@ export class StarciteApiError extends StarciteError {
   readonly code: string;
   /** Parsed API error payload when available. */
   readonly payload: Record<string, unknown> | null;
+  /** Wait requested by the response's `Retry-After` header, in milliseconds. */
+  readonly retryAfterMs?: number;
+  /** Retries the client made before this response was returned. */
+  readonly retryCount: number;
 
   constructor(
     message: string,
     status: number,
     code: string,
-    payload: Record<string, unknown> | null
+    payload: Record<string, unknown> | null,
+    options: { retryAfterMs?: number; retryCount?: number } = {}
   ) {
     super(message);
     this.name = "StarciteApiError";
     this.status = status;
     this.code = code;
     this.payload = payload;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryCount = options.retryCount ?? 0;
   }
 }
 
@@ -99,3 +108,50 @@ export class StarciteTokenExpiredError extends StarciteTailError {
     this.name = "StarciteTokenExpiredError";
   }
 }
+
+/**
+ * Thrown before a request is sent when the session token lacks the scope the
+ * operation needs.
+ */
+export class StarciteAuthorizationError extends StarciteError {
+  /** Session id tied to the rejected operation. */
+  readonly sessionId: string;
+  /** Scope the operation requires. */
+  readonly requiredScope: SessionTokenScope;
+
+  constructor(
+    message: string,
+    options: {
+      sessionId: string;
+      requiredScope: SessionTokenScope;
+    }
+  ) {
+    super(message);
+    this.name = "StarciteAuthorizationError";
+    this.sessionId = options.sessionId;
+    this.requiredScope = options.requiredScope;
+  }
+}
+
+/**
+ * Thrown when a session wait does not complete within its timeout.
+ */
+export class StarciteTimeoutError extends StarciteError {
+  /** Session id tied to the wait. */
+  readonly sessionId: string;
+  /** Timeout that elapsed, in milliseconds. */
+  readonly timeoutMs: number;
+
+  constructor(
+    message: string,
+    options: {
+      sessionId: string;
+      timeoutMs: number;
+    }
+  ) {
+    super(message);
+    this.name = "StarciteTimeoutError";
+    this.sessionId = options.sessionId;
+    this.timeoutMs = options.timeoutMs;
+  }
+}
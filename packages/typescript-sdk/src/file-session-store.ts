@@ -0,0 +1,255 @@
+import {
+  link,
+  mkdir,
+  open,
+  readFile,
+  rename,
+  rm,
+  stat,
+  utimes,
+} from "node:fs/promises";
+import { hostname } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import { StarciteError } from "./errors";
+import type { AsyncSessionStore, SessionStoreLock } from "./types";
+
+const DEFAULT_STALE_LOCK_MS = 30_000;
+
+const LockFileSchema = z.object({
+  token: z.string().min(1),
+  pid: z.number().int(),
+  hostname: z.string(),
+  acquiredAtMs: z.number().int().nonnegative(),
+});
+
+type LockFile = z.infer<typeof LockFileSchema>;
+
+/**
+ * Construction options for {@link FileSessionStore}.
+ */
+export interface FileSessionStoreOptions {
+  /**
+   * Directory holding one JSON file (plus an optional `.lock` file) per session.
+   * Created on first write.
+   */
+  directory: string;
+  /**
+   * Age after which a lock that is no longer being refreshed counts as stale
+   * and may be taken over.
+   *
+   * Lock holders refresh their lock file well within this window. Locks held
+   * by a dead process on the same host are taken over immediately.
+   *
+   * Defaults to `30000`.
+   */
+  staleLockMs?: number;
+}
+
+function errorCode(error: unknown): string | undefined {
+  return typeof error === "object" && error !== null && "code" in error
+    ? String(error.code)
+    : undefined;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return errorCode(error) === "EPERM";
+  }
+}
+
+/**
+ * Session store for Node processes that keeps one file per session.
+ *
+ * Writes go to a temp file that is synced and renamed over the session file,
+ * so readers never observe a partially written state, even after a crash.
+ * {@link lock} provides a cross-process advisory lock so only one worker bound
+ * to a session flushes its outbox.
+ */
+export class FileSessionStore implements AsyncSessionStore {
+  private readonly directory: string;
+  private readonly staleLockMs: number;
+
+  constructor(options: FileSessionStoreOptions) {
+    this.directory = options.directory;
+    this.staleLockMs = options.staleLockMs ?? DEFAULT_STALE_LOCK_MS;
+  }
+
+  async read(sessionId: string): Promise<string | undefined> {
+    try {
+      return await readFile(this.pathFor(sessionId), "utf8");
+    } catch (error) {
+      if (errorCode(error) === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async write(sessionId: string, value: string): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const path = this.pathFor(sessionId);
+    const tempPath = `${path}.${process.pid}.${crypto.randomUUID()}.tmp`;
+
+    try {
+      const handle = await open(tempPath, "w");
+      try {
+        await handle.writeFile(value, "utf8");
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await rename(tempPath, path);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    await rm(this.pathFor(sessionId), { force: true });
+  }
+
+  async lock(sessionId: string): Promise<SessionStoreLock | undefined> {
+    await mkdir(this.directory, { recursive: true });
+    const lockPath = `${this.pathFor(sessionId)}.lock`;
+    const lockFile: LockFile = {
+      token: crypto.randomUUID(),
+      pid: process.pid,
+      hostname: hostname(),
+      acquiredAtMs: Date.now(),
+    };
+
+    const acquired =
+      (await this.tryCreateLock(lockPath, lockFile)) ||
+      ((await this.takeOverStaleLock(lockPath)) &&
+        (await this.tryCreateLock(lockPath, lockFile)));
+    if (!acquired) {
+      return undefined;
+    }
+
+    const heartbeat = setInterval(
+      () => {
+        const now = new Date();
+        utimes(lockPath, now, now).catch(() => undefined);
+      },
+      Math.max(1, Math.floor(this.staleLockMs / 3))
+    );
+    heartbeat.unref?.();
+
+    let released = false;
+    return {
+      release: async () => {
+        if (released) {
+          return;
+        }
+
+        released = true;
+        clearInterval(heartbeat);
+        const current = await this.readLock(lockPath);
+        if (current?.token === lockFile.token) {
+          await rm(lockPath, { force: true });
+        }
+      },
+    };
+  }
+
+  private pathFor(sessionId: string): string {
+    if (sessionId.length === 0) {
+      throw new StarciteError("FileSessionStore requires a non-empty id.");
+    }
+
+    return join(this.directory, `${encodeURIComponent(sessionId)}.json`);
+  }
+
+  private async tryCreateLock(
+    lockPath: string,
+    lockFile: LockFile
+  ): Promise<boolean> {
+    let handle: Awaited<ReturnType<typeof open>>;
+    try {
+      handle = await open(lockPath, "wx");
+    } catch (error) {
+      if (errorCode(error) === "EEXIST") {
+        return false;
+      }
+      throw error;
+    }
+
+    try {
+      await handle.writeFile(JSON.stringify(lockFile), "utf8");
+    } finally {
+      await handle.close();
+    }
+    return true;
+  }
+
+  private async readLock(lockPath: string): Promise<LockFile | undefined> {
+    try {
+      const parsed = LockFileSchema.safeParse(
+        JSON.parse(await readFile(lockPath, "utf8"))
+      );
+      return parsed.success ? parsed.data : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Removes a stale lock so the caller can create its own. Resolves whether
+   * the lock path is now free.
+   *
+   * The stale lock is renamed to a unique name first and its token re-read, so
+   * of several processes racing for the takeover only one removes it. A lock
+   * that turns out to have been replaced by a live one is put back.
+   */
+  private async takeOverStaleLock(lockPath: string): Promise<boolean> {
+    const stale = await this.readLock(lockPath);
+    if (!(await this.isLockStale(lockPath, stale))) {
+      return false;
+    }
+
+    const takenPath = `${lockPath}.${process.pid}.${crypto.randomUUID()}.stale`;
+    try {
+      await rename(lockPath, takenPath);
+    } catch (error) {
+      if (errorCode(error) === "ENOENT") {
+        return true;
+      }
+      throw error;
+    }
+
+    const taken = await this.readLock(takenPath);
+    if (taken?.token !== stale?.token) {
+      // `link` fails rather than replacing a lock created in the meantime.
+      await link(takenPath, lockPath).catch(() => undefined);
+      await rm(takenPath, { force: true });
+      return false;
+    }
+
+    await rm(takenPath, { force: true });
+    return true;
+  }
+
+  private async isLockStale(
+    lockPath: string,
+    current: LockFile | undefined
+  ): Promise<boolean> {
+    let modifiedAtMs: number;
+    try {
+      modifiedAtMs = (await stat(lockPath)).mtimeMs;
+    } catch (error) {
+      // Released between our create attempt and now.
+      return errorCode(error) === "ENOENT";
+    }
+
+    if (current?.hostname === hostname() && !isProcessAlive(current.pid)) {
+      return true;
+    }
+
+    return Date.now() - modifiedAtMs > this.staleLockMs;
+  }
+}
@@ -1,34 +1,56 @@
 /* biome-ignore-all lint/performance/noBarrelFile: package entrypoint intentionally re-exports public API. */
 export { Starcite } from "./client";
+export type {
+  ConnectivityEventTarget,
+  ProbeConnectivityOptions,
+} from "./connectivity";
+export { browserConnectivity, probeConnectivity } from "./connectivity";
 export type { StarciteTailErrorStage } from "./errors";
 export {
   StarciteApiError,
+  StarciteAuthorizationError,
   StarciteConnectionError,
   StarciteError,
   StarciteTailError,
+  StarciteTimeoutError,
   StarciteTokenExpiredError,
 } from "./errors";
 export type { PrincipalType } from "./identity";
 export { StarciteIdentity } from "./identity";
 export { StarciteSession } from "./session";
 export type {
+  SessionProjectionListener,
+  SessionProjectionReducer,
+  SessionProjectOptions,
+} from "./session-projection";
+export { SessionProjection } from "./session-projection";
+export type {
+  IndexedDBSessionStoreOptions,
   SessionStoreOptions,
   StarciteWebStorage,
   WebStorageSessionStoreOptions,
 } from "./session-store";
 export {
+  IndexedDBSessionStore,
   LocalStorageSessionStore,
   MemorySessionStore,
   SessionStorageSessionStore,
   WebStorageSessionStore,
 } from "./session-store";
+export { defineEventCatalog, TypedSession } from "./typed-session";
 export type {
+  AppendEventBatchRequest,
+  AppendEventBatchResponse,
   AppendEventRequest,
   AppendEventResponse,
   AppendResult,
+  AsyncSessionStore,
+  InvalidSessionEvent,
+  InvalidSessionEventListener,
   LifecycleEventEnvelope,
   RequestOptions,
   SessionActivatedLifecycleEvent,
+  SessionAppendCoalesceOptions,
   SessionAppendFailureSnapshot,
   SessionAppendInput,
   SessionAppendLifecycleEvent,
@@ -40,7 +62,13 @@ export type {
   SessionArchivedFilter,
   SessionArchivedLifecycleEvent,
   SessionAttachMode,
+  SessionCapabilities,
+  SessionCatalogAppendInput,
+  SessionCatalogEvent,
+  SessionCatalogEventListener,
+  SessionCatalogEventType,
   SessionCreatedLifecycleEvent,
+  SessionEventCatalog,
   SessionEventContext,
   SessionEventListener,
   SessionEventPhase,
@@ -49,25 +77,58 @@ export type {
   SessionGapListener,
   SessionHandle,
   SessionHydratingLifecycleEvent,
+  SessionIterateOptions,
   SessionLifecycleEvent,
   SessionLifecycleEventName,
   SessionListItem,
   SessionListOptions,
   SessionListPage,
   SessionOnEventOptions,
+  SessionOptimisticEvent,
+  SessionPendingEvent,
+  SessionPendingEventStatus,
   SessionRecord,
+  SessionRetentionPolicy,
   SessionSnapshot,
+  SessionSocketMode,
   SessionStateListener,
   SessionStore,
   SessionStoredAppend,
+  SessionStoreLock,
+  SessionStreamOptions,
   SessionTokenRefreshContext,
   SessionTokenRefreshHandler,
   SessionTokenRefreshReason,
+  SessionTokenScope,
   SessionUnarchivedLifecycleEvent,
   SessionUpdatedLifecycleEvent,
   SessionUpdateInput,
+  SessionWaitForOptions,
+  StarciteAppendAttemptEvent,
+  StarciteAuthRefreshEvent,
+  StarciteConnectionListener,
+  StarciteConnectionState,
+  StarciteConnectionStatus,
+  StarciteConnectivitySource,
+  StarciteGapEvent,
+  StarciteHttpMiddleware,
+  StarciteHttpNext,
+  StarciteHttpRequest,
+  StarciteInstrumentation,
+  StarciteJoinEvent,
   StarciteOptions,
+  StarciteRequestEndEvent,
+  StarciteRequestStartEvent,
+  StarciteRetryPolicy,
+  StarciteSessionRegistryOptions,
+  StarciteTailBatchEvent,
   TailCursor,
   TailEvent,
   TailGap,
 } from "./types";
+export type {
+  StarciteWorkerContext,
+  StarciteWorkerHandler,
+  StarciteWorkerOptions,
+} from "./worker";
+export { StarciteWorker } from "./worker";
@@ -0,0 +1,39 @@
+import type { StarciteInstrumentation } from "./types";
+
+type InstrumentationHookName = keyof StarciteInstrumentation;
+
+type InstrumentationHookEvent<K extends InstrumentationHookName> = Parameters<
+  NonNullable<StarciteInstrumentation[K]>
+>[0];
+
+let lastRequestId = 0;
+
+/**
+ * Returns a process-unique id that correlates request start and end hooks.
+ */
+export function nextInstrumentationRequestId(): number {
+  lastRequestId += 1;
+  return lastRequestId;
+}
+
+/**
+ * Calls one instrumentation hook, ignoring hooks that throw.
+ */
+export function instrument<K extends InstrumentationHookName>(
+  instrumentation: StarciteInstrumentation | undefined,
+  hookName: K,
+  event: InstrumentationHookEvent<K>
+): void {
+  const hook = instrumentation?.[hookName] as
+    | ((event: InstrumentationHookEvent<K>) => void)
+    | undefined;
+  if (!hook) {
+    return;
+  }
+
+  try {
+    hook.call(instrumentation, event);
+  } catch {
+    // Instrumentation must never change SDK behavior.
+  }
+}
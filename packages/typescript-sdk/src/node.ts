@@ -0,0 +1,3 @@
+/* biome-ignore-all lint/performance/noBarrelFile: node entrypoint intentionally re-exports Node-only API. */
+export type { FileSessionStoreOptions } from "./file-session-store";
+export { FileSessionStore } from "./file-session-store";
@@ -0,0 +1,154 @@
+import { StarciteApiError, StarciteConnectionError } from "./errors";
+import type { StarciteRetryPolicy } from "./types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ResolvedRetryPolicy {
+  mode: "fixed" | "exponential";
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  jitterRatio: number;
+  maxRetries: number;
+  maxRetryAfterMs: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const REQUEST_RETRY_INITIAL_DELAY_MS = 250;
+const REQUEST_RETRY_MAX_DELAY_MS = 5000;
+const REQUEST_RETRY_MULTIPLIER = 2;
+const REQUEST_RETRY_JITTER_RATIO = 0.2;
+const REQUEST_RETRY_MAX_RETRIES = 2;
+export const RETRY_AFTER_MAX_MS = 60_000;
+const RETRYABLE_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const RETRY_AFTER_SECONDS_REGEX = /^\d+$/;
+
+// ---------------------------------------------------------------------------
+// Free functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Applies request retry defaults. `false` disables retries.
+ */
+export function resolveRequestRetryPolicy(
+  policy: StarciteRetryPolicy | false | undefined
+): ResolvedRetryPolicy {
+  if (policy === false) {
+    return { ...resolveRequestRetryPolicy(undefined), maxRetries: 0 };
+  }
+
+  return {
+    mode: policy?.mode ?? "exponential",
+    initialDelayMs: policy?.initialDelayMs ?? REQUEST_RETRY_INITIAL_DELAY_MS,
+    maxDelayMs: policy?.maxDelayMs ?? REQUEST_RETRY_MAX_DELAY_MS,
+    multiplier: policy?.multiplier ?? REQUEST_RETRY_MULTIPLIER,
+    jitterRatio: policy?.jitterRatio ?? REQUEST_RETRY_JITTER_RATIO,
+    maxRetries: policy?.maxRetries ?? REQUEST_RETRY_MAX_RETRIES,
+    maxRetryAfterMs: policy?.maxRetryAfterMs ?? RETRY_AFTER_MAX_MS,
+  };
+}
+
+/**
+ * Whether a failed request may succeed when sent again: connection failures
+ * and transient HTTP statuses such as `429` and `503`.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof StarciteConnectionError) {
+    return true;
+  }
+
+  return (
+    error instanceof StarciteApiError &&
+    RETRYABLE_STATUS_CODES.has(error.status)
+  );
+}
+
+/**
+ * Whether the failed response asks, through `Retry-After`, for a longer wait
+ * than `policy.maxRetryAfterMs`. Such failures are surfaced, not retried.
+ */
+export function exceedsRetryAfterLimit(
+  error: unknown,
+  policy: ResolvedRetryPolicy
+): boolean {
+  return (
+    error instanceof StarciteApiError &&
+    (error.retryAfterMs ?? 0) > policy.maxRetryAfterMs
+  );
+}
+
+/**
+ * Delay before retry number `retryAttempt` (1-based).
+ *
+ * A `Retry-After` hint on the failed response raises the delay to at least
+ * the server-requested wait, even beyond `maxDelayMs`; callers reject hints
+ * over `maxRetryAfterMs` first with `exceedsRetryAfterLimit`.
+ */
+export function calculateRetryDelay(
+  retryAttempt: number,
+  policy: ResolvedRetryPolicy,
+  error?: unknown
+): number {
+  const exponent = policy.mode === "fixed" ? 0 : Math.max(0, retryAttempt - 1);
+  const baseDelayMs = Math.min(
+    policy.initialDelayMs * policy.multiplier ** exponent,
+    policy.maxDelayMs
+  );
+  const retryAfterMs =
+    error instanceof StarciteApiError ? (error.retryAfterMs ?? 0) : 0;
+
+  if (policy.jitterRatio === 0) {
+    return Math.max(baseDelayMs, retryAfterMs);
+  }
+
+  const jitterWindowMs = Math.round(baseDelayMs * policy.jitterRatio);
+  const minimumDelayMs = Math.max(0, baseDelayMs - jitterWindowMs);
+  const maximumDelayMs = baseDelayMs + jitterWindowMs;
+  const delayMs = Math.round(
+    minimumDelayMs + Math.random() * (maximumDelayMs - minimumDelayMs)
+  );
+  return Math.max(delayMs, retryAfterMs);
+}
+
+/**
+ * Parses a `Retry-After` header given in seconds or as an HTTP date.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  nowMs = Date.now()
+): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (RETRY_AFTER_SECONDS_REGEX.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const dateMs = Date.parse(trimmed);
+  return Number.isNaN(dateMs) ? undefined : Math.max(0, dateMs - nowMs);
+}
+
+/**
+ * Resolves after `delayMs`, or early once `signal` aborts.
+ */
+export function waitForRetry(
+  delayMs: number,
+  signal?: AbortSignal | null
+): Promise<void> {
+  return new Promise((resolve) => {
+    const finish = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", finish);
+      resolve();
+    };
+    const timer = setTimeout(finish, delayMs);
+    signal?.addEventListener("abort", finish, { once: true });
+  });
+}
@@ -1,5 +1,10 @@
 import { StarciteError } from "./errors";
-import type { SessionSnapshot, TailCursor, TailEvent } from "./types";
+import type {
+  SessionRetentionPolicy,
+  SessionSnapshot,
+  TailCursor,
+  TailEvent,
+} from "./types";
 
 type SessionHistorySnapshot = Pick<
   SessionSnapshot,
@@ -36,6 +41,12 @@ export interface SessionHistoryStoreSnapshot {
   coverage?: readonly SessionHistoryCoverage[];
 }
 
+const textEncoder = new TextEncoder();
+
+function serializedByteLength(event: TailEvent): number {
+  return textEncoder.encode(JSON.stringify(event)).byteLength;
+}
+
 function assertValidRange(fromSeq: number, toSeq: number): void {
   if (!Number.isInteger(fromSeq) || fromSeq <= 0) {
     throw new StarciteError("Session range reads require fromSeq >= 1.");
@@ -89,6 +100,65 @@ function toMergedRanges(
   return merged;
 }
 
+/**
+ * Splits coverage ranges around evicted seqs.
+ *
+ * A piece that starts after an evicted seq takes that event's cursor as its
+ * `beforeCursor`; a piece that ends before one takes its own last event's
+ * cursor as `afterCursor`. Range replays can then resume from either edge.
+ * `evictedCursorBySeq` is in seq order; ranges outside it are kept as is.
+ */
+function toTrimmedRanges(
+  ranges: readonly SessionHistoryRange[],
+  evictedCursorBySeq: ReadonlyMap<number, TailCursor | undefined>,
+  eventBySeq: ReadonlyMap<number, TailEvent>
+): SessionHistoryRange[] {
+  const evictedSeqs = [...evictedCursorBySeq.keys()];
+  const firstEvicted = evictedSeqs[0] ?? 0;
+  const lastEvicted = evictedSeqs.at(-1) ?? 0;
+  const trimmed: SessionHistoryRange[] = [];
+
+  for (const range of ranges) {
+    if (range.toSeq < firstEvicted || range.fromSeq > lastEvicted) {
+      trimmed.push(range);
+      continue;
+    }
+
+    let piece: SessionHistoryRange | undefined;
+    let beforeCursor = range.beforeCursor;
+
+    for (let seq = range.fromSeq; seq <= range.toSeq; seq += 1) {
+      if (!evictedCursorBySeq.has(seq)) {
+        piece ??= { fromSeq: seq, toSeq: seq, beforeCursor };
+        piece.toSeq = seq;
+        continue;
+      }
+
+      if (piece) {
+        piece.afterCursor = eventBySeq.get(piece.toSeq)?.cursor;
+        trimmed.push(piece);
+        piece = undefined;
+      }
+      beforeCursor = evictedCursorBySeq.get(seq);
+    }
+
+    if (piece) {
+      piece.afterCursor = range.afterCursor;
+      trimmed.push(piece);
+    }
+  }
+
+  return trimmed;
+}
+
+function assertRetentionLimit(value: number | undefined, name: string): void {
+  if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+    throw new StarciteError(
+      `Session retention ${name} must be a positive integer.`
+    );
+  }
+}
+
 function toCheckpointRange(range: SessionHistoryRange): SessionHistoryCoverage {
   return {
     fromSeq: range.fromSeq,
@@ -108,12 +178,22 @@ function toCheckpointRange(range: SessionHistoryRange): SessionHistoryCoverage {
 export class SessionHistory {
   private readonly listeners = new Set<SessionHistoryListener>();
   private readonly eventBySeq = new Map<number, TailEvent>();
+  private readonly eventBytesBySeq = new Map<number, number>();
+  private readonly pinnedRanges: { fromSeq: number; toSeq: number }[] = [];
+  private readonly retention: SessionRetentionPolicy;
+  private materializedBytes = 0;
   private ranges: SessionHistoryRange[] = [];
   private orderedEventsCache: TailEvent[] = [];
   private orderedEventsDirty = false;
   private observedLastSeq = 0;
   private observedCursor: TailCursor | undefined;
 
+  constructor(options: { retention?: SessionRetentionPolicy } = {}) {
+    assertRetentionLimit(options.retention?.maxEvents, "maxEvents");
+    assertRetentionLimit(options.retention?.maxBytes, "maxBytes");
+    this.retention = { ...options.retention };
+  }
+
   restore(snapshot: SessionHistoryStoreSnapshot): void {
     const { lastSeq } = snapshot;
     if (!Number.isInteger(lastSeq) || lastSeq < 0) {
@@ -123,6 +203,8 @@ export class SessionHistory {
     }
 
     this.eventBySeq.clear();
+    this.eventBytesBySeq.clear();
+    this.materializedBytes = 0;
     this.ranges = [];
     this.orderedEventsCache = [];
     this.orderedEventsDirty = false;
@@ -131,7 +213,7 @@ export class SessionHistory {
 
     const events = snapshot.events ?? [];
     for (const event of normalizeBatch(events)) {
-      this.eventBySeq.set(event.seq, event);
+      this.storeEvent(event);
     }
 
     if (this.eventBySeq.size > 0) {
@@ -152,6 +234,7 @@ export class SessionHistory {
         afterCursor: range.afterCursor,
       }))
     );
+    this.enforceRetention();
   }
 
   snapshot(): SessionHistoryStoreSnapshot | undefined {
@@ -230,6 +313,31 @@ export class SessionHistory {
     return true;
   }
 
+  /**
+   * Protects a seq window from retention eviction until the returned release
+   * callback runs. Range reads pin their window so a backfill is not evicted
+   * before it can be returned.
+   */
+  pin(fromSeq: number, toSeq: number): () => void {
+    assertValidRange(fromSeq, toSeq);
+    const pinned = { fromSeq, toSeq };
+    this.pinnedRanges.push(pinned);
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+
+      released = true;
+      const index = this.pinnedRanges.indexOf(pinned);
+      if (index >= 0) {
+        this.pinnedRanges.splice(index, 1);
+      }
+      this.enforceRetention();
+    };
+  }
+
   isRangeCovered(fromSeq: number, toSeq: number): boolean {
     assertValidRange(fromSeq, toSeq);
     return this.findCoveringRange(fromSeq, toSeq) !== undefined;
@@ -285,6 +393,10 @@ export class SessionHistory {
     return events;
   }
 
+  eventAt(seq: number): TailEvent | undefined {
+    return this.eventBySeq.get(seq);
+  }
+
   get events(): TailEvent[] {
     if (!this.orderedEventsDirty) {
       return this.orderedEventsCache;
@@ -366,7 +478,7 @@ export class SessionHistory {
       }
 
       for (const event of currentGroup) {
-        this.eventBySeq.set(event.seq, event);
+        this.storeEvent(event);
         applied.push(event);
         if (options.emit) {
           for (const listener of this.listeners) {
@@ -421,6 +533,110 @@ export class SessionHistory {
       this.markObservedCursor(lastCursor);
     }
 
+    this.enforceRetention();
     return applied;
   }
+
+  private storeEvent(event: TailEvent): void {
+    this.eventBySeq.set(event.seq, event);
+    if (this.retention.maxBytes === undefined) {
+      return;
+    }
+
+    const bytes = serializedByteLength(event);
+    this.materializedBytes +=
+      bytes - (this.eventBytesBySeq.get(event.seq) ?? 0);
+    this.eventBytesBySeq.set(event.seq, bytes);
+  }
+
+  private isOverRetention(eventCount: number, bytes: number): boolean {
+    const { maxEvents, maxBytes } = this.retention;
+    return (
+      (maxEvents !== undefined && eventCount > maxEvents) ||
+      (maxBytes !== undefined && bytes > maxBytes)
+    );
+  }
+
+  private isPinned(seq: number): boolean {
+    return this.pinnedRanges.some((range) => {
+      return range.fromSeq <= seq && range.toSeq >= seq;
+    });
+  }
+
+  /**
+   * Counts the materialized events inside pinned ranges.
+   */
+  private pinnedTotals(): { eventCount: number; bytes: number } {
+    const totals = { eventCount: 0, bytes: 0 };
+    if (this.pinnedRanges.length === 0) {
+      return totals;
+    }
+
+    for (const seq of this.eventBySeq.keys()) {
+      if (this.isPinned(seq)) {
+        totals.eventCount += 1;
+        totals.bytes += this.eventBytesBySeq.get(seq) ?? 0;
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * Evicts the oldest unpinned events until the retention policy holds.
+   * Pinned events do not count against the limits.
+   *
+   * Coverage shrinks with the evicted events, so later range reads see the
+   * hole and replay it from the server. `lastSeq` and the tail cursor are
+   * untouched.
+   */
+  private enforceRetention(): void {
+    if (!this.isOverRetention(this.eventBySeq.size, this.materializedBytes)) {
+      return;
+    }
+
+    const pinned = this.pinnedTotals();
+    let eventCount = this.eventBySeq.size - pinned.eventCount;
+    let bytes = this.materializedBytes - pinned.bytes;
+    const evictedCursorBySeq = new Map<number, TailCursor | undefined>();
+
+    // Coverage is sorted and spans every materialized event, so walking it
+    // visits the oldest events first without sorting the whole timeline.
+    for (const seq of this.coveredSeqs()) {
+      if (!this.isOverRetention(eventCount, bytes)) {
+        break;
+      }
+
+      const event = this.eventBySeq.get(seq);
+      if (!event || this.isPinned(seq)) {
+        continue;
+      }
+
+      const eventBytes = this.eventBytesBySeq.get(seq) ?? 0;
+      eventCount -= 1;
+      bytes -= eventBytes;
+      evictedCursorBySeq.set(seq, event.cursor);
+      this.materializedBytes -= eventBytes;
+      this.eventBytesBySeq.delete(seq);
+      this.eventBySeq.delete(seq);
+    }
+
+    if (evictedCursorBySeq.size === 0) {
+      return;
+    }
+
+    this.ranges = toTrimmedRanges(
+      this.ranges,
+      evictedCursorBySeq,
+      this.eventBySeq
+    );
+    this.orderedEventsDirty = true;
+  }
+
+  private *coveredSeqs(): Generator<number> {
+    for (const range of this.ranges) {
+      for (let seq = range.fromSeq; seq <= range.toSeq; seq += 1) {
+        yield seq;
+      }
+    }
+  }
 }
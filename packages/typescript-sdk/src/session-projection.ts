@@ -0,0 +1,172 @@
+import EventEmitter from "eventemitter3";
+import type { TailEvent } from "./types";
+
+/**
+ * Folds one committed event into projection state.
+ *
+ * Reducers should return a new state rather than mutating the previous one,
+ * and the state must be JSON-serializable to be persisted.
+ */
+export type SessionProjectionReducer<TState> = (
+  state: TState,
+  event: TailEvent
+) => TState;
+
+/**
+ * Listener for projection state changes. `seq` is the last folded event seq.
+ */
+export type SessionProjectionListener<TState> = (
+  state: TState,
+  seq: number
+) => void;
+
+/**
+ * Options for `session.project(...)`.
+ */
+export interface SessionProjectOptions {
+  /**
+   * Stable snapshot key for this projection within the session.
+   *
+   * Change the key when the reducer's state shape changes so stale snapshots
+   * are not resumed.
+   */
+  key: string;
+}
+
+/**
+ * Persisted projection state and the last seq it covers.
+ */
+export interface SessionProjectionSnapshot {
+  seq: number;
+  state: unknown;
+}
+
+interface SessionProjectionEvents<TState> {
+  change: SessionProjectionListener<TState>;
+}
+
+/**
+ * Incrementally folded view over a session's committed events.
+ *
+ * Created by `session.project(...)`. Folding starts after the last persisted
+ * snapshot for the projection key and continues live until `dispose()` or
+ * session disconnect.
+ */
+export class SessionProjection<TState> {
+  /** Snapshot key for this projection. */
+  readonly key: string;
+
+  private readonly reducer: SessionProjectionReducer<TState>;
+  private readonly emitter = new EventEmitter<
+    SessionProjectionEvents<TState>
+  >();
+  private readonly abortController = new AbortController();
+  private readonly onSnapshot: (snapshot: SessionProjectionSnapshot) => void;
+  private readonly onDispose: () => void;
+  private readonly onError: (error: unknown) => void;
+  private currentState: TState;
+  private currentSeq: number;
+
+  constructor(options: {
+    key: string;
+    reducer: SessionProjectionReducer<TState>;
+    initialState: TState;
+    onSnapshot: (snapshot: SessionProjectionSnapshot) => void;
+    onDispose: () => void;
+    onError: (error: unknown) => void;
+  }) {
+    this.key = options.key;
+    this.reducer = options.reducer;
+    this.currentState = options.initialState;
+    this.currentSeq = 0;
+    this.onSnapshot = options.onSnapshot;
+    this.onDispose = options.onDispose;
+    this.onError = options.onError;
+  }
+
+  /** Current projection state. */
+  get state(): TState {
+    return this.currentState;
+  }
+
+  /** Last folded event seq, or `0` before any event has been folded. */
+  get seq(): number {
+    return this.currentSeq;
+  }
+
+  /** Signal that aborts when the projection is disposed. */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * Subscribes to state changes after each folded event.
+   */
+  on(
+    eventName: "change",
+    listener: SessionProjectionListener<TState>
+  ): () => void {
+    this.emitter.on(eventName, listener);
+    return () => {
+      this.emitter.off(eventName, listener);
+    };
+  }
+
+  /**
+   * Stops folding and removes change listeners. The last snapshot stays
+   * persisted.
+   */
+  dispose(): void {
+    if (this.abortController.signal.aborted) {
+      return;
+    }
+
+    this.abortController.abort();
+    this.emitter.removeAllListeners();
+    this.onDispose();
+  }
+
+  /**
+   * Resumes from `snapshot` when present, then folds the events opened after
+   * it until they end or the projection is disposed.
+   *
+   * A reducer failure disposes the projection, since later state could no
+   * longer be trusted. Listener failures are reported and folding continues.
+   */
+  async run(
+    snapshot: SessionProjectionSnapshot | undefined,
+    openEvents: (fromSeq: number) => AsyncIterable<TailEvent>
+  ): Promise<void> {
+    if (snapshot && snapshot.seq > this.currentSeq) {
+      this.currentState = snapshot.state as TState;
+      this.currentSeq = snapshot.seq;
+      this.emitChange();
+    }
+
+    try {
+      for await (const event of openEvents(this.currentSeq + 1)) {
+        if (event.seq <= this.currentSeq) {
+          continue;
+        }
+
+        this.currentState = this.reducer(this.currentState, event);
+        this.currentSeq = event.seq;
+        this.onSnapshot({ seq: this.currentSeq, state: this.currentState });
+        this.emitChange();
+      }
+    } catch (error) {
+      this.onError(error);
+      this.dispose();
+    }
+  }
+
+  private emitChange(): void {
+    for (const listener of this.emitter.listeners("change")) {
+      try {
+        listener(this.currentState, this.currentSeq);
+      } catch (error) {
+        this.onError(error);
+      }
+    }
+  }
+}
@@ -0,0 +1,320 @@
+import { StarciteError } from "./errors";
+import type { StarciteIdentity } from "./identity";
+import type { StarciteSession } from "./session";
+import { TypedSession } from "./typed-session";
+import type {
+  SessionCapabilities,
+  SessionEventCatalog,
+  StarciteSessionRegistryOptions,
+} from "./types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface SessionRegistryEntry {
+  session: StarciteSession;
+  refs: number;
+  idleTimer?: ReturnType<typeof setTimeout>;
+  /** Stops waiting for a released session's outbox to drain. */
+  stopDrainWatch?: () => void;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_IDLE_TIMEOUT_MS = 0;
+const DEFAULT_MAX_IDLE_SESSIONS = 16;
+const CLOSED_MESSAGE = "Starcite client is closed.";
+
+// ---------------------------------------------------------------------------
+// Free functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Registry key for a session bound as `identity` with `capabilities`.
+ * Callers holding tokens with different scopes get separate sessions.
+ */
+export function sessionRegistryKey(
+  sessionId: string,
+  identity: StarciteIdentity,
+  capabilities: SessionCapabilities
+): string {
+  const access = `${capabilities.read ? "r" : ""}${capabilities.append ? "a" : ""}`;
+  return `${identity.tenantId}/${identity.toActor()}/${sessionId}#${access}`;
+}
+
+/**
+ * Wraps a shared session in a per-caller handle. Listeners added through the
+ * handle are removed by its `disconnect()`, which releases the caller's
+ * reference exactly once; every other member forwards to `session`.
+ */
+function createSessionLease(
+  session: StarciteSession,
+  release: () => void
+): StarciteSession {
+  const unsubscribes = new Set<() => void>();
+  let released = false;
+
+  const on = (...args: unknown[]): (() => void) => {
+    const unsubscribe = Reflect.apply(session.on, session, args) as () => void;
+    const stop = () => {
+      unsubscribes.delete(stop);
+      unsubscribe();
+    };
+    unsubscribes.add(stop);
+    return stop;
+  };
+
+  const disconnect = (): void => {
+    if (released) {
+      return;
+    }
+
+    released = true;
+    for (const stop of [...unsubscribes]) {
+      stop();
+    }
+    release();
+  };
+
+  const lease: StarciteSession = new Proxy(session, {
+    get(target, property) {
+      switch (property) {
+        case "on":
+          return on;
+        case "disconnect":
+          return disconnect;
+        case "typed":
+          return (catalog: SessionEventCatalog) =>
+            new TypedSession(lease, catalog);
+        default: {
+          const value = Reflect.get(target, property, target);
+          return typeof value === "function" ? value.bind(target) : value;
+        }
+      }
+    },
+  });
+  return lease;
+}
+
+function isOutboxDrained(session: StarciteSession): boolean {
+  const append = session.appendState();
+  return append.pending.length === 0 || append.status === "paused";
+}
+
+// ---------------------------------------------------------------------------
+// SessionRegistry
+// ---------------------------------------------------------------------------
+
+/**
+ * Client-owned registry that shares one live `StarciteSession` per session
+ * id, identity and capabilities.
+ *
+ * Each `acquire()` or `register()` adds a reference and returns a lease for
+ * it; the lease's `disconnect()` drops that reference. With `idleTimeoutMs`,
+ * sessions nobody holds stay warm for that long, and at most
+ * `maxIdleSessions` of them are kept, evicting the least recently used.
+ */
+export class SessionRegistry {
+  private readonly entries = new Map<string, SessionRegistryEntry>();
+  private readonly pending = new Map<string, Promise<StarciteSession>>();
+  private readonly idleTimeoutMs: number;
+  private readonly maxIdleSessions: number;
+  private closed = false;
+
+  constructor(options: StarciteSessionRegistryOptions = {}) {
+    const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    const maxIdleSessions =
+      options.maxIdleSessions ?? DEFAULT_MAX_IDLE_SESSIONS;
+    if (!Number.isFinite(idleTimeoutMs) || idleTimeoutMs < 0) {
+      throw new StarciteError(
+        "sessionRegistry idleTimeoutMs must be a non-negative number"
+      );
+    }
+    if (!Number.isInteger(maxIdleSessions) || maxIdleSessions < 0) {
+      throw new StarciteError(
+        "sessionRegistry maxIdleSessions must be a non-negative integer"
+      );
+    }
+
+    this.idleTimeoutMs = idleTimeoutMs;
+    this.maxIdleSessions = maxIdleSessions;
+  }
+
+  /**
+   * Returns a lease on the live session for `key`, if any.
+   */
+  acquire(key: string): StarciteSession | undefined {
+    this.assertOpen();
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    entry.refs += 1;
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = undefined;
+    entry.stopDrainWatch?.();
+    entry.stopDrainWatch = undefined;
+    // Re-inserting keeps the map in least-recently-used order.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return createSessionLease(entry.session, () =>
+      this.release(key, entry.session)
+    );
+  }
+
+  /**
+   * Returns a lease on the live session for `key`, or creates and registers
+   * one. Concurrent calls for the same key share a single `create()`.
+   */
+  async open(
+    key: string,
+    create: () => Promise<StarciteSession>
+  ): Promise<StarciteSession> {
+    const live = this.acquire(key);
+    if (live) {
+      return live;
+    }
+
+    const inflight = this.pending.get(key);
+    if (inflight) {
+      await inflight;
+      return this.open(key, create);
+    }
+
+    const task = create()
+      .then((session) => this.register(key, session))
+      .finally(() => {
+        this.pending.delete(key);
+      });
+    this.pending.set(key, task);
+    // The creator holds the lease returned by `register()`.
+    return task;
+  }
+
+  /**
+   * Adds a newly created session under `key` and returns a lease on it.
+   *
+   * When another session won the race for `key`, the new one is disconnected
+   * and a lease on the live one is returned instead.
+   */
+  register(key: string, session: StarciteSession): StarciteSession {
+    if (this.closed) {
+      session.disconnect();
+      throw new StarciteError(CLOSED_MESSAGE);
+    }
+
+    const live = this.acquire(key);
+    if (live) {
+      session.disconnect();
+      return live;
+    }
+
+    this.entries.set(key, { session, refs: 0 });
+    return this.acquire(key) as StarciteSession;
+  }
+
+  /**
+   * Disposes every registered session, held or idle, and rejects later use.
+   */
+  close(): void {
+    this.closed = true;
+    for (const [key, entry] of [...this.entries]) {
+      this.dispose(key, entry);
+    }
+  }
+
+  /**
+   * Drops one reference to `session`. After the last one it is disposed once
+   * its outbox drains, or idles until `idleTimeoutMs` elapses or it is
+   * evicted.
+   */
+  private release(key: string, session: StarciteSession): void {
+    const entry = this.entries.get(key);
+    if (entry?.session !== session || entry.refs === 0) {
+      return;
+    }
+
+    entry.refs -= 1;
+    if (entry.refs > 0) {
+      return;
+    }
+
+    if (this.idleTimeoutMs === 0) {
+      if (isOutboxDrained(entry.session)) {
+        this.dispose(key, entry);
+      } else {
+        this.disposeWhenDrained(key, entry);
+      }
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.scheduleIdleDispose(key, entry);
+    this.evictIdle();
+  }
+
+  private scheduleIdleDispose(key: string, entry: SessionRegistryEntry): void {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = setTimeout(() => {
+      entry.idleTimer = undefined;
+      if (this.entries.get(key) !== entry || entry.refs > 0) {
+        return;
+      }
+
+      if (isOutboxDrained(entry.session)) {
+        this.dispose(key, entry);
+        return;
+      }
+
+      this.scheduleIdleDispose(key, entry);
+    }, this.idleTimeoutMs);
+    (entry.idleTimer as { unref?: () => void }).unref?.();
+  }
+
+  private disposeWhenDrained(key: string, entry: SessionRegistryEntry): void {
+    entry.stopDrainWatch = entry.session.on("state", () => {
+      if (
+        this.entries.get(key) === entry &&
+        entry.refs === 0 &&
+        isOutboxDrained(entry.session)
+      ) {
+        this.dispose(key, entry);
+      }
+    });
+  }
+
+  private evictIdle(): void {
+    const idle = [...this.entries].filter(([, entry]) => entry.refs === 0);
+    let excess = idle.length - this.maxIdleSessions;
+    for (const [key, entry] of idle) {
+      if (excess <= 0) {
+        return;
+      }
+
+      if (isOutboxDrained(entry.session)) {
+        this.dispose(key, entry);
+        excess -= 1;
+      }
+    }
+  }
+
+  private dispose(key: string, entry: SessionRegistryEntry): void {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = undefined;
+    entry.stopDrainWatch?.();
+    entry.stopDrainWatch = undefined;
+    this.entries.delete(key);
+    entry.session.disconnect();
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new StarciteError(CLOSED_MESSAGE);
+    }
+  }
+}
@@ -1,7 +1,9 @@
 import { z } from "zod";
 import { StarciteError } from "./errors";
 import type { SessionHistoryStoreSnapshot } from "./session-history";
+import type { SessionProjectionSnapshot } from "./session-projection";
 import {
+  type AsyncSessionStore,
   SessionAppendStoreStateSchema,
   type SessionStore,
   TailCursorSchema,
@@ -17,6 +19,11 @@ const SessionHistoryCoverageSchema = z.object({
   afterCursor: TailCursorSchema.optional(),
 });
 
+const SessionProjectionSnapshotSchema = z.object({
+  seq: z.number().int().nonnegative(),
+  state: z.unknown(),
+});
+
 const StoredSessionStateSchema = z.object({
   version: z.literal(SESSION_STORE_VERSION),
   lastSeq: z.number().int().nonnegative(),
@@ -24,11 +31,13 @@ const StoredSessionStateSchema = z.object({
   events: z.array(TailEventSchema).optional(),
   coverage: z.array(SessionHistoryCoverageSchema).optional(),
   outbox: SessionAppendStoreStateSchema.optional(),
+  projections: z.record(SessionProjectionSnapshotSchema).optional(),
 });
 
 interface StoredSessionState extends SessionHistoryStoreSnapshot {
   version: typeof SESSION_STORE_VERSION;
   outbox?: z.infer<typeof SessionAppendStoreStateSchema>;
+  projections?: Record<string, SessionProjectionSnapshot>;
 }
 
 export function decodeSessionStoreValue(
@@ -48,6 +57,7 @@ export function decodeSessionStoreValue(
 export function encodeSessionStoreValue(input: {
   timeline?: SessionHistoryStoreSnapshot;
   outbox?: z.infer<typeof SessionAppendStoreStateSchema>;
+  projections?: Record<string, SessionProjectionSnapshot>;
 }): string {
   if (input.timeline?.events?.length && input.timeline.coverage === undefined) {
     throw new StarciteError(
@@ -62,9 +72,136 @@ export function encodeSessionStoreValue(input: {
     events: input.timeline?.events,
     coverage: input.timeline?.coverage,
     outbox: input.outbox,
+    projections: input.projections,
   } satisfies StoredSessionState);
 }
 
+type PendingSessionStoreOperation =
+  | { type: "write"; value: string }
+  | { type: "clear" };
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === "function"
+  );
+}
+
+/**
+ * Reads one session entry from either store flavor.
+ *
+ * Returns a promise only when the store itself is asynchronous, so sync
+ * stores keep restoring inside the session constructor.
+ */
+export function readSessionStoreValue(
+  store: SessionStore | AsyncSessionStore,
+  sessionId: string
+): string | undefined | Promise<string | undefined> {
+  const value = store.read(sessionId);
+  return isPromiseLike<string | undefined>(value)
+    ? Promise.resolve(value)
+    : value;
+}
+
+/**
+ * Serializes writes for one session entry.
+ *
+ * Sync stores are written inline. For async stores at most one operation is
+ * in flight; anything requested meanwhile collapses into the latest pending
+ * operation, so an earlier write can never land after a later one.
+ */
+export class SessionStoreWriter {
+  private readonly store: SessionStore | AsyncSessionStore;
+  private readonly sessionId: string;
+  private readonly onWriteError: (error: unknown) => void;
+  private pending: PendingSessionStoreOperation | undefined;
+  private inFlight: Promise<void> | undefined;
+
+  constructor(input: {
+    store: SessionStore | AsyncSessionStore;
+    sessionId: string;
+    onWriteError: (error: unknown) => void;
+  }) {
+    this.store = input.store;
+    this.sessionId = input.sessionId;
+    this.onWriteError = input.onWriteError;
+  }
+
+  write(value: string): void {
+    this.schedule({ type: "write", value });
+  }
+
+  clear(): void {
+    this.schedule({ type: "clear" });
+  }
+
+  /**
+   * Resolves once every operation requested so far has settled.
+   */
+  async flush(): Promise<void> {
+    while (this.inFlight) {
+      await this.inFlight;
+    }
+  }
+
+  private schedule(operation: PendingSessionStoreOperation): void {
+    this.pending = operation;
+    if (!this.inFlight) {
+      this.drain();
+    }
+  }
+
+  private drain(): void {
+    while (this.pending) {
+      const operation = this.pending;
+      this.pending = undefined;
+
+      let result: unknown;
+      try {
+        result = this.run(operation);
+      } catch (error) {
+        this.reportFailure(operation, error);
+        continue;
+      }
+
+      if (isPromiseLike(result)) {
+        this.inFlight = Promise.resolve(result).then(
+          () => this.settle(),
+          (error: unknown) => {
+            this.reportFailure(operation, error);
+            this.settle();
+          }
+        );
+        return;
+      }
+    }
+  }
+
+  private settle(): void {
+    this.inFlight = undefined;
+    this.drain();
+  }
+
+  private run(operation: PendingSessionStoreOperation): unknown {
+    if (operation.type === "write") {
+      return this.store.write(this.sessionId, operation.value);
+    }
+
+    return this.store.clear?.(this.sessionId);
+  }
+
+  private reportFailure(
+    operation: PendingSessionStoreOperation,
+    error: unknown
+  ): void {
+    // Clear failures are ignored; the live stream can still recover state.
+    if (operation.type === "write") {
+      this.onWriteError(error);
+    }
+  }
+}
+
 export interface StarciteWebStorage {
   getItem(key: string): string | null;
   setItem(key: string, value: string): void;
@@ -169,3 +306,344 @@ export class SessionStorageSessionStore extends WebStorageSessionStore {
     super(sessionStorage, options);
   }
 }
+
+const INDEXED_DB_VERSION = 1;
+const INDEXED_DB_SESSIONS = "sessions";
+const INDEXED_DB_EVENTS = "events";
+const INDEXED_DB_OUTBOX = "outbox";
+const INDEXED_DB_STORES = [
+  INDEXED_DB_SESSIONS,
+  INDEXED_DB_EVENTS,
+  INDEXED_DB_OUTBOX,
+];
+
+type StoredSessionOutbox = z.infer<typeof SessionAppendStoreStateSchema>;
+
+interface IndexedDBSessionRecord {
+  sessionId: string;
+  lastSeq: number;
+  cursor?: number;
+  coverage?: StoredSessionState["coverage"];
+  outbox?: Omit<StoredSessionOutbox, "pending">;
+  projections?: StoredSessionState["projections"];
+  pendingCount: number;
+  updatedAtMs: number;
+}
+
+interface IndexedDBEventRecord {
+  sessionId: string;
+  seq: number;
+  event: z.infer<typeof TailEventSchema>;
+}
+
+interface IndexedDBOutboxRecord {
+  sessionId: string;
+  id: string;
+  position: number;
+  entry: StoredSessionOutbox["pending"][number];
+}
+
+/**
+ * Construction options for {@link IndexedDBSessionStore}.
+ */
+export interface IndexedDBSessionStoreOptions {
+  /**
+   * Database name.
+   *
+   * Defaults to `"starcite:v2"`.
+   */
+  databaseName?: string;
+  /**
+   * `IDBFactory` to open the database with. Defaults to the global `indexedDB`.
+   */
+  indexedDB?: IDBFactory;
+  /**
+   * Maximum number of sessions kept in the database.
+   *
+   * After each write, the least recently written sessions beyond this limit
+   * are evicted. Sessions with pending appends are never evicted.
+   */
+  maxSessions?: number;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new StarciteError("Transaction aborted."));
+  });
+}
+
+function sessionKeyRange(sessionId: string): IDBKeyRange {
+  // Array keys sort after numbers and strings, so this spans every
+  // `[sessionId, <seq|id>]` compound key for the session.
+  return IDBKeyRange.bound([sessionId], [sessionId, []]);
+}
+
+/**
+ * Session store backed by IndexedDB for large browser timelines.
+ *
+ * Unlike {@link WebStorageSessionStore}, events are stored as one record per
+ * seq and outbox entries as one record per append, so long sessions are not
+ * bound by the Web Storage quota and each write only touches changed events.
+ */
+export class IndexedDBSessionStore implements AsyncSessionStore {
+  private readonly factory: IDBFactory;
+  private readonly databaseName: string;
+  private readonly maxSessions: number;
+  private readonly writtenEvents = new Map<string, Map<number, string>>();
+  private database: Promise<IDBDatabase> | undefined;
+  private lastUpdatedAtMs = 0;
+
+  constructor(options: IndexedDBSessionStoreOptions = {}) {
+    const factory =
+      options.indexedDB ??
+      (typeof indexedDB === "undefined" ? undefined : indexedDB);
+    if (!factory) {
+      throw new StarciteError(
+        "indexedDB is not available in this runtime. Pass IndexedDBSessionStoreOptions.indexedDB or use another session store."
+      );
+    }
+
+    this.factory = factory;
+    this.databaseName = options.databaseName ?? "starcite:v2";
+    this.maxSessions = options.maxSessions ?? Number.POSITIVE_INFINITY;
+  }
+
+  async read(sessionId: string): Promise<string | undefined> {
+    const database = await this.open();
+    const transaction = database.transaction(INDEXED_DB_STORES, "readonly");
+    const done = transactionDone(transaction);
+    const [record, eventRecords, outboxRecords] = await Promise.all([
+      requestResult<IndexedDBSessionRecord | undefined>(
+        transaction.objectStore(INDEXED_DB_SESSIONS).get(sessionId)
+      ),
+      requestResult<IndexedDBEventRecord[]>(
+        transaction
+          .objectStore(INDEXED_DB_EVENTS)
+          .getAll(sessionKeyRange(sessionId))
+      ),
+      requestResult<IndexedDBOutboxRecord[]>(
+        transaction
+          .objectStore(INDEXED_DB_OUTBOX)
+          .getAll(sessionKeyRange(sessionId))
+      ),
+    ]);
+    await done;
+
+    if (!record) {
+      this.writtenEvents.delete(sessionId);
+      return undefined;
+    }
+
+    this.writtenEvents.set(
+      sessionId,
+      new Map(
+        eventRecords.map((eventRecord) => [
+          eventRecord.seq,
+          JSON.stringify(eventRecord.event),
+        ])
+      )
+    );
+
+    const pending = [...outboxRecords]
+      .sort((left, right) => left.position - right.position)
+      .map((outboxRecord) => outboxRecord.entry);
+
+    return encodeSessionStoreValue({
+      timeline: {
+        lastSeq: record.lastSeq,
+        cursor: record.cursor,
+        events:
+          eventRecords.length > 0
+            ? eventRecords.map((eventRecord) => eventRecord.event)
+            : undefined,
+        coverage: record.coverage,
+      },
+      outbox: record.outbox ? { ...record.outbox, pending } : undefined,
+      projections: record.projections,
+    });
+  }
+
+  async write(sessionId: string, value: string): Promise<void> {
+    const state = decodeSessionStoreValue(value);
+    if (!state) {
+      throw new StarciteError(
+        `IndexedDBSessionStore received an unrecognized session state for '${sessionId}'.`
+      );
+    }
+
+    const database = await this.open();
+    const transaction = database.transaction(INDEXED_DB_STORES, "readwrite");
+    const done = transactionDone(transaction);
+    const events = transaction.objectStore(INDEXED_DB_EVENTS);
+    const outbox = transaction.objectStore(INDEXED_DB_OUTBOX);
+
+    const previous = this.writtenEvents.get(sessionId);
+    if (!previous) {
+      events.delete(sessionKeyRange(sessionId));
+    }
+
+    const written = new Map<number, string>();
+    for (const event of state.events ?? []) {
+      const serialized = JSON.stringify(event);
+      written.set(event.seq, serialized);
+      if (previous?.get(event.seq) !== serialized) {
+        events.put({
+          sessionId,
+          seq: event.seq,
+          event,
+        } satisfies IndexedDBEventRecord);
+      }
+    }
+
+    for (const seq of previous?.keys() ?? []) {
+      if (!written.has(seq)) {
+        events.delete([sessionId, seq]);
+      }
+    }
+
+    const { pending = [], ...outboxMeta } = state.outbox ?? {};
+    outbox.delete(sessionKeyRange(sessionId));
+    for (const [position, entry] of pending.entries()) {
+      outbox.put({
+        sessionId,
+        id: entry.id,
+        position,
+        entry,
+      } satisfies IndexedDBOutboxRecord);
+    }
+
+    transaction.objectStore(INDEXED_DB_SESSIONS).put({
+      sessionId,
+      lastSeq: state.lastSeq,
+      cursor: state.cursor,
+      coverage: state.coverage,
+      outbox: state.outbox
+        ? (outboxMeta as Omit<StoredSessionOutbox, "pending">)
+        : undefined,
+      projections: state.projections,
+      pendingCount: pending.length,
+      updatedAtMs: this.nextUpdatedAtMs(),
+    } satisfies IndexedDBSessionRecord);
+
+    const evicted = await this.evictOverflow(transaction, sessionId);
+    this.writtenEvents.set(sessionId, written);
+    try {
+      await done;
+    } catch (error) {
+      this.writtenEvents.delete(sessionId);
+      throw error;
+    }
+
+    for (const evictedSessionId of evicted) {
+      this.writtenEvents.delete(evictedSessionId);
+    }
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(INDEXED_DB_STORES, "readwrite");
+    const done = transactionDone(transaction);
+    this.deleteSession(transaction, sessionId);
+    this.writtenEvents.delete(sessionId);
+    await done;
+  }
+
+  /**
+   * Closes the underlying database connection.
+   */
+  async close(): Promise<void> {
+    const database = this.database;
+    this.database = undefined;
+    this.writtenEvents.clear();
+    (await database)?.close();
+  }
+
+  private nextUpdatedAtMs(): number {
+    // Strictly increasing so same-millisecond writes keep their LRU order.
+    this.lastUpdatedAtMs = Math.max(Date.now(), this.lastUpdatedAtMs + 1);
+    return this.lastUpdatedAtMs;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (this.database) {
+      return this.database;
+    }
+
+    const request = this.factory.open(this.databaseName, INDEXED_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(INDEXED_DB_SESSIONS)) {
+        database
+          .createObjectStore(INDEXED_DB_SESSIONS, { keyPath: "sessionId" })
+          .createIndex("updatedAtMs", "updatedAtMs");
+      }
+      if (!database.objectStoreNames.contains(INDEXED_DB_EVENTS)) {
+        database.createObjectStore(INDEXED_DB_EVENTS, {
+          keyPath: ["sessionId", "seq"],
+        });
+      }
+      if (!database.objectStoreNames.contains(INDEXED_DB_OUTBOX)) {
+        database.createObjectStore(INDEXED_DB_OUTBOX, {
+          keyPath: ["sessionId", "id"],
+        });
+      }
+    };
+
+    this.database = requestResult(request).catch((error: unknown) => {
+      this.database = undefined;
+      throw error;
+    });
+    return this.database;
+  }
+
+  private async evictOverflow(
+    transaction: IDBTransaction,
+    currentSessionId: string
+  ): Promise<string[]> {
+    if (!Number.isFinite(this.maxSessions)) {
+      return [];
+    }
+
+    const records = await requestResult<IndexedDBSessionRecord[]>(
+      transaction.objectStore(INDEXED_DB_SESSIONS).index("updatedAtMs").getAll()
+    );
+    let overflow = records.length - this.maxSessions;
+    const evicted: string[] = [];
+
+    for (const record of records) {
+      if (overflow <= 0) {
+        break;
+      }
+
+      if (record.sessionId === currentSessionId || record.pendingCount > 0) {
+        continue;
+      }
+
+      this.deleteSession(transaction, record.sessionId);
+      evicted.push(record.sessionId);
+      overflow -= 1;
+    }
+
+    return evicted;
+  }
+
+  private deleteSession(transaction: IDBTransaction, sessionId: string): void {
+    transaction.objectStore(INDEXED_DB_SESSIONS).delete(sessionId);
+    transaction
+      .objectStore(INDEXED_DB_EVENTS)
+      .delete(sessionKeyRange(sessionId));
+    transaction
+      .objectStore(INDEXED_DB_OUTBOX)
+      .delete(sessionKeyRange(sessionId));
+  }
+}
@@ -1,29 +1,48 @@
 import EventEmitter from "eventemitter3";
 import { z } from "zod";
 import { AppendQueue } from "./append-queue";
-import { decodeSessionToken } from "./auth";
 import {
+  decodeSessionToken,
+  readSessionCapabilities,
+  readTokenExpiry,
+  sessionCapabilities,
+} from "./auth";
+import {
+  StarciteAuthorizationError,
   StarciteError,
   StarciteTailError,
+  StarciteTimeoutError,
   StarciteTokenExpiredError,
 } from "./errors";
 import type { StarciteIdentity } from "./identity";
+import { instrument } from "./instrumentation";
 import {
   SessionHistory,
   type SessionHistoryEventContext,
 } from "./session-history";
+import {
+  SessionProjection,
+  type SessionProjectionReducer,
+  type SessionProjectionSnapshot,
+  type SessionProjectOptions,
+} from "./session-projection";
 import {
   decodeSessionStoreValue,
   encodeSessionStoreValue,
+  readSessionStoreValue,
+  SessionStoreWriter,
 } from "./session-store";
 import {
+  connectionErrorDetails,
   type RejoinableChannel,
   readJoinFailureReason,
   SocketManager,
 } from "./socket-manager";
 import { type TransportConfig, toWebSocketBaseUrl } from "./transport";
+import { TypedSession } from "./typed-session";
 import {
   type AppendResult,
+  type AsyncSessionStore,
   type RequestOptions,
   type SessionAppendInput,
   type SessionAppendLifecycleEvent,
@@ -31,17 +50,26 @@ import {
   type SessionAppendOptions,
   type SessionAppendQueueState,
   type SessionAttachMode,
+  type SessionCapabilities,
+  type SessionEventCatalog,
   type SessionEventContext,
   type SessionEventListener,
   type SessionGapListener,
   type SessionHandle,
   type SessionOnEventOptions,
+  type SessionOptimisticEvent,
+  type SessionPendingEvent,
   type SessionRecord,
+  type SessionRetentionPolicy,
   type SessionSnapshot,
   type SessionStateListener,
   type SessionStore,
+  type SessionStoreLock,
+  type SessionStreamOptions,
   type SessionTokenRefreshHandler,
   type SessionTokenRefreshReason,
+  type SessionWaitForOptions,
+  type StarciteConnectivitySource,
   type TailCursor,
   type TailEvent,
   TailEventSchema,
@@ -50,10 +78,52 @@ import {
   TailTokenExpiredPayloadSchema,
 } from "./types";
 
+const STREAM_BACKFILL_CHUNK_SIZE = 256;
+const RANGE_BACKFILL_SOCKET_IDLE_MS = 5000;
+const RANGE_BACKFILL_MAX_JOBS = 4;
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+const STORE_LOCK_RETRY_MS = 5000;
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
 const TailEventsPayloadSchema = z.object({
   events: z.array(TailEventSchema),
 });
 
+/**
+ * Places acknowledged provisional events at their committed seq among
+ * `events` and appends the not yet acknowledged ones at the end.
+ */
+function mergeOptimisticEvents(
+  events: readonly TailEvent[],
+  pending: readonly SessionPendingEvent[]
+): SessionOptimisticEvent[] {
+  const acknowledged = pending
+    .filter((event) => event.seq !== undefined)
+    .sort((left, right) => (left.seq ?? 0) - (right.seq ?? 0));
+  const view: SessionOptimisticEvent[] = [];
+  let next = 0;
+  for (const event of events) {
+    for (
+      let entry = acknowledged[next];
+      entry && (entry.seq ?? 0) <= event.seq;
+      entry = acknowledged[next]
+    ) {
+      // An entry whose committed event is already here is dropped.
+      if (entry.seq !== event.seq) {
+        view.push(entry);
+      }
+      next += 1;
+    }
+    view.push(event);
+  }
+
+  view.push(
+    ...acknowledged.slice(next),
+    ...pending.filter((event) => event.seq === undefined)
+  );
+  return view;
+}
+
 /**
  * Construction options for a `StarciteSession`.
  */
@@ -62,12 +132,16 @@ export interface StarciteSessionOptions {
   token: string;
   identity: StarciteIdentity;
   transport: TransportConfig;
-  sessionStore?: SessionStore;
+  sessionStore?: SessionStore | AsyncSessionStore;
   record?: SessionRecord;
   initialTailCursor?: TailCursor;
   appendOptions?: SessionAppendOptions;
   refreshToken?: SessionTokenRefreshHandler;
   attachMode?: SessionAttachMode;
+  retention?: SessionRetentionPolicy;
+  connectivity?: StarciteConnectivitySource;
+  /** Refresh margin before token expiry; `false` disables proactive refresh. */
+  tokenRefreshMarginMs?: number | false;
 }
 
 interface SessionLifecycleEvents {
@@ -75,6 +149,7 @@ interface SessionLifecycleEvents {
   append: (event: SessionAppendLifecycleEvent) => void;
   gap: (gap: TailGap) => void;
   state: SessionStateListener;
+  disconnect: () => void;
 }
 
 type SessionLifecycleListenerName = keyof SessionLifecycleEvents;
@@ -83,11 +158,31 @@ type SessionLifecycleListener =
 
 interface SessionRangeBackfillJob {
   fromSeq: number;
+  /** Grows while the job runs when an adjacent later range is requested. */
   toSeq: number;
+  finished: boolean;
   promise: Promise<void>;
+  /** Socket holding this job's `tail:<id>` channel. */
+  socketManager: SocketManager;
+}
+
+interface SessionStreamCursor {
+  nextSeq: number | undefined;
+  /** Last seq a replay-only stream yields; `undefined` for live streams. */
+  replayHead: number | undefined;
+  backfilled: Map<number, TailEvent>;
+}
+
+interface SessionStreamWatch {
+  ended: boolean;
+  failure?: Error;
+  firstLiveSeq?: number;
+  next(): Promise<void>;
+  close(): void;
 }
 
 interface TailChannelBindings {
+  source: "tail" | "backfill";
   onEvents?: (events: readonly TailEvent[]) => void;
   onGap?: (gap: TailGap) => void;
   onTokenExpired?: () => void;
@@ -110,16 +205,44 @@ export class StarciteSession implements SessionHandle {
   private readonly initialTailCursor: TailCursor | undefined;
   private currentToken: string;
   private currentIdentity: StarciteIdentity;
+  private currentCapabilities: SessionCapabilities;
   private authRefreshTask: Promise<void> | undefined;
+  private readonly tokenRefreshMarginMs: number | false;
+  private tokenRefreshTimer: ReturnType<typeof setTimeout> | undefined;
 
   private readonly history: SessionHistory;
-  private readonly sessionStore: SessionStore | undefined;
+  private readonly sessionStore: SessionStore | AsyncSessionStore | undefined;
+  private readonly storeWriter: SessionStoreWriter | undefined;
+  private restoreTask: Promise<void> | undefined;
+  /** Set when a write was skipped because the async restore was running. */
+  private persistAfterRestore = false;
+  private storeLock: SessionStoreLock | undefined;
+  private storeLockRetryTimer: ReturnType<typeof setTimeout> | undefined;
+  private ownsStore = true;
+  private disconnected = false;
+  private offline = false;
+  private unsubscribeConnectivity: (() => void) | undefined;
+  private readonly unsubscribeConnection: () => void;
   private readonly lifecycle = new EventEmitter<SessionLifecycleEvents>();
   private readonly eventDispatchers = new Map<
     SessionEventListener,
     (event: TailEvent, context: SessionHistoryEventContext) => void
   >();
-  private readonly backfillJobs: SessionRangeBackfillJob[] = [];
+  private readonly backfillJobs = new Set<SessionRangeBackfillJob>();
+  private readonly projections = new Map<string, SessionProjection<unknown>>();
+  private readonly projectionSnapshots = new Map<
+    string,
+    SessionProjectionSnapshot
+  >();
+  private projectionPersistTimer: ReturnType<typeof setTimeout> | undefined;
+  private readonly backfillSocketManagers: SocketManager[] = [];
+  private optimisticView:
+    | {
+        events: readonly TailEvent[];
+        pendingKey: string;
+        view: readonly SessionOptimisticEvent[];
+      }
+    | undefined;
   private keepTailAttached = false;
   private closeTailChannel: (() => void) | undefined;
   private nextTailBatchCursor: TailCursor | undefined;
@@ -128,25 +251,38 @@ export class StarciteSession implements SessionHandle {
     this.id = options.id;
     this.currentToken = options.token;
     this.currentIdentity = options.identity;
+    this.currentCapabilities = readSessionCapabilities(options.token);
     this.transport = options.transport;
     this.record = options.record;
     this.sessionStore = options.sessionStore;
     this.initialTailCursor = options.initialTailCursor;
     this.refreshTokenHandler = options.refreshToken;
+    this.tokenRefreshMarginMs =
+      options.tokenRefreshMarginMs ?? TOKEN_REFRESH_MARGIN_MS;
     this.keepTailAttached = (options.attachMode ?? "on-demand") === "eager";
-    this.history = new SessionHistory();
+    this.history = new SessionHistory({ retention: options.retention });
+    this.storeWriter = this.sessionStore
+      ? new SessionStoreWriter({
+          store: this.sessionStore,
+          sessionId: this.id,
+          onWriteError: (error) => this.emitStoreWriteError(error),
+        })
+      : undefined;
 
     this.outbox = new AppendQueue({
       sessionId: options.id,
       transport: options.transport,
       appendOptions: options.appendOptions,
-      persist: this.sessionStore !== undefined,
+      // A token that cannot append never queues, so nothing is persisted.
+      persist:
+        this.sessionStore !== undefined && this.currentCapabilities.append,
       onUnauthorized: async (error) => {
         await this.refreshAuthInternal("unauthorized", error, {
           emitFailure: true,
         });
       },
       onStateChange: () => {
+        this.settleAcknowledgedAppends();
         this.reconcileChannelAttachment();
         this.persistStoredState();
         this.emitStateChange();
@@ -165,21 +301,50 @@ export class StarciteSession implements SessionHandle {
       },
     });
 
-    const storedState = this.readStoredState();
-    if (this.restoreStoredState(storedState)) {
-      if (storedState?.outbox) {
-        this.outbox.restoreState(storedState.outbox);
-      }
-      const pendingBefore = this.outbox.pendingCount;
-      this.outbox.reconcileWithCommittedEvents(
-        this.history.events,
-        this.history.lastSeq
+    this.unsubscribeConnection =
+      this.transport.socketManager.onConnectionChange(() => {
+        if (this.closeTailChannel) {
+          this.emitStateChange();
+        }
+      });
+
+    if (options.connectivity) {
+      this.offline = !options.connectivity.isOnline();
+      this.outbox.setOnline(!this.offline);
+      this.unsubscribeConnectivity = options.connectivity.subscribe(
+        (online) => {
+          this.handleConnectivityChange(online);
+        }
       );
-      if (this.outbox.pendingCount !== pendingBefore) {
-        this.persistStoredState();
-      }
     }
 
+    this.scheduleTokenRefresh();
+
+    const storedValue = this.readStoredValue();
+    if (storedValue instanceof Promise) {
+      this.restoreTask = Promise.all([storedValue, this.acquireStoreLock()])
+        .then(([value]) => {
+          this.restoreFromStoredValue(value);
+        })
+        .finally(() => {
+          this.restoreTask = undefined;
+          if (this.disconnected) {
+            return;
+          }
+
+          if (this.persistAfterRestore) {
+            this.persistAfterRestore = false;
+            this.persistStoredState();
+          }
+
+          this.reconcileChannelAttachment();
+          this.outbox.ensureProcessing();
+          this.emitStateChange();
+        });
+      return;
+    }
+
+    this.restoreFromStoredValue(storedValue);
     this.reconcileChannelAttachment();
     this.outbox.ensureProcessing();
   }
@@ -194,28 +359,237 @@ export class StarciteSession implements SessionHandle {
     return this.currentIdentity;
   }
 
+  /** Operations the current session token allows. */
+  get capabilities(): SessionCapabilities {
+    return { ...this.currentCapabilities };
+  }
+
+  /**
+   * Resolves once durable state has been restored from the session store.
+   *
+   * Sync stores restore inside the constructor, so this resolves immediately.
+   * Async stores restore in the background; appends, range reads, and tail
+   * attachment wait for it automatically.
+   */
+  ready(): Promise<void> {
+    return this.restoreTask ?? Promise.resolve();
+  }
+
+  /**
+   * Resolves once pending session store writes have settled.
+   */
+  flushStore(): Promise<void> {
+    return this.storeWriter?.flush() ?? Promise.resolve();
+  }
+
   /**
    * Appends an event to this session.
    *
-   * The SDK manages `producer_id` and `producer_seq` automatically.
+   * The SDK manages `producer_id` and `producer_seq` automatically. Rejects
+   * with `StarciteAuthorizationError`, without queueing, when the session
+   * token lacks the `session:append` scope.
    */
   append(
     input: SessionAppendInput,
     options?: RequestOptions
   ): Promise<AppendResult> {
+    const denied = this.checkAppendAllowed();
+    if (denied) {
+      return Promise.reject(denied);
+    }
+
+    if (this.restoreTask) {
+      return this.restoreTask.then(() =>
+        this.outbox.append(input, options?.signal)
+      );
+    }
+
     return this.outbox.append(input, options?.signal);
   }
 
+  /**
+   * Appends several events as one atomic batch request.
+   *
+   * The events get contiguous `producer_seq` values and travel through the
+   * append queue as a single unit, so they are persisted, retried, and
+   * acknowledged together. Results are returned in input order.
+   */
+  appendMany(
+    inputs: readonly SessionAppendInput[],
+    options?: RequestOptions
+  ): Promise<AppendResult[]> {
+    const denied = this.checkAppendAllowed();
+    if (denied) {
+      return Promise.reject(denied);
+    }
+
+    if (this.restoreTask) {
+      return this.restoreTask.then(() =>
+        this.outbox.appendMany(inputs, options?.signal)
+      );
+    }
+
+    return this.outbox.appendMany(inputs, options?.signal);
+  }
+
   range(
     fromSeq: number,
     toSeq: number,
     requestOptions?: RequestOptions
   ): Promise<readonly TailEvent[]> {
+    if (this.restoreTask) {
+      return this.restoreTask.then(() =>
+        this.readRange(fromSeq, toSeq, requestOptions)
+      );
+    }
+
     return this.readRange(fromSeq, toSeq, requestOptions);
   }
 
+  /**
+   * Keeps the events in `fromSeq..toSeq` materialized, whatever the
+   * `sessionRetention` policy, until the returned release callback runs.
+   * Pinned events do not count against the retention limits.
+   */
+  pin(fromSeq: number, toSeq: number): () => void {
+    return this.history.pin(fromSeq, toSeq);
+  }
+
+  /**
+   * Iterates committed events in seq order.
+   *
+   * Events are read from local history as the consumer pulls them, so a slow
+   * consumer never buffers the live tail; anything evicted or missed in the
+   * meantime is backfilled through `range()`. Breaking out of the loop,
+   * aborting `signal`, or disconnecting the session ends iteration and
+   * releases the live tail. Session errors raised while iterating are thrown
+   * from the iterator.
+   */
+  stream<TEvent extends TailEvent>(
+    options: SessionStreamOptions & {
+      filter: (event: TailEvent) => event is TEvent;
+    }
+  ): AsyncIterable<TEvent>;
+  stream(options?: SessionStreamOptions): AsyncIterable<TailEvent>;
+  stream(options: SessionStreamOptions = {}): AsyncIterable<TailEvent> {
+    const { fromSeq, phase } = options;
+    if (fromSeq !== undefined && !(Number.isInteger(fromSeq) && fromSeq > 0)) {
+      throw new StarciteError("Session streams require fromSeq >= 1.");
+    }
+
+    if (fromSeq !== undefined && phase === "live") {
+      throw new StarciteError(
+        "Session streams cannot combine fromSeq with phase 'live'."
+      );
+    }
+
+    return this.streamEvents(options);
+  }
+
+  /**
+   * Returns a typed view of this session driven by an event catalog.
+   */
+  typed<TCatalog extends SessionEventCatalog>(
+    catalog: TCatalog
+  ): TypedSession<TCatalog> {
+    return new TypedSession(this, catalog);
+  }
+
+  /**
+   * Folds committed events into projection state incrementally, in seq order.
+   *
+   * With a session store, the state and the seq it covers are persisted under
+   * `key`, so a later session resumes folding after that seq instead of
+   * replaying the timeline from seq 1. Reducer failures are surfaced through
+   * `session.on("error", ...)` and stop the projection.
+   */
+  project<TState>(
+    reducer: SessionProjectionReducer<TState>,
+    initialState: TState,
+    options: SessionProjectOptions
+  ): SessionProjection<TState> {
+    const { key } = options;
+    if (this.projections.has(key)) {
+      throw new StarciteError(
+        `Projection '${key}' is already active on session '${this.id}'.`
+      );
+    }
+
+    const projection = new SessionProjection<TState>({
+      key,
+      reducer,
+      initialState,
+      onSnapshot: (snapshot) => {
+        this.projectionSnapshots.set(key, snapshot);
+        this.scheduleProjectionPersist();
+      },
+      onDispose: () => {
+        this.projections.delete(key);
+      },
+      onError: (error) => this.emitStreamError(error),
+    });
+    this.projections.set(key, projection as SessionProjection<unknown>);
+
+    const start = () =>
+      projection.run(this.projectionSnapshots.get(key), (fromSeq) =>
+        this.streamEvents({ fromSeq, signal: projection.signal }, false)
+      );
+    if (this.restoreTask) {
+      this.restoreTask.then(start).catch((error) => {
+        this.emitStreamError(error);
+      });
+    } else {
+      // Applies a restored snapshot synchronously so `projection.state` is
+      // current as soon as this returns.
+      start();
+    }
+    return projection;
+  }
+
+  /**
+   * Resolves with the first committed event matching `predicate`.
+   *
+   * Already materialized events are checked first unless `includeReplay` is
+   * `false`. Otherwise the tail stays attached only while the wait is pending.
+   * Rejects with `StarciteTimeoutError` after `timeoutMs`, and with session
+   * errors, abort, or disconnect that happen while waiting.
+   */
+  waitFor<TEvent extends TailEvent>(
+    predicate: (event: TailEvent) => event is TEvent,
+    options?: SessionWaitForOptions
+  ): Promise<TEvent>;
+  waitFor(
+    predicate: (event: TailEvent) => boolean,
+    options?: SessionWaitForOptions
+  ): Promise<TailEvent>;
+  async waitFor(
+    predicate: (event: TailEvent) => boolean,
+    options: SessionWaitForOptions = {}
+  ): Promise<TailEvent> {
+    const { timeoutMs } = options;
+    if (
+      timeoutMs !== undefined &&
+      !(Number.isFinite(timeoutMs) && timeoutMs >= 0)
+    ) {
+      throw new StarciteError("Session waitFor requires timeoutMs >= 0.");
+    }
+
+    await this.ready();
+    if (options.includeReplay ?? true) {
+      const replayed = this.history.events.find((event) => predicate(event));
+      if (replayed) {
+        return replayed;
+      }
+    }
+
+    return await this.waitForLiveEvent(predicate, options);
+  }
+
   /**
    * Subscribes to canonical session events and lifecycle errors.
+   *
+   * `disconnect` fires once when the session stops; a listener added after
+   * that is called on the next microtask.
    */
   on(eventName: "event", listener: SessionEventListener): () => void;
   on<TEvent extends TailEvent>(
@@ -227,14 +601,16 @@ export class StarciteSession implements SessionHandle {
   on(eventName: "gap", listener: SessionGapListener): () => void;
   on(eventName: "state", listener: SessionStateListener): () => void;
   on(eventName: "error", listener: (error: Error) => void): () => void;
+  on(eventName: "disconnect", listener: () => void): () => void;
   on(
-    eventName: "event" | "append" | "gap" | "state" | "error",
+    eventName: "event" | "append" | "gap" | "state" | "error" | "disconnect",
     listener:
       | SessionEventListener
       | SessionAppendListener
       | SessionGapListener
       | SessionStateListener
-      | ((error: Error) => void),
+      | ((error: Error) => void)
+      | (() => void),
     options?: SessionOnEventOptions
   ): () => void {
     switch (eventName) {
@@ -266,6 +642,9 @@ export class StarciteSession implements SessionHandle {
           listener as (error: Error) => void
         );
 
+      case "disconnect":
+        return this.onDisconnect(listener as () => void);
+
       default:
         throw new StarciteError(`Unsupported event name '${eventName}'`);
     }
@@ -279,14 +658,16 @@ export class StarciteSession implements SessionHandle {
   off(eventName: "gap", listener: SessionGapListener): void;
   off(eventName: "state", listener: SessionStateListener): void;
   off(eventName: "error", listener: (error: Error) => void): void;
+  off(eventName: "disconnect", listener: () => void): void;
   off(
-    eventName: "event" | "append" | "gap" | "state" | "error",
+    eventName: "event" | "append" | "gap" | "state" | "error" | "disconnect",
     listener:
       | SessionEventListener
       | SessionAppendListener
       | SessionGapListener
       | SessionStateListener
       | ((error: Error) => void)
+      | (() => void)
   ): void {
     switch (eventName) {
       case "event": {
@@ -316,6 +697,10 @@ export class StarciteSession implements SessionHandle {
         );
         return;
 
+      case "disconnect":
+        this.removeLifecycleListener("disconnect", listener as () => void);
+        return;
+
       default:
         throw new StarciteError(`Unsupported event name '${eventName}'`);
     }
@@ -358,6 +743,22 @@ export class StarciteSession implements SessionHandle {
     };
   }
 
+  private onDisconnect(listener: () => void): () => void {
+    if (!this.disconnected) {
+      return this.addLifecycleListener("disconnect", listener);
+    }
+
+    let removed = false;
+    queueMicrotask(() => {
+      if (!removed) {
+        listener();
+      }
+    });
+    return () => {
+      removed = true;
+    };
+  }
+
   private addLifecycleListener(
     eventName: SessionLifecycleListenerName,
     listener: SessionLifecycleListener
@@ -395,16 +796,45 @@ export class StarciteSession implements SessionHandle {
 
   /**
    * Stops tailing and removes listeners registered via `on()`.
+   *
+   * For a session handed out by `starcite.session(...)`, this removes the
+   * caller's own listeners and releases its reference; the session itself
+   * stops once the client disposes it.
    */
   disconnect(): void {
+    if (this.disconnected) {
+      return;
+    }
+
+    this.disconnected = true;
     this.keepTailAttached = false;
+    clearTimeout(this.tokenRefreshTimer);
+    this.tokenRefreshTimer = undefined;
+    clearTimeout(this.storeLockRetryTimer);
+    this.storeLockRetryTimer = undefined;
+    this.unsubscribeConnectivity?.();
+    this.unsubscribeConnectivity = undefined;
+    this.unsubscribeConnection();
+    for (const projection of this.projections.values()) {
+      projection.dispose();
+    }
+    if (this.projectionPersistTimer) {
+      clearTimeout(this.projectionPersistTimer);
+      this.projectionPersistTimer = undefined;
+      this.persistStoredState();
+    }
     this.outbox.stop();
     for (const dispatch of this.eventDispatchers.values()) {
       this.history.unobserve(dispatch);
     }
     this.eventDispatchers.clear();
     this.detachTailChannel();
+    for (const socketManager of this.backfillSocketManagers) {
+      socketManager.disconnectIfIdle();
+    }
+    this.lifecycle.emit("disconnect");
     this.lifecycle.removeAllListeners();
+    this.releaseStoreLock();
   }
 
   /**
@@ -428,6 +858,30 @@ export class StarciteSession implements SessionHandle {
     this.outbox.reset();
   }
 
+  /**
+   * Switches to `token` when it is a later-expiring token for this session
+   * and identity, e.g. one passed to a later `starcite.session({ token })`
+   * call that shares this session. Other tokens are ignored.
+   */
+  adoptToken(token: string): void {
+    if (this.disconnected || token === this.currentToken) {
+      return;
+    }
+
+    const currentExpiry = readTokenExpiry(this.currentToken);
+    const nextExpiry = readTokenExpiry(token);
+    if (
+      currentExpiry === undefined ||
+      nextExpiry === undefined ||
+      nextExpiry <= currentExpiry
+    ) {
+      return;
+    }
+
+    this.applyTokenBinding(token);
+    this.reconcileChannelAttachment();
+  }
+
   /**
    * Requests a fresh session token through the configured refresh handler.
    */
@@ -448,9 +902,15 @@ export class StarciteSession implements SessionHandle {
    * Returns a stable view of the current canonical in-memory event state.
    */
   state(): SessionSnapshot {
+    const historyState = this.history.state(
+      this.closeTailChannel !== undefined
+    );
     return {
-      ...this.history.state(this.closeTailChannel !== undefined),
+      ...historyState,
       append: this.outbox.state(),
+      optimisticEvents: this.optimisticEvents(historyState.events),
+      offline: this.offline,
+      connection: this.transport.socketManager.connectionState(),
     };
   }
 
@@ -458,6 +918,19 @@ export class StarciteSession implements SessionHandle {
     fromSeq: number,
     toSeq: number,
     requestOptions?: RequestOptions
+  ): Promise<readonly TailEvent[]> {
+    const releasePin = this.history.pin(fromSeq, toSeq);
+    try {
+      return await this.readPinnedRange(fromSeq, toSeq, requestOptions);
+    } finally {
+      releasePin();
+    }
+  }
+
+  private async readPinnedRange(
+    fromSeq: number,
+    toSeq: number,
+    requestOptions?: RequestOptions
   ): Promise<readonly TailEvent[]> {
     while (true) {
       const missingRange = this.history.firstMissingRange(fromSeq, toSeq);
@@ -465,14 +938,35 @@ export class StarciteSession implements SessionHandle {
         return this.history.readRange(fromSeq, toSeq);
       }
 
-      const existingJob = this.backfillJobs.find((job) => {
-        return (
+      // A range that continues a running replay is folded into it, and one
+      // that overlaps a running replay waits for it. Disjoint ranges replay
+      // in parallel, up to `RANGE_BACKFILL_MAX_JOBS` at a time.
+      const relatedJob = [...this.backfillJobs].find(
+        (job) =>
           job.fromSeq <= missingRange.toSeq &&
           job.toSeq + 1 >= missingRange.fromSeq
+      );
+      if (relatedJob) {
+        if (
+          !relatedJob.finished &&
+          relatedJob.fromSeq <= missingRange.fromSeq
+        ) {
+          relatedJob.toSeq = Math.max(relatedJob.toSeq, missingRange.toSeq);
+        }
+
+        await this.awaitJob(relatedJob.promise, requestOptions?.signal);
+        continue;
+      }
+
+      if (this.backfillJobs.size >= RANGE_BACKFILL_MAX_JOBS) {
+        await this.awaitJob(
+          Promise.race(
+            [...this.backfillJobs].map((job) =>
+              job.promise.catch(() => undefined)
+            )
+          ),
+          requestOptions?.signal
         );
-      });
-      if (existingJob) {
-        await this.awaitJob(existingJob.promise, requestOptions?.signal);
         continue;
       }
 
@@ -480,17 +974,229 @@ export class StarciteSession implements SessionHandle {
         missingRange.fromSeq,
         missingRange.toSeq
       );
-      this.backfillJobs.push(job);
+      this.backfillJobs.add(job);
+      const releaseJob = (): void => {
+        this.backfillJobs.delete(job);
+        if (job.socketManager === this.transport.socketManager) {
+          this.reconcileChannelAttachment();
+        }
+      };
+      job.promise.then(releaseJob, releaseJob);
 
-      try {
-        await this.awaitJob(job.promise, requestOptions?.signal);
-      } finally {
-        const jobIndex = this.backfillJobs.indexOf(job);
-        if (jobIndex >= 0) {
-          this.backfillJobs.splice(jobIndex, 1);
+      await this.awaitJob(job.promise, requestOptions?.signal);
+    }
+  }
+
+  private async *streamEvents(
+    options: SessionStreamOptions,
+    failOnSessionError = true
+  ): AsyncGenerator<TailEvent> {
+    await this.ready();
+
+    const replayOnly = options.phase === "replay";
+    let nextSeq = options.fromSeq ?? (replayOnly ? 1 : undefined);
+    if (nextSeq === undefined && this.history.lastSeq > 0) {
+      nextSeq = this.history.lastSeq + 1;
+    }
+
+    const cursor: SessionStreamCursor = {
+      nextSeq,
+      replayHead: replayOnly ? this.history.lastSeq : undefined,
+      backfilled: new Map(),
+    };
+    const watch = this.watchStream(
+      options.signal,
+      !replayOnly,
+      failOnSessionError
+    );
+    try {
+      while (true) {
+        const event = await this.pullStreamEvent(cursor, watch, options.signal);
+        if (!event) {
+          return;
         }
+
+        if (!options.filter || options.filter(event)) {
+          yield event;
+        }
+      }
+    } catch (error) {
+      if (!watch.ended) {
+        throw error;
+      }
+    } finally {
+      watch.close();
+    }
+  }
+
+  /**
+   * Resolves the event at `cursor.nextSeq` and advances the cursor, reading
+   * local history first and backfilling or waiting for the tail otherwise.
+   * Resolves `undefined` once the stream has ended.
+   */
+  private async pullStreamEvent(
+    cursor: SessionStreamCursor,
+    watch: SessionStreamWatch,
+    signal: AbortSignal | undefined
+  ): Promise<TailEvent | undefined> {
+    while (!watch.ended) {
+      if (watch.failure) {
+        throw watch.failure;
+      }
+
+      cursor.nextSeq ??= watch.firstLiveSeq;
+      const headSeq = cursor.replayHead ?? this.history.lastSeq;
+      if (cursor.nextSeq === undefined || cursor.nextSeq > headSeq) {
+        if (cursor.replayHead !== undefined) {
+          return undefined;
+        }
+
+        await watch.next();
+        continue;
+      }
+
+      const seq = cursor.nextSeq;
+      const event = this.history.eventAt(seq) ?? cursor.backfilled.get(seq);
+      if (event) {
+        cursor.nextSeq = seq + 1;
+        return event;
       }
+
+      const toSeq = Math.min(headSeq, seq + STREAM_BACKFILL_CHUNK_SIZE - 1);
+      const events = await this.range(seq, toSeq, { signal });
+      cursor.backfilled = new Map(events.map((item) => [item.seq, item]));
     }
+
+    return undefined;
+  }
+
+  /**
+   * Tracks what a pending stream iteration can wake up on: abort, disconnect,
+   * session errors, and (for live streams) newly observed events.
+   */
+  private watchStream(
+    signal: AbortSignal | undefined,
+    live: boolean,
+    failOnSessionError: boolean
+  ): SessionStreamWatch {
+    let wake: (() => void) | undefined;
+    const notify = () => {
+      const resolve = wake;
+      wake = undefined;
+      resolve?.();
+    };
+
+    const cleanups: (() => void)[] = [];
+    const watch: SessionStreamWatch = {
+      ended: this.disconnected || (signal?.aborted ?? false),
+      next: () =>
+        new Promise<void>((resolve) => {
+          wake = resolve;
+        }),
+      close: () => {
+        for (const cleanup of cleanups.splice(0)) {
+          cleanup();
+        }
+      },
+    };
+    const end = () => {
+      watch.ended = true;
+      notify();
+    };
+
+    signal?.addEventListener("abort", end, { once: true });
+    cleanups.push(() => signal?.removeEventListener("abort", end));
+    if (!live || watch.ended) {
+      return watch;
+    }
+
+    this.lifecycle.on("disconnect", end);
+    cleanups.push(() => this.lifecycle.off("disconnect", end));
+    if (failOnSessionError) {
+      cleanups.push(
+        this.on("error", (error) => {
+          watch.failure ??= error;
+          notify();
+        })
+      );
+    }
+    cleanups.push(
+      this.on("event", (event) => {
+        watch.firstLiveSeq ??= event.seq;
+        notify();
+      })
+    );
+
+    return watch;
+  }
+
+  private waitForLiveEvent(
+    predicate: (event: TailEvent) => boolean,
+    options: SessionWaitForOptions
+  ): Promise<TailEvent> {
+    const { signal, timeoutMs } = options;
+    if (this.disconnected) {
+      return Promise.reject(
+        new StarciteError("Session waitFor requires a connected session.")
+      );
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(new StarciteError("Session waitFor aborted."));
+    }
+
+    return new Promise<TailEvent>((resolve, reject) => {
+      const cleanups: (() => void)[] = [];
+      const settle = (complete: () => void) => {
+        for (const cleanup of cleanups.splice(0)) {
+          cleanup();
+        }
+        complete();
+      };
+
+      const onAbort = () => {
+        settle(() => reject(new StarciteError("Session waitFor aborted.")));
+      };
+      const onDisconnect = () => {
+        settle(() =>
+          reject(
+            new StarciteError("Session disconnected before waitFor matched.")
+          )
+        );
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.lifecycle.on("disconnect", onDisconnect);
+      cleanups.push(
+        () => signal?.removeEventListener("abort", onAbort),
+        () => this.lifecycle.off("disconnect", onDisconnect)
+      );
+
+      if (timeoutMs !== undefined) {
+        const timer = setTimeout(() => {
+          settle(() =>
+            reject(
+              new StarciteTimeoutError(
+                `Session waitFor timed out after ${timeoutMs}ms.`,
+                { sessionId: this.id, timeoutMs }
+              )
+            )
+          );
+        }, timeoutMs);
+        cleanups.push(() => clearTimeout(timer));
+      }
+
+      cleanups.push(
+        this.on("error", (error) => {
+          settle(() => reject(error));
+        }),
+        this.on("event", (event) => {
+          if (predicate(event)) {
+            settle(() => resolve(event));
+          }
+        })
+      );
+    });
   }
 
   private parseOnEvent<TEvent extends TailEvent>(
@@ -539,6 +1245,42 @@ export class StarciteSession implements SessionHandle {
     });
   }
 
+  private optimisticEvents(
+    events: readonly TailEvent[]
+  ): readonly SessionOptimisticEvent[] {
+    const pending = this.outbox.pendingEvents(this.identity.toActor());
+    if (pending.length === 0) {
+      this.optimisticView = undefined;
+      return events;
+    }
+
+    const pendingKey = pending
+      .map((event) => `${event.localId}:${event.status}`)
+      .join(",");
+    if (
+      this.optimisticView?.events !== events ||
+      this.optimisticView.pendingKey !== pendingKey
+    ) {
+      this.optimisticView = {
+        events,
+        pendingKey,
+        view: mergeOptimisticEvents(events, pending),
+      };
+    }
+
+    return this.optimisticView.view;
+  }
+
+  /**
+   * Settles acknowledged appends once the timeline has reached their seqs.
+   * The event itself may never be readable: retention can evict it, and a
+   * `live_only` join or a gap can skip it.
+   */
+  private settleAcknowledgedAppends(): boolean {
+    const { lastSeq } = this.history;
+    return this.outbox.settleAcknowledged((seq) => seq <= lastSeq);
+  }
+
   private emitStateChange(): void {
     const listeners = this.lifecycle.listeners(
       "state"
@@ -561,6 +1303,7 @@ export class StarciteSession implements SessionHandle {
     return (
       this.keepTailAttached ||
       this.outbox.pendingCount > 0 ||
+      this.outbox.awaitingCommitCount > 0 ||
       this.eventDispatchers.size > 0 ||
       this.lifecycle.listenerCount("gap") > 0 ||
       this.lifecycle.listenerCount("state") > 0
@@ -579,8 +1322,11 @@ export class StarciteSession implements SessionHandle {
   private ensureChannelAttached(): void {
     if (
       this.closeTailChannel ||
+      this.offline ||
       !this.shouldKeepChannelAttached() ||
-      this.authRefreshTask
+      this.authRefreshTask ||
+      this.restoreTask ||
+      this.isTailSocketBackfilling()
     ) {
       return;
     }
@@ -591,7 +1337,9 @@ export class StarciteSession implements SessionHandle {
         params: () => this.tailChannelParams(),
       });
     const channel = managedChannel.channel;
+    const attachedToken = this.currentToken;
     const unbind = this.bindTailChannel(channel, {
+      source: "tail",
       onEvents: (events) => {
         try {
           const appliedEvents = this.history.applyLiveBatch(
@@ -600,10 +1348,10 @@ export class StarciteSession implements SessionHandle {
           );
           this.nextTailBatchCursor = events.at(-1)?.cursor;
           if (appliedEvents.length > 0) {
-            this.outbox.reconcileWithCommittedEvents(
-              appliedEvents,
-              this.history.lastSeq
-            );
+            this.outbox.reconcileWithCommittedEvents(appliedEvents);
+            if (this.settleAcknowledgedAppends()) {
+              this.detachTailChannelIfIdle();
+            }
             this.persistStoredState();
             this.emitStateChange();
           }
@@ -625,9 +1373,18 @@ export class StarciteSession implements SessionHandle {
         channel.rejoin();
       },
       onTokenExpired: () => {
+        if (this.currentToken !== attachedToken) {
+          // A proactive refresh already swapped in a newer token; reconnect
+          // with it instead of asking for another one.
+          this.detachTailChannel();
+          this.ensureChannelAttached();
+          return;
+        }
+
         const error = new StarciteTokenExpiredError(
           `Tail token expired for session '${this.id}'. Re-issue a session token and reconnect from the last processed cursor.`,
           {
+            ...connectionErrorDetails(this.transport.socketManager),
             closeReason: "token_expired",
             sessionId: this.id,
           }
@@ -643,16 +1400,42 @@ export class StarciteSession implements SessionHandle {
       managedChannel.close();
     };
 
-    channel.join().receive("error", (payload) => {
-      const error = new StarciteTailError(
-        `Tail connection failed for session '${this.id}': ${readJoinFailureReason(payload)}`,
-        {
-          sessionId: this.id,
-          stage: "connect",
-        }
-      );
-      this.emitStreamError(error);
-    });
+    channel
+      .join()
+      .receive("ok", () => {
+        this.instrumentJoin(true);
+      })
+      .receive("error", (payload) => {
+        this.instrumentJoin(false, payload);
+        const error = new StarciteTailError(
+          `Tail connection failed for session '${this.id}': ${readJoinFailureReason(payload)}`,
+          {
+            ...connectionErrorDetails(this.transport.socketManager),
+            sessionId: this.id,
+            stage: "connect",
+          }
+        );
+        this.emitStreamError(error);
+      });
+  }
+
+  /**
+   * Detaches the tail while offline and reattaches from the last observed
+   * cursor once connectivity returns; the outbox holds appends in between.
+   */
+  private handleConnectivityChange(online: boolean): void {
+    if (this.disconnected || this.offline === !online) {
+      return;
+    }
+
+    this.offline = !online;
+    this.outbox.setOnline(online);
+    if (online) {
+      this.reconcileChannelAttachment();
+    } else {
+      this.detachTailChannel();
+    }
+    this.emitStateChange();
   }
 
   private detachTailChannelIfIdle(): void {
@@ -670,6 +1453,31 @@ export class StarciteSession implements SessionHandle {
   }
 
   private tailChannelParams(): Record<string, unknown> {
+    return this.channelJoinParams(
+      this.transport.socketManager,
+      this.tailCursorParams()
+    );
+  }
+
+  /**
+   * Join params for a `tail:<id>` channel on `socketManager`.
+   *
+   * The shared client socket authenticates with the API key, so channels on
+   * it also send the session token as a `token` join param, which the server
+   * checks to authorize that one channel. Session sockets already carry the
+   * token in their connect params.
+   */
+  private channelJoinParams(
+    socketManager: SocketManager,
+    params: Record<string, unknown>
+  ): Record<string, unknown> {
+    return this.transport.sharedSocket &&
+      socketManager === this.transport.socketManager
+      ? { ...params, token: this.currentToken }
+      : params;
+  }
+
+  private tailCursorParams(): Record<string, unknown> {
     if (this.history.cursor !== undefined) {
       this.nextTailBatchCursor = this.history.cursor;
       return { cursor: this.history.cursor };
@@ -695,33 +1503,37 @@ export class StarciteSession implements SessionHandle {
   ): SessionRangeBackfillJob {
     const anchor = this.history.anchorBeforeSeq(fromSeq);
     let currentCursor = anchor.cursor;
-    const socketManager = new SocketManager({
-      socketUrl: `${toWebSocketBaseUrl(this.transport.baseUrl)}/socket`,
-      token: this.currentToken,
-    });
+    const socketManager = this.rangeBackfillSocketManager();
     const managedChannel = socketManager.openChannel<RejoinableChannel>({
       topic: `tail:${this.id}`,
-      params: () => ({ cursor: currentCursor }),
+      params: () =>
+        this.channelJoinParams(socketManager, { cursor: currentCursor }),
     });
     const channel = managedChannel.channel;
+    const job: SessionRangeBackfillJob = {
+      fromSeq,
+      toSeq,
+      finished: false,
+      promise: Promise.resolve(),
+      socketManager,
+    };
 
     let observedSeq = anchor.seq;
     let pendingGapAfterSeq: number | undefined;
-    let finished = false;
     let unbind: (() => void) | undefined;
 
     const finish = (callback: () => void): void => {
-      if (finished) {
+      if (job.finished) {
         return;
       }
 
-      finished = true;
+      job.finished = true;
       unbind?.();
       managedChannel.close();
       callback();
     };
 
-    const promise = new Promise<void>((resolve, reject) => {
+    job.promise = new Promise<void>((resolve, reject) => {
       const resolveBackfill = (): void => {
         finish(resolve);
       };
@@ -732,6 +1544,7 @@ export class StarciteSession implements SessionHandle {
       };
 
       unbind = this.bindTailChannel(channel, {
+        source: "backfill",
         onEvents: (batch) => {
           if (batch.length === 0) {
             return;
@@ -755,15 +1568,15 @@ export class StarciteSession implements SessionHandle {
               pendingGapAfterSeq,
               batch,
               fromSeq,
-              toSeq
+              job.toSeq
             )
           ) {
-            failBackfill(this.rangeBackfillGapError(fromSeq, toSeq));
+            failBackfill(this.rangeBackfillGapError(fromSeq, job.toSeq));
             return;
           }
 
           pendingGapAfterSeq = undefined;
-          if (this.history.isRangeCovered(fromSeq, toSeq)) {
+          if (this.history.isRangeCovered(fromSeq, job.toSeq)) {
             resolveBackfill();
           }
         },
@@ -781,6 +1594,7 @@ export class StarciteSession implements SessionHandle {
             new StarciteTokenExpiredError(
               `Tail replay token expired for session '${this.id}'.`,
               {
+                ...connectionErrorDetails(socketManager),
                 closeReason: "token_expired",
                 sessionId: this.id,
               }
@@ -789,35 +1603,92 @@ export class StarciteSession implements SessionHandle {
         },
       });
 
-      channel.join().receive("error", (payload) => {
-        failBackfill(
-          new StarciteTailError(
-            `Tail replay failed for session '${this.id}': ${readJoinFailureReason(payload)}`,
-            {
-              sessionId: this.id,
-              stage: "connect",
-            }
-          )
-        );
-      });
+      channel
+        .join()
+        .receive("ok", () => {
+          this.instrumentJoin(true);
+        })
+        .receive("error", (payload) => {
+          this.instrumentJoin(false, payload);
+          failBackfill(
+            new StarciteTailError(
+              `Tail replay failed for session '${this.id}': ${readJoinFailureReason(payload)}`,
+              {
+                ...connectionErrorDetails(socketManager),
+                sessionId: this.id,
+                stage: "connect",
+              }
+            )
+          );
+        });
     });
 
-    return {
-      fromSeq,
-      toSeq,
-      promise,
-    };
+    return job;
+  }
+
+  /**
+   * Socket for a new range backfill job.
+   *
+   * Phoenix allows one joined channel per topic and socket, so each running
+   * job needs a socket without a `tail:<id>` channel. The socket the live
+   * tail uses, the session's own or the shared client socket, is used while
+   * the tail is detached; otherwise an idle backfill socket is reused or a
+   * new one opened. Backfill sockets linger between jobs so repeated
+   * `range()` calls reuse them.
+   */
+  private rangeBackfillSocketManager(): SocketManager {
+    const busy = new Set(
+      [...this.backfillJobs].map((job) => job.socketManager)
+    );
+    const tailSocket = this.transport.socketManager;
+    if (!(this.closeTailChannel || busy.has(tailSocket))) {
+      return tailSocket;
+    }
+
+    const idle = this.backfillSocketManagers.find(
+      (socketManager) => !busy.has(socketManager)
+    );
+    if (idle) {
+      return idle;
+    }
+
+    const socketManager = new SocketManager({
+      socketUrl: `${toWebSocketBaseUrl(this.transport.baseUrl)}/socket`,
+      token: this.currentToken,
+      idleDisconnectMs: RANGE_BACKFILL_SOCKET_IDLE_MS,
+    });
+    this.backfillSocketManagers.push(socketManager);
+    return socketManager;
+  }
+
+  /**
+   * Whether a range backfill holds `tail:<id>` on the session's own socket,
+   * in which case the live tail waits for it to finish before attaching.
+   */
+  private isTailSocketBackfilling(): boolean {
+    return [...this.backfillJobs].some(
+      (job) => job.socketManager === this.transport.socketManager
+    );
   }
 
   private bindTailChannel(
     channel: RejoinableChannel,
     bindings: TailChannelBindings
   ): () => void {
+    const instrumentation = this.transport.instrumentation;
     const eventsBindingRef = bindings.onEvents
       ? channel.on("events", (payload) => {
           const result = TailEventsPayloadSchema.safeParse(payload);
           if (result.success) {
-            bindings.onEvents?.(result.data.events);
+            const events = result.data.events;
+            instrument(instrumentation, "onTailBatch", {
+              sessionId: this.id,
+              source: bindings.source,
+              count: events.length,
+              firstSeq: events[0]?.seq,
+              lastSeq: events.at(-1)?.seq,
+            });
+            bindings.onEvents?.(events);
           }
         })
       : 0;
@@ -825,6 +1696,11 @@ export class StarciteSession implements SessionHandle {
       ? channel.on("gap", (payload) => {
           const result = TailGapSchema.safeParse(payload);
           if (result.success) {
+            instrument(instrumentation, "onGap", {
+              sessionId: this.id,
+              source: bindings.source,
+              gap: result.data,
+            });
             bindings.onGap?.(result.data);
           }
         })
@@ -851,10 +1727,70 @@ export class StarciteSession implements SessionHandle {
     };
   }
 
+  private instrumentJoin(ok: boolean, payload?: unknown): void {
+    instrument(this.transport.instrumentation, "onJoin", {
+      topic: `tail:${this.id}`,
+      sessionId: this.id,
+      ok,
+      reason: ok ? undefined : readJoinFailureReason(payload),
+    });
+  }
+
+  /**
+   * Refreshes the token a margin before its `exp` claim. The new token is
+   * swapped in without detaching the tail, so the live channel and the
+   * outbox keep running.
+   */
+  private scheduleTokenRefresh(): void {
+    clearTimeout(this.tokenRefreshTimer);
+    this.tokenRefreshTimer = undefined;
+
+    const expiresAtMs = readTokenExpiry(this.currentToken);
+    if (
+      this.tokenRefreshMarginMs === false ||
+      !this.refreshTokenHandler ||
+      this.disconnected ||
+      expiresAtMs === undefined
+    ) {
+      return;
+    }
+
+    const remainingMs = expiresAtMs - Date.now();
+    if (remainingMs <= 0) {
+      return;
+    }
+
+    // Short-lived tokens refresh halfway through their lifetime instead of
+    // immediately, so a margin longer than the token lifetime cannot loop.
+    const delayMs = Math.max(
+      remainingMs - this.tokenRefreshMarginMs,
+      remainingMs / 2
+    );
+    // Timers fire immediately past 2^31-1 ms, so far-off refreshes wait in
+    // steps and re-check.
+    const dueLater = delayMs > MAX_TIMER_DELAY_MS;
+    this.tokenRefreshTimer = setTimeout(
+      () => {
+        this.tokenRefreshTimer = undefined;
+        if (dueLater) {
+          this.scheduleTokenRefresh();
+          return;
+        }
+
+        this.refreshAuthInternal("expiring", undefined, {
+          emitFailure: true,
+          keepTail: true,
+        }).catch(() => undefined);
+      },
+      Math.min(delayMs, MAX_TIMER_DELAY_MS)
+    );
+    (this.tokenRefreshTimer as { unref?: () => void }).unref?.();
+  }
+
   private refreshAuthInternal(
     reason: SessionTokenRefreshReason,
     error: Error | undefined,
-    options: { emitFailure: boolean }
+    options: { emitFailure: boolean; keepTail?: boolean }
   ): Promise<void> {
     const refreshHandler = this.refreshTokenHandler;
     if (!refreshHandler) {
@@ -873,8 +1809,11 @@ export class StarciteSession implements SessionHandle {
       return this.authRefreshTask;
     }
 
-    this.detachTailChannel();
+    if (!options.keepTail) {
+      this.detachTailChannel();
+    }
     let refreshed = false;
+    const startedAtMs = Date.now();
 
     const task = Promise.resolve()
       .then(() =>
@@ -886,12 +1825,25 @@ export class StarciteSession implements SessionHandle {
         })
       )
       .then((nextToken) => {
-        this.applyTokenBinding(nextToken);
+        this.applyTokenBinding(nextToken, { keepTail: options.keepTail });
         this.outbox.ensureProcessing();
         refreshed = true;
+        instrument(this.transport.instrumentation, "onAuthRefresh", {
+          sessionId: this.id,
+          reason,
+          durationMs: Date.now() - startedAtMs,
+          ok: true,
+        });
       })
       .catch((refreshError) => {
         const authError = this.toError(refreshError);
+        instrument(this.transport.instrumentation, "onAuthRefresh", {
+          sessionId: this.id,
+          reason,
+          durationMs: Date.now() - startedAtMs,
+          ok: false,
+          error: authError,
+        });
         if (options.emitFailure) {
           this.emitStreamError(authError);
         }
@@ -910,7 +1862,10 @@ export class StarciteSession implements SessionHandle {
     return task;
   }
 
-  private applyTokenBinding(token: string): void {
+  private applyTokenBinding(
+    token: string,
+    options: { keepTail?: boolean } = {}
+  ): void {
     const decoded = decodeSessionToken(token);
     if (!decoded.sessionId) {
       throw new StarciteError(
@@ -926,36 +1881,162 @@ export class StarciteSession implements SessionHandle {
 
     this.currentToken = token;
     this.currentIdentity = decoded.identity;
+    this.currentCapabilities = sessionCapabilities(decoded.scopes);
     this.transport.bearerToken = token;
-    this.transport.socketManager.setToken(token);
-    this.detachTailChannel();
+    if (!this.transport.sharedSocket) {
+      this.transport.socketManager.setToken(token);
+    }
+    for (const socketManager of this.backfillSocketManagers) {
+      socketManager.setToken(token);
+      socketManager.disconnectIfIdle();
+    }
+    if (!options.keepTail) {
+      this.detachTailChannel();
+    }
+    this.scheduleTokenRefresh();
+  }
+
+  private checkAppendAllowed(): StarciteAuthorizationError | undefined {
+    if (this.currentCapabilities.append) {
+      return undefined;
+    }
+
+    return new StarciteAuthorizationError(
+      `Session token for '${this.id}' does not grant the 'session:append' scope.`,
+      { sessionId: this.id, requiredScope: "session:append" }
+    );
   }
 
   private toError(error: unknown): Error {
     return error instanceof Error ? error : new StarciteError(String(error));
   }
 
-  private readStoredState(): ReturnType<typeof decodeSessionStoreValue> {
+  private readStoredValue(): string | undefined | Promise<string | undefined> {
     if (!this.sessionStore) {
       return undefined;
     }
 
     try {
-      const storedValue = this.sessionStore.read(this.id);
-      if (storedValue === undefined) {
-        return undefined;
-      }
+      const storedValue = readSessionStoreValue(this.sessionStore, this.id);
+      return storedValue instanceof Promise
+        ? storedValue.catch(() => undefined)
+        : storedValue;
+    } catch {
+      return undefined;
+    }
+  }
 
-      const storedState = decodeSessionStoreValue(storedValue);
-      if (storedState) {
-        return storedState;
-      }
+  private async acquireStoreLock(): Promise<void> {
+    const store = this.sessionStore;
+    if (!(store && "lock" in store && store.lock)) {
+      return;
+    }
 
-      this.clearStoredState();
-      return undefined;
+    let lock: SessionStoreLock | undefined;
+    try {
+      lock = await store.lock(this.id);
     } catch {
+      lock = undefined;
+    }
+
+    if (!lock) {
+      this.ownsStore = false;
+      this.scheduleStoreLockRetry();
+      return;
+    }
+
+    this.storeLock = lock;
+    if (this.disconnected) {
+      this.releaseStoreLock();
+    }
+  }
+
+  /**
+   * Keeps asking for the store lock while another holder has it, so this
+   * session takes over once that holder releases it or its lock goes stale.
+   */
+  private scheduleStoreLockRetry(): void {
+    if (this.disconnected) {
+      return;
+    }
+
+    this.storeLockRetryTimer = setTimeout(() => {
+      this.storeLockRetryTimer = undefined;
+      this.takeOverStore().catch(() => undefined);
+    }, STORE_LOCK_RETRY_MS);
+    (this.storeLockRetryTimer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Becomes the store owner after a retried lock succeeds. With nothing queued
+   * locally, the previous holder's unsent appends are restored and sent.
+   */
+  private async takeOverStore(): Promise<void> {
+    await this.acquireStoreLock();
+    if (!this.storeLock || this.disconnected) {
+      return;
+    }
+
+    const storedValue =
+      this.outbox.pendingCount === 0 ? await this.readStoredValue() : undefined;
+    if (this.disconnected) {
+      return;
+    }
+
+    const storedOutbox = this.decodeStoredState(storedValue)?.outbox;
+    this.ownsStore = true;
+    if (storedOutbox?.pending.length && this.outbox.pendingCount === 0) {
+      this.outbox.restoreState(storedOutbox);
+      this.outbox.reconcileWithCommittedEvents(this.history.events);
+      this.reconcileChannelAttachment();
+      this.outbox.ensureProcessing();
+    }
+    this.persistStoredState();
+    this.emitStateChange();
+  }
+
+  private releaseStoreLock(): void {
+    const lock = this.storeLock;
+    if (!lock) {
+      return;
+    }
+
+    this.storeLock = undefined;
+    this.flushStore()
+      .then(() => lock.release())
+      .catch(() => undefined);
+  }
+
+  private restoreFromStoredValue(storedValue: string | undefined): void {
+    const storedState = this.decodeStoredState(storedValue);
+    if (!this.restoreStoredState(storedState)) {
+      return;
+    }
+
+    if (storedState?.outbox && this.ownsStore) {
+      this.outbox.restoreState(storedState.outbox);
+    }
+    const pendingBefore = this.outbox.pendingCount;
+    this.outbox.reconcileWithCommittedEvents(this.history.events);
+    if (this.outbox.pendingCount !== pendingBefore) {
+      this.persistStoredState();
+    }
+  }
+
+  private decodeStoredState(
+    storedValue: string | undefined
+  ): ReturnType<typeof decodeSessionStoreValue> {
+    if (storedValue === undefined) {
       return undefined;
     }
+
+    const storedState = decodeSessionStoreValue(storedValue);
+    if (storedState) {
+      return storedState;
+    }
+
+    this.clearStoredState();
+    return undefined;
   }
 
   private restoreStoredState(
@@ -967,6 +2048,11 @@ export class StarciteSession implements SessionHandle {
 
     try {
       this.history.restore(storedState);
+      for (const [key, snapshot] of Object.entries(
+        storedState.projections ?? {}
+      )) {
+        this.projectionSnapshots.set(key, snapshot);
+      }
       return true;
     } catch {
       this.clearStoredState();
@@ -975,34 +2061,61 @@ export class StarciteSession implements SessionHandle {
   }
 
   private persistStoredState(): void {
-    if (!this.sessionStore) {
+    if (!(this.storeWriter && this.ownsStore)) {
       return;
     }
 
+    if (this.restoreTask) {
+      this.persistAfterRestore = true;
+      return;
+    }
+
+    let value: string;
     try {
-      this.sessionStore.write(
-        this.id,
-        encodeSessionStoreValue({
-          timeline: this.history.snapshot(),
-          outbox: this.outbox.serializeState(),
-        })
-      );
+      value = encodeSessionStoreValue({
+        timeline: this.history.snapshot(),
+        outbox: this.outbox.serializeState(),
+        projections:
+          this.projectionSnapshots.size > 0
+            ? Object.fromEntries(this.projectionSnapshots)
+            : undefined,
+      });
     } catch (error) {
-      const storeError = new StarciteError(
-        `Session store write failed for session '${this.id}': ${error instanceof Error ? error.message : String(error)}`
-      );
+      this.emitStoreWriteError(error);
+      return;
+    }
 
-      if (this.lifecycle.listenerCount("error") > 0) {
-        this.lifecycle.emit("error", storeError);
-      }
+    this.storeWriter.write(value);
+  }
+
+  /**
+   * Coalesces projection snapshot writes so folding a backfilled chunk
+   * persists once rather than once per event.
+   */
+  private scheduleProjectionPersist(): void {
+    if (this.projectionPersistTimer || !this.storeWriter) {
+      return;
+    }
+
+    this.projectionPersistTimer = setTimeout(() => {
+      this.projectionPersistTimer = undefined;
+      this.persistStoredState();
+    }, 0);
+  }
+
+  private emitStoreWriteError(error: unknown): void {
+    const storeError = new StarciteError(
+      `Session store write failed for session '${this.id}': ${error instanceof Error ? error.message : String(error)}`
+    );
+
+    if (this.lifecycle.listenerCount("error") > 0) {
+      this.lifecycle.emit("error", storeError);
     }
   }
 
   private clearStoredState(): void {
-    try {
-      this.sessionStore?.clear?.(this.id);
-    } catch {
-      // Ignore store-clear failures; the live stream can still recover state.
+    if (this.ownsStore) {
+      this.storeWriter?.clear();
     }
   }
 
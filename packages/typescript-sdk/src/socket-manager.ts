@@ -1,8 +1,14 @@
-import type { Channel } from "phoenix";
+import type { Channel, MessageRef } from "phoenix";
 import { Socket } from "phoenix";
+import type {
+  StarciteConnectionListener,
+  StarciteConnectionState,
+} from "./types";
 
 type ChannelParams = Record<string, unknown> | (() => Record<string, unknown>);
 
+const NORMAL_CLOSE_CODE = 1000;
+
 export interface ManagedChannel<TChannel extends Channel = Channel> {
   channel: TChannel;
   close: () => void;
@@ -34,28 +40,72 @@ export function readJoinFailureReason(payload: unknown): string {
   return "join failed";
 }
 
+function readSocketErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  if (typeof error === "string" && error.length > 0) {
+    return error;
+  }
+
+  return "WebSocket error";
+}
+
+/**
+ * Connection details attached to tail errors raised over a managed socket.
+ */
+export function connectionErrorDetails(socketManager: SocketManager): {
+  attempts: number;
+  closeCode?: number;
+  closeReason?: string;
+} {
+  const { attempts, closeCode, closeReason } = socketManager.connectionState();
+  return { attempts, closeCode, closeReason };
+}
+
 /**
  * Manages multiple channels connected to a single socket. The socket
  * itself is held open until each channel is _manually_ closed (need to be
  * careful here). The socket is lazy opened on first use.
+ *
+ * With `idleDisconnectMs`, the socket lingers for that long after the last
+ * channel closes so short-lived channels opened in bursts reuse it.
  */
 export class SocketManager {
   private activeChannelCount = 0;
   private readonly socketUrl: string;
   private token: string | undefined;
   private socket: Socket | undefined;
+  private socketRefs: MessageRef[] = [];
+  private connection: StarciteConnectionState = {
+    status: "closed",
+    attempts: 0,
+  };
+  private readonly connectionListeners = new Set<StarciteConnectionListener>();
+  private readonly idleDisconnectMs: number;
+  private idleDisconnectTimer: ReturnType<typeof setTimeout> | undefined;
 
-  constructor(input: { socketUrl: string; token: string | undefined }) {
+  constructor(input: {
+    socketUrl: string;
+    token: string | undefined;
+    idleDisconnectMs?: number;
+  }) {
     this.socketUrl = input.socketUrl;
     this.token = input.token;
+    this.idleDisconnectMs = input.idleDisconnectMs ?? 0;
   }
 
   openChannel<TChannel extends Channel = Channel>(input: {
     params?: ChannelParams;
     topic: string;
   }): ManagedChannel<TChannel> {
+    this.clearIdleDisconnect();
     const socket = this.ensureSocket();
     if (!socket.isConnected()) {
+      if (this.connection.status === "closed") {
+        this.updateConnection({ ...this.connection, status: "connecting" });
+      }
       socket.connect();
     }
 
@@ -82,16 +132,74 @@ export class SocketManager {
     this.token = token;
   }
 
+  /**
+   * Closes a lingering socket right away when no channel is using it.
+   */
+  disconnectIfIdle(): void {
+    if (this.activeChannelCount > 0) {
+      return;
+    }
+
+    this.clearIdleDisconnect();
+    this.disconnect();
+  }
+
+  /**
+   * Current state of the managed socket.
+   */
+  connectionState(): StarciteConnectionState {
+    return { ...this.connection };
+  }
+
+  /**
+   * Subscribes to socket open, close, reconnect, and error transitions.
+   * Returns an unsubscribe function.
+   */
+  onConnectionChange(listener: StarciteConnectionListener): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
   private ensureSocket(): Socket {
     if (this.socket) {
       return this.socket;
     }
 
-    this.socket = new Socket(this.socketUrl, {
+    const socket = new Socket(this.socketUrl, {
       params: () => (this.token ? { token: this.token } : {}),
     });
+    this.socketRefs = [
+      socket.onOpen(() => {
+        this.updateConnection({
+          ...this.connection,
+          status: "open",
+          attempts: 0,
+        });
+      }),
+      socket.onClose((event) => {
+        // Phoenix reconnects on its own after any close we did not request,
+        // except a clean close by the server.
+        const clean = event?.code === NORMAL_CLOSE_CODE;
+        this.updateConnection({
+          ...this.connection,
+          status: clean ? "closed" : "reconnecting",
+          attempts: clean ? 0 : this.connection.attempts + 1,
+          closeCode: event?.code,
+          closeReason: event?.reason || undefined,
+        });
+      }),
+      socket.onError((error) => {
+        this.updateConnection({
+          ...this.connection,
+          error: readSocketErrorMessage(error),
+        });
+      }),
+    ];
+    this.socket = socket;
 
-    return this.socket;
+    return socket;
   }
 
   private releaseChannel(): void {
@@ -100,7 +208,57 @@ export class SocketManager {
       return;
     }
 
+    if (this.idleDisconnectMs > 0) {
+      this.idleDisconnectTimer = setTimeout(() => {
+        this.idleDisconnectTimer = undefined;
+        this.disconnect();
+      }, this.idleDisconnectMs);
+      // A lingering socket must not keep the process alive on its own.
+      (this.idleDisconnectTimer as { unref?: () => void }).unref?.();
+      return;
+    }
+
+    this.disconnect();
+  }
+
+  private clearIdleDisconnect(): void {
+    if (this.idleDisconnectTimer) {
+      clearTimeout(this.idleDisconnectTimer);
+      this.idleDisconnectTimer = undefined;
+    }
+  }
+
+  private disconnect(): void {
+    if (!this.socket) {
+      return;
+    }
+
+    this.socket.off(this.socketRefs);
     this.socket?.disconnect();
     this.socket = undefined;
+    this.socketRefs = [];
+    this.updateConnection({
+      ...this.connection,
+      status: "closed",
+      attempts: 0,
+    });
+  }
+
+  private updateConnection(next: StarciteConnectionState): void {
+    const previous = this.connection;
+    this.connection = next;
+    if (
+      next.status === previous.status &&
+      next.attempts === previous.attempts &&
+      next.closeCode === previous.closeCode &&
+      next.closeReason === previous.closeReason &&
+      next.error === previous.error
+    ) {
+      return;
+    }
+
+    for (const listener of [...this.connectionListeners]) {
+      listener(this.connectionState());
+    }
   }
 }
@@ -4,7 +4,21 @@ import {
   StarciteConnectionError,
   StarciteError,
 } from "./errors";
+import { instrument, nextInstrumentationRequestId } from "./instrumentation";
+import {
+  calculateRetryDelay,
+  exceedsRetryAfterLimit,
+  isRetryableError,
+  parseRetryAfter,
+  type ResolvedRetryPolicy,
+  waitForRetry,
+} from "./retry";
 import type { SocketManager } from "./socket-manager";
+import type {
+  StarciteHttpMiddleware,
+  StarciteHttpRequest,
+  StarciteInstrumentation,
+} from "./types";
 
 const TRAILING_SLASHES_REGEX = /\/+$/;
 
@@ -17,8 +31,34 @@ const TRAILING_SLASHES_REGEX = /\/+$/;
 export interface TransportConfig {
   readonly baseUrl: string;
   readonly socketManager: SocketManager;
+  /**
+   * Whether `socketManager` is shared with other sessions, in which case
+   * channels carry their own session token instead of the socket.
+   */
+  readonly sharedSocket?: boolean;
   bearerToken: string | null;
   readonly fetchFn: typeof fetch;
+  readonly instrumentation?: StarciteInstrumentation;
+  readonly middleware?: readonly StarciteHttpMiddleware[];
+  /** Retry policy for safe and idempotent requests. */
+  readonly retryPolicy?: ResolvedRetryPolicy;
+}
+
+interface RequestAttempt {
+  retryCount: number;
+  /** Response status, once the server has answered. */
+  status?: number;
+}
+
+/**
+ * Per-call options for {@link request} and {@link requestWithBaseUrl}.
+ */
+export interface TransportRequestOptions {
+  /**
+   * Whether sending the request again is harmless. `GET` and `HEAD` requests
+   * are always treated as idempotent.
+   */
+  idempotent?: boolean;
 }
 
 /**
@@ -63,50 +103,140 @@ export function request<T>(
   transport: TransportConfig,
   path: string,
   init: RequestInit,
-  schema: z.ZodType<T>
+  schema: z.ZodType<T>,
+  options?: TransportRequestOptions
 ): Promise<T> {
-  return requestWithBaseUrl(transport, transport.baseUrl, path, init, schema);
+  return requestWithBaseUrl(
+    transport,
+    transport.baseUrl,
+    path,
+    init,
+    schema,
+    options
+  );
 }
 
 /**
  * Makes an HTTP request against an arbitrary base URL using the transport's shared config.
+ *
+ * Idempotent requests that fail with a connection error or a transient
+ * status are retried under the transport's retry policy.
  */
 export async function requestWithBaseUrl<T>(
   transport: TransportConfig,
   baseUrl: string,
   path: string,
   init: RequestInit,
-  schema: z.ZodType<T>
+  schema: z.ZodType<T>,
+  options: TransportRequestOptions = {}
 ): Promise<T> {
-  const headers = new Headers();
+  const method = init.method ?? "GET";
+  const retryPolicy =
+    options.idempotent || method === "GET" || method === "HEAD"
+      ? transport.retryPolicy
+      : undefined;
 
-  if (transport.bearerToken) {
-    headers.set("authorization", `Bearer ${transport.bearerToken}`);
-  }
+  for (let retryCount = 0; ; retryCount += 1) {
+    const attempt: RequestAttempt = { retryCount };
+    try {
+      return await instrumentedRequest(
+        transport,
+        baseUrl,
+        path,
+        init,
+        schema,
+        attempt
+      );
+    } catch (error) {
+      if (
+        !retryPolicy ||
+        retryCount >= retryPolicy.maxRetries ||
+        init.signal?.aborted ||
+        !isRetryableError(error) ||
+        exceedsRetryAfterLimit(error, retryPolicy) ||
+        // The server answered; only an unreachable server is worth retrying.
+        (error instanceof StarciteConnectionError &&
+          attempt.status !== undefined)
+      ) {
+        throw error;
+      }
 
-  if (init.body !== undefined && !headers.has("content-type")) {
-    headers.set("content-type", "application/json");
+      await waitForRetry(
+        calculateRetryDelay(retryCount + 1, retryPolicy, error),
+        init.signal
+      );
+      if (init.signal?.aborted) {
+        throw error;
+      }
+    }
   }
+}
 
-  if (init.headers) {
-    const perRequestHeaders = new Headers(init.headers);
-    for (const [key, value] of perRequestHeaders.entries()) {
-      headers.set(key, value);
-    }
+async function instrumentedRequest<T>(
+  transport: TransportConfig,
+  baseUrl: string,
+  path: string,
+  init: RequestInit,
+  schema: z.ZodType<T>,
+  attempt: RequestAttempt
+): Promise<T> {
+  const instrumentation = transport.instrumentation;
+  if (!instrumentation) {
+    return await sendRequest(transport, baseUrl, path, init, schema, attempt);
   }
 
-  let response: Response;
+  const started = {
+    requestId: nextInstrumentationRequestId(),
+    method: init.method ?? "GET",
+    url: `${baseUrl}${path}`,
+  };
+  const startedAtMs = Date.now();
+  instrument(instrumentation, "onRequestStart", started);
 
   try {
-    response = await transport.fetchFn(`${baseUrl}${path}`, {
-      ...init,
-      headers,
+    const result = await sendRequest(
+      transport,
+      baseUrl,
+      path,
+      init,
+      schema,
+      attempt
+    );
+    instrument(instrumentation, "onRequestEnd", {
+      ...started,
+      durationMs: Date.now() - startedAtMs,
+      status: attempt.status,
     });
+    return result;
   } catch (error) {
-    throw new StarciteConnectionError(
-      `Failed to connect to Starcite at ${baseUrl}: ${error instanceof Error ? error.message : String(error)}`
-    );
+    instrument(instrumentation, "onRequestEnd", {
+      ...started,
+      durationMs: Date.now() - startedAtMs,
+      status: attempt.status,
+      error: error instanceof Error ? error : new StarciteError(String(error)),
+    });
+    throw error;
   }
+}
+
+async function sendRequest<T>(
+  transport: TransportConfig,
+  baseUrl: string,
+  path: string,
+  init: RequestInit,
+  schema: z.ZodType<T>,
+  attempt: RequestAttempt
+): Promise<T> {
+  const headers = buildRequestHeaders(transport, init);
+  const response = await dispatchRequest(transport, baseUrl, {
+    url: `${baseUrl}${path}`,
+    method: init.method ?? "GET",
+    headers,
+    body: init.body,
+    signal: init.signal,
+  });
+
+  attempt.status = response.status;
 
   if (!response.ok) {
     let payload: Record<string, unknown> | null = null;
@@ -125,7 +255,10 @@ export async function requestWithBaseUrl<T>(
         ? payload.message
         : response.statusText;
 
-    throw new StarciteApiError(message, response.status, code, payload);
+    throw new StarciteApiError(message, response.status, code, payload, {
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      retryCount: attempt.retryCount,
+    });
   }
 
   if (response.status === 204) {
@@ -143,3 +276,60 @@ export async function requestWithBaseUrl<T>(
 
   return schema.parse(body);
 }
+
+function buildRequestHeaders(
+  transport: TransportConfig,
+  init: RequestInit
+): Headers {
+  const headers = new Headers();
+
+  if (transport.bearerToken) {
+    headers.set("authorization", `Bearer ${transport.bearerToken}`);
+  }
+
+  if (init.body !== undefined && !headers.has("content-type")) {
+    headers.set("content-type", "application/json");
+  }
+
+  if (init.headers) {
+    const perRequestHeaders = new Headers(init.headers);
+    for (const [key, value] of perRequestHeaders.entries()) {
+      headers.set(key, value);
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Runs `httpRequest` through the middleware chain. Only `fetch` failures are
+ * wrapped as `StarciteConnectionError`; errors thrown by middleware propagate
+ * unchanged, so they are never mistaken for a retryable connection failure.
+ */
+function dispatchRequest(
+  transport: TransportConfig,
+  baseUrl: string,
+  httpRequest: StarciteHttpRequest
+): Promise<Response> {
+  const middleware = transport.middleware ?? [];
+  const run = async (
+    index: number,
+    current: StarciteHttpRequest
+  ): Promise<Response> => {
+    const handler = middleware[index];
+    if (!handler) {
+      const { url, ...init } = current;
+      try {
+        return await transport.fetchFn(url, init);
+      } catch (error) {
+        throw new StarciteConnectionError(
+          `Failed to connect to Starcite at ${baseUrl}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return await handler(current, (next) => run(index + 1, next));
+  };
+
+  return run(0, httpRequest);
+}
@@ -0,0 +1,148 @@
+import { StarciteError } from "./errors";
+import type {
+  AppendResult,
+  InvalidSessionEvent,
+  InvalidSessionEventListener,
+  RequestOptions,
+  SessionCatalogAppendInput,
+  SessionCatalogEvent,
+  SessionCatalogEventListener,
+  SessionCatalogEventType,
+  SessionEventCatalog,
+  SessionHandle,
+  SessionOnEventOptions,
+  TailEvent,
+} from "./types";
+
+type SessionCatalogValidation<TCatalog extends SessionEventCatalog> =
+  | { event: SessionCatalogEvent<TCatalog> }
+  | { invalid: InvalidSessionEvent };
+
+/**
+ * Declares an event catalog while preserving its literal type names.
+ */
+export function defineEventCatalog<TCatalog extends SessionEventCatalog>(
+  catalog: TCatalog
+): TCatalog {
+  return catalog;
+}
+
+/**
+ * Typed view of a session driven by an event catalog.
+ *
+ * Appends are validated against the catalog before they are enqueued.
+ * Listeners registered by type receive parsed payloads; events with an unknown
+ * type or an invalid payload skip them and go to `onInvalid(...)` listeners
+ * instead of the session `error` event.
+ */
+export class TypedSession<TCatalog extends SessionEventCatalog> {
+  /** Underlying untyped session. */
+  readonly session: SessionHandle;
+
+  private readonly schemas: ReadonlyMap<string, TCatalog[string]>;
+
+  constructor(session: SessionHandle, catalog: TCatalog) {
+    this.session = session;
+    this.schemas = new Map(
+      Object.entries(catalog) as [string, TCatalog[string]][]
+    );
+  }
+
+  /**
+   * Validates `payload` against the catalog schema for `type` and appends the
+   * parsed payload. Unknown types and invalid payloads reject without
+   * enqueueing anything.
+   */
+  append<TType extends SessionCatalogEventType<TCatalog>>(
+    input: SessionCatalogAppendInput<TCatalog, TType>,
+    options?: RequestOptions
+  ): Promise<AppendResult> {
+    const schema = this.schemas.get(input.type);
+    if (!schema) {
+      return Promise.reject(
+        new StarciteError(
+          `Unknown event type '${input.type}' for this catalog.`
+        )
+      );
+    }
+
+    const parsed = schema.safeParse(input.payload);
+    if (!parsed.success) {
+      return Promise.reject(
+        new StarciteError(
+          `Invalid payload for event type '${input.type}': ${parsed.error.message}`
+        )
+      );
+    }
+
+    return this.session.append({ ...input, payload: parsed.data }, options);
+  }
+
+  /**
+   * Subscribes to committed events of one catalog type with parsed payloads.
+   */
+  on<TType extends SessionCatalogEventType<TCatalog>>(
+    type: TType,
+    listener: SessionCatalogEventListener<TCatalog, TType>,
+    options?: Omit<SessionOnEventOptions, "schema">
+  ): () => void {
+    return this.session.on(
+      "event",
+      (event, context) => {
+        if (event.type !== type) {
+          return;
+        }
+
+        const validation = this.validate(event);
+        if ("event" in validation) {
+          return listener(
+            validation.event as SessionCatalogEvent<TCatalog, TType>,
+            context
+          );
+        }
+      },
+      { replay: options?.replay, agent: options?.agent }
+    );
+  }
+
+  /**
+   * Subscribes to committed events that have an unknown type or fail their
+   * catalog schema.
+   */
+  onInvalid(
+    listener: InvalidSessionEventListener,
+    options?: Omit<SessionOnEventOptions, "schema">
+  ): () => void {
+    return this.session.on(
+      "event",
+      (event, context) => {
+        const validation = this.validate(event);
+        if ("invalid" in validation) {
+          return listener(validation.invalid, context);
+        }
+      },
+      { replay: options?.replay, agent: options?.agent }
+    );
+  }
+
+  private validate(event: TailEvent): SessionCatalogValidation<TCatalog> {
+    const schema = this.schemas.get(event.type);
+    if (!schema) {
+      return { invalid: { event, reason: "unknown_type" } };
+    }
+
+    const parsed = schema.safeParse(event.payload);
+    if (!parsed.success) {
+      return {
+        invalid: { event, reason: "invalid_payload", error: parsed.error },
+      };
+    }
+
+    return {
+      event: {
+        ...event,
+        payload: parsed.data,
+      } as SessionCatalogEvent<TCatalog>,
+    };
+  }
+}
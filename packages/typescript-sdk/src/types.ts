@@ -2,10 +2,27 @@ import { z } from "zod";
 
 const ArbitraryObjectSchema = z.record(z.unknown());
 
+export const SessionTokenScopes = ["session:read", "session:append"] as const;
+
+/**
+ * Permission granted by a session token.
+ */
+export type SessionTokenScope = (typeof SessionTokenScopes)[number];
+
+/**
+ * Operations the current session token allows, decoded from its scopes.
+ */
+export interface SessionCapabilities {
+  /** Token grants `session:read`: range reads and tailing. */
+  read: boolean;
+  /** Token grants `session:append`: `append()` and `appendMany()`. */
+  append: boolean;
+}
+
 export interface IssueSessionTokenInput {
   session_id: string;
   principal: { type: "user" | "agent"; id: string };
-  scopes: ("session:read" | "session:append")[];
+  scopes: SessionTokenScope[];
   ttl_seconds?: number;
 }
 
@@ -110,6 +127,48 @@ export const AppendEventResponseSchema = z.object({
  */
 export type AppendEventResponse = z.infer<typeof AppendEventResponseSchema>;
 
+/**
+ * Request payload for appending several events as one atomic batch, posted to
+ * `POST /v1/sessions/:id/append_batch`.
+ *
+ * The server commits every event or none of them, checking `producer_seq`
+ * and idempotency keys per event exactly as the single-event `append`
+ * endpoint does.
+ */
+export const AppendEventBatchRequestSchema = z.object({
+  events: z.array(AppendEventRequestSchema).min(1),
+});
+
+/**
+ * Inferred TypeScript type for {@link AppendEventBatchRequestSchema}.
+ */
+export type AppendEventBatchRequest = z.infer<
+  typeof AppendEventBatchRequestSchema
+>;
+
+/**
+ * API response returned after appending a batch of events: one result per
+ * request event, in request order, plus the session's `last_seq`.
+ */
+export const AppendEventBatchResponseSchema = z.object({
+  results: z
+    .array(
+      z.object({
+        seq: z.number().int().nonnegative(),
+        deduped: z.boolean(),
+      })
+    )
+    .min(1),
+  last_seq: z.number().int().nonnegative(),
+});
+
+/**
+ * Inferred TypeScript type for {@link AppendEventBatchResponseSchema}.
+ */
+export type AppendEventBatchResponse = z.infer<
+  typeof AppendEventBatchResponseSchema
+>;
+
 /**
  * High-level append result returned by `session.append()`.
  */
@@ -196,6 +255,138 @@ export interface SessionOnEventOptions<TEvent extends TailEvent = TailEvent> {
   agent?: string;
 }
 
+/**
+ * Event catalog mapping each event `type` to the zod schema of its `payload`.
+ */
+export type SessionEventCatalog = Record<
+  string,
+  z.ZodType<Record<string, unknown>, z.ZodTypeDef, unknown>
+>;
+
+/**
+ * Event type names declared by a catalog.
+ */
+export type SessionCatalogEventType<TCatalog extends SessionEventCatalog> =
+  keyof TCatalog & string;
+
+/**
+ * Committed event whose payload has been validated against its catalog schema.
+ */
+export type SessionCatalogEvent<
+  TCatalog extends SessionEventCatalog,
+  TType extends
+    SessionCatalogEventType<TCatalog> = SessionCatalogEventType<TCatalog>,
+> = {
+  [K in TType]: Omit<TailEvent, "type" | "payload"> & {
+    type: K;
+    payload: z.output<TCatalog[K]>;
+  };
+}[TType];
+
+/**
+ * Append input for a catalog event type; `payload` is checked against its schema.
+ */
+export type SessionCatalogAppendInput<
+  TCatalog extends SessionEventCatalog,
+  TType extends
+    SessionCatalogEventType<TCatalog> = SessionCatalogEventType<TCatalog>,
+> = {
+  [K in TType]: Omit<SessionAppendInput, "text" | "type" | "payload"> & {
+    type: K;
+    payload: z.input<TCatalog[K]>;
+  };
+}[TType];
+
+/**
+ * Listener for one catalog event type.
+ */
+export type SessionCatalogEventListener<
+  TCatalog extends SessionEventCatalog,
+  TType extends SessionCatalogEventType<TCatalog>,
+> = (
+  event: SessionCatalogEvent<TCatalog, TType>,
+  context: SessionEventContext
+) => void | Promise<void>;
+
+/**
+ * Committed event that does not match the catalog of a typed session view.
+ */
+export interface InvalidSessionEvent {
+  event: TailEvent;
+  /**
+   * `unknown_type` when the catalog has no entry for `event.type`,
+   * `invalid_payload` when the payload fails the catalog schema.
+   */
+  reason: "unknown_type" | "invalid_payload";
+  /**
+   * Schema failure for `invalid_payload` events.
+   */
+  error?: z.ZodError;
+}
+
+/**
+ * Listener for events that do not match a typed session view's catalog.
+ */
+export type InvalidSessionEventListener = (
+  invalid: InvalidSessionEvent,
+  context: SessionEventContext
+) => void | Promise<void>;
+
+/**
+ * Options for `session.stream(...)`.
+ */
+export interface SessionStreamOptions {
+  /**
+   * First committed seq to yield. Events already evicted or never observed
+   * locally are backfilled through `session.range(...)`.
+   *
+   * When omitted, the stream starts after the last observed seq.
+   */
+  fromSeq?: number;
+  /**
+   * Restricts the stream to one phase.
+   *
+   * `"replay"` yields committed events from `fromSeq` (default `1`) through
+   * the last seq observed when iteration starts, then completes without
+   * attaching the live tail. `"live"` yields only events observed after
+   * iteration starts and cannot be combined with `fromSeq`. When omitted, the
+   * stream replays from `fromSeq` and then continues live.
+   */
+  phase?: SessionEventPhase;
+  /**
+   * Ends the stream when aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * Skips events for which this returns `false`. Skipped events still advance
+   * the stream position.
+   */
+  filter?: (event: TailEvent) => boolean;
+}
+
+/**
+ * Options for `session.waitFor(...)`.
+ */
+export interface SessionWaitForOptions {
+  /**
+   * Rejects with `StarciteTimeoutError` when no matching event arrives in time.
+   *
+   * When omitted, the wait only ends on a match, abort, or disconnect.
+   */
+  timeoutMs?: number;
+  /**
+   * Rejects the wait when aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * Whether already materialized events are checked before waiting for live
+   * events.
+   *
+   * Defaults to `true`.
+   */
+  includeReplay?: boolean;
+}
+
 /**
  * Listener signature for session snapshot changes.
  *
@@ -261,6 +452,35 @@ export const TailTokenExpiredPayloadSchema = z.object({
 
 export type SessionAttachMode = "on-demand" | "eager";
 
+/**
+ * How session tails are carried over WebSockets.
+ *
+ * `"per-session"` opens one socket per session token. `"shared"` joins every
+ * session's `tail:<id>` channel over the client's API-key socket and
+ * authenticates each channel with its session token.
+ */
+export type SessionSocketMode = "per-session" | "shared";
+
+/**
+ * Bounds how many committed events a session keeps materialized in memory
+ * and in its stored snapshot.
+ *
+ * The oldest events are evicted first. Evicted events drop out of
+ * `state().events` but stay readable through `session.range()`, which
+ * re-fetches them on demand.
+ */
+export interface SessionRetentionPolicy {
+  /**
+   * Maximum number of materialized events.
+   */
+  maxEvents?: number;
+  /**
+   * Maximum total size of materialized events, in UTF-8 bytes of their
+   * serialized JSON.
+   */
+  maxBytes?: number;
+}
+
 /**
  * Snapshot of a session's canonical in-memory event state.
  */
@@ -284,14 +504,65 @@ export interface SessionSnapshot {
    * Indicates whether the session is actively streaming tail updates.
    */
   syncing: boolean;
+  /**
+   * Whether the client's connectivity source reports the device as offline.
+   *
+   * While offline the tail is detached and the append queue holds its
+   * pending items without spending retry attempts.
+   */
+  offline?: boolean;
+  /**
+   * State of the WebSocket connection this session tails over.
+   */
+  connection?: StarciteConnectionState;
   /**
    * Current local append outbox state for this session.
    */
   append?: SessionAppendQueueState;
+  /**
+   * Committed `events` followed by provisional entries for pending appends.
+   *
+   * Acknowledged appends stay provisional, placed at their committed seq,
+   * until the committed event is materialized and takes their place. Appends
+   * not yet acknowledged follow at the end. The array is the same reference
+   * as `events` while nothing is pending.
+   */
+  optimisticEvents?: readonly SessionOptimisticEvent[];
+}
+
+/**
+ * Local delivery status of a provisional event.
+ */
+export type SessionPendingEventStatus =
+  | "queued"
+  | "sending"
+  | "retrying"
+  | "failed"
+  | "acknowledged";
+
+/**
+ * Pending append projected as a provisional, not yet committed event.
+ */
+export interface SessionPendingEvent
+  extends Omit<TailEvent, "seq" | "cursor" | "inserted_at"> {
+  /**
+   * Committed seq once the append is `acknowledged` but its committed event
+   * has not reached local history yet; `undefined` before that.
+   */
+  seq: number | undefined;
+  /** Stable local id derived from the pending append's outbox item id. */
+  localId: string;
+  status: SessionPendingEventStatus;
 }
 
+/**
+ * Entry of the optimistic timeline: a committed event or a provisional one.
+ */
+export type SessionOptimisticEvent = TailEvent | SessionPendingEvent;
+
 export type SessionTokenRefreshReason =
   | "manual"
+  | "expiring"
   | "token_expired"
   | "unauthorized";
 
@@ -322,6 +593,7 @@ export type SessionAppendQueueStatus =
   | "idle"
   | "flushing"
   | "retrying"
+  | "offline"
   | "paused";
 
 export interface SessionAppendRetryPolicy {
@@ -356,11 +628,22 @@ export interface SessionAppendRetryPolicy {
    */
   jitterRatio?: number;
   /**
-   * Maximum retry attempts before the queue enters terminal handling.
+   * Maximum retries before the queue enters terminal handling.
    *
    * Defaults to unlimited retries.
    */
+  maxRetries?: number;
+  /**
+   * @deprecated Use `maxRetries`.
+   */
   maxAttempts?: number;
+  /**
+   * Longest `Retry-After` wait, in milliseconds, that the queue honors.
+   * Failures asking for more enter terminal handling without retrying.
+   *
+   * Defaults to `60000`.
+   */
+  maxRetryAfterMs?: number;
 }
 
 export interface SessionAppendOptions {
@@ -389,6 +672,59 @@ export interface SessionAppendOptions {
    * Defaults to `pause`.
    */
   terminalFailureMode?: "pause" | "clear";
+  /**
+   * Maximum number of appends sent before the oldest one is acknowledged.
+   *
+   * Appends are still acknowledged in `producer_seq` order. When an append
+   * fails, requests behind it are cancelled and the queue retries from the
+   * first unacknowledged item.
+   *
+   * Defaults to `1`.
+   */
+  maxInFlight?: number;
+  /**
+   * Opt-in merging of consecutive streaming appends, such as token deltas,
+   * into one event.
+   */
+  coalesce?: SessionAppendCoalesceOptions;
+}
+
+/**
+ * Configures append coalescing for high-frequency streaming appends.
+ *
+ * Consecutive appends with the same `key` are merged into one event until the
+ * window elapses or the merged payload reaches `maxBytes`. Any append without a
+ * key (for example a `finish` or `text-end` chunk), `appendMany()`, and any
+ * append with an abort signal flush the pending event first, so producer order
+ * is preserved. Every merged call resolves with the result of the event it was
+ * folded into.
+ */
+export interface SessionAppendCoalesceOptions {
+  /**
+   * Returns the coalescing key for an append, such as a message or part id, or
+   * `undefined` when the append must not be merged.
+   */
+  key: (input: SessionAppendInput) => string | undefined;
+  /**
+   * Folds `next` into the pending merged append and returns the result.
+   */
+  merge: (
+    pending: SessionAppendInput,
+    next: SessionAppendInput
+  ) => SessionAppendInput;
+  /**
+   * Longest time, in milliseconds, a merged append waits for more input.
+   *
+   * Defaults to `50`.
+   */
+  windowMs?: number;
+  /**
+   * Flushes once the merged payload's serialized JSON reaches this many UTF-8
+   * bytes.
+   *
+   * Defaults to `16384`.
+   */
+  maxBytes?: number;
 }
 
 export interface SessionAppendFailureSnapshot {
@@ -414,6 +750,11 @@ export const SessionAppendFailureSnapshotSchema = z.object({
 export interface SessionPendingAppend {
   id: string;
   request: AppendEventRequest;
+  /**
+   * Every request of an `appendMany()` unit, in producer order. `request` is
+   * the first of them.
+   */
+  batch?: AppendEventRequest[];
   enqueuedAtMs: number;
   retryAttempt: number;
 }
@@ -423,7 +764,10 @@ export interface SessionAppendQueueState {
   producerId: string;
   lastAcknowledgedProducerSeq: number;
   pending: SessionPendingAppend[];
+  /** Oldest pending append with a request outstanding. */
   inFlightItemId?: string;
+  /** Every pending append with a request outstanding, in queue order. */
+  inFlightItemIds?: string[];
   retryAttempt?: number;
   nextRetryAtMs?: number;
   lastFailure?: SessionAppendFailureSnapshot;
@@ -458,6 +802,11 @@ export type SessionAppendLifecycleEvent =
       itemId: string;
       seq: number;
       deduped: boolean;
+      /**
+       * Per-event results of an `appendMany()` unit. `seq` is then the last
+       * event's seq and `deduped` is true only when every event was deduped.
+       */
+      results?: AppendResult[];
       queue: SessionAppendQueueState;
     }
   | {
@@ -497,6 +846,7 @@ export type SessionGapListener = (gap: TailGap) => void | Promise<void>;
 export const SessionStoredAppendSchema = z.object({
   id: z.string().min(1),
   request: AppendEventRequestSchema,
+  batch: z.array(AppendEventRequestSchema).min(1).optional(),
   enqueuedAtMs: z.number().int().nonnegative(),
   retryAttempt: z.number().int().nonnegative().optional().default(0),
 });
@@ -527,6 +877,35 @@ export interface SessionStore {
   clear?(sessionId: string): void;
 }
 
+/**
+ * Asynchronous variant of {@link SessionStore} for backends such as IndexedDB,
+ * Redis, or React Native `AsyncStorage`.
+ *
+ * Sessions wait for `read()` to settle before attaching the tail or flushing
+ * restored appends. Writes are serialized per session and coalesced, so an
+ * earlier write never lands after a later one.
+ */
+export interface AsyncSessionStore {
+  read(sessionId: string): Promise<string | undefined>;
+  write(sessionId: string, value: string): Promise<void>;
+  clear?(sessionId: string): Promise<void>;
+  /**
+   * Optional advisory lock for stores shared between processes.
+   *
+   * Resolves `undefined` when another process already holds the lock. Only
+   * the holder restores and flushes the persisted outbox and writes state
+   * back; other sessions bound to the same id run from memory.
+   */
+  lock?(sessionId: string): Promise<SessionStoreLock | undefined>;
+}
+
+/**
+ * Advisory lock returned by {@link AsyncSessionStore.lock}.
+ */
+export interface SessionStoreLock {
+  release(): Promise<void>;
+}
+
 /**
  * High-level `session.append()` input.
  *
@@ -555,6 +934,30 @@ export interface SessionListOptions {
   metadata?: Record<string, string>;
 }
 
+/**
+ * Options for `starcite.iterateSessions(...)`.
+ *
+ * `limit` sets the page size of each list request and `cursor` the page to
+ * start from; `archived` and `metadata` filter every page.
+ */
+export interface SessionIterateOptions extends SessionListOptions {
+  /**
+   * Stops after yielding this many sessions.
+   */
+  maxItems?: number;
+  /**
+   * Number of pages to request ahead of the one being consumed.
+   *
+   * Defaults to `0`, which requests the next page only once the current one
+   * is exhausted.
+   */
+  prefetchPages?: number;
+  /**
+   * Ends the iteration when aborted.
+   */
+  signal?: AbortSignal;
+}
+
 export type SessionArchivedFilter = boolean | "all";
 
 export interface SessionUpdateInput {
@@ -599,7 +1002,7 @@ export interface StarciteOptions {
    *
    * When omitted, sessions start without a durable local cursor.
    */
-  sessionStore?: SessionStore;
+  sessionStore?: SessionStore | AsyncSessionStore;
   /**
    * Whether sessions should attach the tail channel immediately on construction.
    *
@@ -607,10 +1010,307 @@ export interface StarciteOptions {
    * need live sync.
    */
   sessionAttachMode?: SessionAttachMode;
+  /**
+   * How session tails share WebSocket connections.
+   *
+   * Defaults to `"per-session"`. `"shared"` requires `apiKey` and suits
+   * backend coordinators that follow many sessions at once.
+   */
+  sessionSocketMode?: SessionSocketMode;
+  /**
+   * Retention policy for session event history.
+   *
+   * When omitted, sessions keep every event they observe.
+   */
+  sessionRetention?: SessionRetentionPolicy;
   /**
    * Default append queue behavior for sessions created by this client.
    */
   appendOptions?: SessionAppendOptions;
+  /**
+   * Connectivity source used to pause sessions while offline.
+   *
+   * Defaults to browser `online` / `offline` events when available. Pass a
+   * custom source (for example `probeConnectivity(...)` in Node) or `false`
+   * to disable connectivity tracking.
+   */
+  connectivity?: StarciteConnectivitySource | false;
+  /**
+   * Hooks that observe HTTP requests, append attempts, tail traffic, and
+   * token refreshes, e.g. to record OpenTelemetry spans and metrics.
+   */
+  instrumentation?: StarciteInstrumentation;
+  /**
+   * Middleware wrapped around every HTTP request made by the client and its
+   * sessions, outermost first.
+   */
+  middleware?: readonly StarciteHttpMiddleware[];
+  /**
+   * Retry policy for safe and idempotent HTTP calls such as `listSessions`,
+   * session creation with an explicit id, and session token minting. Appends
+   * use `appendOptions.retryPolicy` instead.
+   *
+   * Defaults to two retries with jittered exponential backoff. Pass `false`
+   * to disable.
+   */
+  retryPolicy?: StarciteRetryPolicy | false;
+  /**
+   * How long before a session token's `exp` claim sessions with a
+   * `refreshToken` handler fetch a new token, in milliseconds. The live tail
+   * keeps its old token and reattaches with the new one once the server
+   * expires it.
+   *
+   * Defaults to `60000`. Pass `false` to only refresh after the token expires.
+   */
+  tokenRefreshMarginMs?: number | false;
+  /**
+   * How the client keeps sessions that no consumer holds anymore.
+   *
+   * `starcite.session(...)` returns the same live session for the same
+   * session id and identity until every holder has called `disconnect()`.
+   */
+  sessionRegistry?: StarciteSessionRegistryOptions;
+}
+
+/**
+ * Idle session disposal for the client session registry.
+ */
+export interface StarciteSessionRegistryOptions {
+  /**
+   * How long a session stays warm for reuse after its last holder releases
+   * it, in milliseconds. Sessions with unsent appends are kept until their
+   * outbox drains.
+   *
+   * Defaults to `0`, which disposes a session as soon as it is released.
+   */
+  idleTimeoutMs?: number;
+  /**
+   * Maximum idle sessions kept warm. The least recently used idle session
+   * with a drained outbox is disposed first.
+   *
+   * Defaults to `16`.
+   */
+  maxIdleSessions?: number;
+}
+
+/**
+ * Backoff policy for retrying failed HTTP calls.
+ *
+ * `Retry-After` headers on `429` / `503` responses raise the delay to the
+ * requested wait, up to `maxRetryAfterMs`.
+ */
+export interface StarciteRetryPolicy {
+  /**
+   * Retry mode. `fixed` uses a constant delay, `exponential` grows the delay between attempts.
+   *
+   * Defaults to `exponential`.
+   */
+  mode?: "fixed" | "exponential";
+  /**
+   * Initial retry delay in milliseconds.
+   *
+   * Defaults to `250`.
+   */
+  initialDelayMs?: number;
+  /**
+   * Maximum backoff delay in milliseconds.
+   *
+   * Defaults to `5000`.
+   */
+  maxDelayMs?: number;
+  /**
+   * Exponential growth factor applied after each retry attempt.
+   *
+   * Defaults to `2`.
+   */
+  multiplier?: number;
+  /**
+   * Jitter ratio (`0..1`) applied around the computed delay.
+   *
+   * Defaults to `0.2`.
+   */
+  jitterRatio?: number;
+  /**
+   * Maximum retries after the first attempt.
+   *
+   * Defaults to `2`.
+   */
+  maxRetries?: number;
+  /**
+   * Longest `Retry-After` wait, in milliseconds, that is honored. Requests
+   * whose response asks for more fail with that response instead of waiting.
+   *
+   * Defaults to `60000`.
+   */
+  maxRetryAfterMs?: number;
+}
+
+/**
+ * Lifecycle state of a Starcite WebSocket connection.
+ */
+export type StarciteConnectionStatus =
+  | "connecting"
+  | "open"
+  | "closed"
+  | "reconnecting";
+
+/**
+ * Snapshot of a Starcite WebSocket connection.
+ */
+export interface StarciteConnectionState {
+  status: StarciteConnectionStatus;
+  /** Reconnect attempts since the socket was last open. */
+  attempts: number;
+  /** Close code of the most recent socket close the client did not request. */
+  closeCode?: number;
+  /** Close reason of the most recent socket close the client did not request. */
+  closeReason?: string;
+  /** Message of the most recent socket transport error. */
+  error?: string;
+}
+
+export type StarciteConnectionListener = (
+  state: StarciteConnectionState
+) => void;
+
+/**
+ * Injectable source of network connectivity changes.
+ */
+export interface StarciteConnectivitySource {
+  /** Current connectivity. */
+  isOnline(): boolean;
+  /**
+   * Subscribes to connectivity changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (online: boolean) => void): () => void;
+}
+
+/**
+ * HTTP request passed through `StarciteOptions.middleware`.
+ */
+export interface StarciteHttpRequest {
+  url: string;
+  method: string;
+  /** Includes the bearer token and content type set by the SDK. */
+  headers: Headers;
+  body?: BodyInit | null;
+  signal?: AbortSignal | null;
+}
+
+/**
+ * Sends a request to the next middleware, or to `fetch` after the last one.
+ */
+export type StarciteHttpNext = (
+  request: StarciteHttpRequest
+) => Promise<Response>;
+
+/**
+ * HTTP middleware. It can rewrite the request before calling `next`, observe
+ * the response or error `next` produces, or return its own `Response`
+ * without calling `next`.
+ *
+ * `next` rejects with `StarciteConnectionError` when `fetch` fails. Errors a
+ * middleware throws itself reach the caller unchanged and are not retried.
+ */
+export type StarciteHttpMiddleware = (
+  request: StarciteHttpRequest,
+  next: StarciteHttpNext
+) => Response | Promise<Response>;
+
+/**
+ * HTTP request about to be sent to Starcite.
+ */
+export interface StarciteRequestStartEvent {
+  /** Correlates this request with its `onRequestEnd` call. */
+  requestId: number;
+  method: string;
+  url: string;
+}
+
+/**
+ * Settled HTTP request. `error` is set when the request throws.
+ */
+export interface StarciteRequestEndEvent extends StarciteRequestStartEvent {
+  durationMs: number;
+  /** HTTP status, when a response was received. */
+  status?: number;
+  error?: Error;
+}
+
+/**
+ * Settled append request for one outbox item.
+ */
+export interface StarciteAppendAttemptEvent {
+  sessionId: string;
+  itemId: string;
+  /** 1-based attempt number for the item. */
+  attempt: number;
+  /** Events carried by the request; greater than 1 for `appendMany(...)`. */
+  eventCount: number;
+  durationMs: number;
+  ok: boolean;
+  error?: Error;
+}
+
+/**
+ * Batch of events received over a tail channel, either the live tail or a
+ * `range(...)` backfill.
+ */
+export interface StarciteTailBatchEvent {
+  sessionId: string;
+  source: "tail" | "backfill";
+  count: number;
+  firstSeq?: number;
+  lastSeq?: number;
+}
+
+/**
+ * Gap reported by the server on a tail channel.
+ */
+export interface StarciteGapEvent {
+  sessionId: string;
+  source: "tail" | "backfill";
+  gap: TailGap;
+}
+
+/**
+ * Settled session token refresh.
+ */
+export interface StarciteAuthRefreshEvent {
+  sessionId: string;
+  reason: SessionTokenRefreshReason;
+  durationMs: number;
+  ok: boolean;
+  error?: Error;
+}
+
+/**
+ * Channel join reply, including rejoins after reconnects and gaps.
+ */
+export interface StarciteJoinEvent {
+  topic: string;
+  /** Session the channel belongs to; absent for the lifecycle channel. */
+  sessionId?: string;
+  ok: boolean;
+  /** Server-provided failure reason when `ok` is `false`. */
+  reason?: string;
+}
+
+/**
+ * Observability hooks passed as `StarciteOptions.instrumentation`.
+ *
+ * Hooks run synchronously and are shared by the client and every session it
+ * creates. Exceptions thrown by a hook are ignored so tracing can never
+ * change SDK behavior.
+ */
+export interface StarciteInstrumentation {
+  onRequestStart?(event: StarciteRequestStartEvent): void;
+  onRequestEnd?(event: StarciteRequestEndEvent): void;
+  onAppendAttempt?(event: StarciteAppendAttemptEvent): void;
+  onTailBatch?(event: StarciteTailBatchEvent): void;
+  onGap?(event: StarciteGapEvent): void;
+  onAuthRefresh?(event: StarciteAuthRefreshEvent): void;
+  onJoin?(event: StarciteJoinEvent): void;
 }
 
 /**
@@ -0,0 +1,459 @@
+import EventEmitter from "eventemitter3";
+import type { Starcite } from "./client";
+import { StarciteError } from "./errors";
+import type { StarciteIdentity } from "./identity";
+import type { StarciteSession } from "./session";
+import type {
+  SessionAppendOptions,
+  SessionCreatedLifecycleEvent,
+  TailEvent,
+} from "./types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Context passed to a worker turn.
+ */
+export interface StarciteWorkerContext {
+  /** Bound session the event belongs to. */
+  session: StarciteSession;
+}
+
+/**
+ * Handles one session event. Turns for the same session run one at a time.
+ */
+export type StarciteWorkerHandler = (
+  event: TailEvent,
+  context: StarciteWorkerContext
+) => void | Promise<void>;
+
+/**
+ * Options for `starcite.worker(...)`.
+ */
+export interface StarciteWorkerOptions {
+  /** Identity the worker binds sessions and appends as. */
+  identity: StarciteIdentity;
+  /** Runs one turn for each live event that passes `filter`. */
+  handle: StarciteWorkerHandler;
+  /**
+   * Selects the events that start a turn.
+   *
+   * Defaults to every event not authored by the worker's own identity.
+   */
+  filter?: (event: TailEvent) => boolean;
+  /**
+   * Selects the newly created sessions the worker binds. Defaults to all.
+   */
+  sessions?: (event: SessionCreatedLifecycleEvent) => boolean;
+  /**
+   * Maximum number of turns running at once across all sessions.
+   *
+   * Defaults to `10`.
+   */
+  concurrency?: number;
+  /**
+   * Disconnects a session after it has had no queued or running turn for
+   * this long. Defaults to 10 minutes; `0` keeps sessions bound until
+   * `close()`.
+   */
+  idleTimeoutMs?: number;
+  /**
+   * Longest a session's outbox may take to drain before the worker
+   * disconnects it anyway, on idle or on `close()`. Defaults to 30 seconds.
+   */
+  drainTimeoutMs?: number;
+  /** Title used when the worker creates a session it binds. */
+  title?: string;
+  /** Append queue options for bound sessions. */
+  appendOptions?: SessionAppendOptions;
+}
+
+interface StarciteWorkerEvents {
+  error: (error: Error) => void;
+}
+
+interface WorkerSessionBinding {
+  session: StarciteSession;
+  queue: TailEvent[];
+  running: boolean;
+  stopEvents: () => void;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const WORKER_DEFAULT_CONCURRENCY = 10;
+const WORKER_DEFAULT_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+const WORKER_DEFAULT_DRAIN_TIMEOUT_MS = 30 * 1000;
+/** Unbound sessions whose last seq the worker remembers for rebinding. */
+const WORKER_MAX_REMEMBERED_SESSIONS = 10_000;
+
+// ---------------------------------------------------------------------------
+// StarciteWorker
+// ---------------------------------------------------------------------------
+
+/**
+ * Agent runtime that binds sessions from lifecycle events and runs a handler
+ * per event.
+ *
+ * Created by `starcite.worker(...)`. New sessions are bound as
+ * `session.created` events arrive, idle sessions are rebound on
+ * `session.activated`, turns for one session are serialized, and `close()`
+ * lets running turns finish and drains every outbox before disconnecting.
+ */
+export class StarciteWorker {
+  private readonly starcite: Starcite;
+  private readonly identity: StarciteIdentity;
+  private readonly handle: StarciteWorkerHandler;
+  private readonly filter: (event: TailEvent) => boolean;
+  private readonly acceptSession: (
+    event: SessionCreatedLifecycleEvent
+  ) => boolean;
+  private readonly concurrency: number;
+  private readonly idleTimeoutMs: number;
+  private readonly drainTimeoutMs: number;
+  private readonly title: string | undefined;
+  private readonly appendOptions: SessionAppendOptions | undefined;
+  private readonly emitter = new EventEmitter<StarciteWorkerEvents>();
+  private readonly bindings = new Map<string, WorkerSessionBinding>();
+  private readonly pendingBinds = new Map<string, Promise<void>>();
+  /**
+   * Highest seq seen per session, kept across unbinds. A rebound session
+   * tails from the start, so events at or below it are not handled again.
+   * Archived sessions are forgotten, and so are the least recently bound ones
+   * past `WORKER_MAX_REMEMBERED_SESSIONS`.
+   */
+  private readonly lastSeqs = new Map<string, number>();
+  private readonly ready: WorkerSessionBinding[] = [];
+  private readonly turns = new Set<Promise<void>>();
+  private readonly stopLifecycle: Array<() => void>;
+  private activeTurns = 0;
+  private closeTask: Promise<void> | undefined;
+
+  constructor(starcite: Starcite, options: StarciteWorkerOptions) {
+    const concurrency = options.concurrency ?? WORKER_DEFAULT_CONCURRENCY;
+    const idleTimeoutMs =
+      options.idleTimeoutMs ?? WORKER_DEFAULT_IDLE_TIMEOUT_MS;
+    const drainTimeoutMs =
+      options.drainTimeoutMs ?? WORKER_DEFAULT_DRAIN_TIMEOUT_MS;
+    if (!Number.isInteger(concurrency) || concurrency <= 0) {
+      throw new StarciteError("worker concurrency must be a positive integer");
+    }
+    if (!Number.isFinite(idleTimeoutMs) || idleTimeoutMs < 0) {
+      throw new StarciteError(
+        "worker idleTimeoutMs must be a non-negative number"
+      );
+    }
+    if (!Number.isFinite(drainTimeoutMs) || drainTimeoutMs < 0) {
+      throw new StarciteError(
+        "worker drainTimeoutMs must be a non-negative number"
+      );
+    }
+
+    const actor = options.identity.toActor();
+    this.starcite = starcite;
+    this.identity = options.identity;
+    this.handle = options.handle;
+    this.filter = options.filter ?? ((event) => event.actor !== actor);
+    this.acceptSession = options.sessions ?? (() => true);
+    this.concurrency = concurrency;
+    this.idleTimeoutMs = idleTimeoutMs;
+    this.drainTimeoutMs = drainTimeoutMs;
+    this.title = options.title;
+    this.appendOptions = options.appendOptions;
+
+    this.stopLifecycle = [
+      starcite.on("session.created", (event) => {
+        if (this.acceptSession(event)) {
+          this.bind(event.session_id);
+        }
+      }),
+      starcite.on("session.activated", (event) => {
+        if (this.lastSeqs.has(event.session_id)) {
+          this.bind(event.session_id);
+        }
+      }),
+      starcite.on("session.archived", (event) => {
+        this.forget(event.session_id);
+      }),
+    ];
+  }
+
+  /**
+   * Ids of the sessions currently bound by this worker.
+   */
+  sessionIds(): string[] {
+    return [...this.bindings.keys()];
+  }
+
+  /**
+   * Listens for handler and binding failures.
+   */
+  on(eventName: "error", listener: (error: Error) => void): () => void {
+    this.emitter.on(eventName, listener);
+    return () => {
+      this.emitter.off(eventName, listener);
+    };
+  }
+
+  /**
+   * Stops binding sessions, lets running turns finish, drains every bound
+   * session's append queue, and disconnects the sessions.
+   *
+   * Events queued behind a running turn are dropped.
+   */
+  close(): Promise<void> {
+    this.closeTask ??= this.shutdown();
+    return this.closeTask;
+  }
+
+  private bind(sessionId: string): void {
+    if (
+      this.closeTask ||
+      this.bindings.has(sessionId) ||
+      this.pendingBinds.has(sessionId)
+    ) {
+      return;
+    }
+
+    const task = this.starcite
+      .session({
+        identity: this.identity,
+        id: sessionId,
+        title: this.title,
+        appendOptions: this.appendOptions,
+      })
+      .then((session) => {
+        if (this.closeTask) {
+          session.disconnect();
+          return;
+        }
+
+        const binding: WorkerSessionBinding = {
+          session,
+          queue: [],
+          running: false,
+          stopEvents: () => undefined,
+        };
+        binding.stopEvents = session.on("event", (event) => {
+          if (event.seq <= (this.lastSeqs.get(sessionId) ?? 0)) {
+            return;
+          }
+
+          this.lastSeqs.set(sessionId, event.seq);
+          if (this.filter(event)) {
+            this.enqueue(binding, event);
+          }
+        });
+        this.bindings.set(sessionId, binding);
+        this.remember(sessionId);
+        this.scheduleIdleDisconnect(binding);
+      })
+      .catch((error: unknown) => {
+        this.emitError(error);
+      })
+      .finally(() => {
+        this.pendingBinds.delete(sessionId);
+      });
+
+    this.pendingBinds.set(sessionId, task);
+  }
+
+  private enqueue(binding: WorkerSessionBinding, event: TailEvent): void {
+    if (this.closeTask) {
+      return;
+    }
+
+    clearTimeout(binding.idleTimer);
+    binding.idleTimer = undefined;
+    binding.queue.push(event);
+    if (!(binding.running || this.ready.includes(binding))) {
+      this.ready.push(binding);
+    }
+    this.pump();
+  }
+
+  private pump(): void {
+    while (this.activeTurns < this.concurrency && !this.closeTask) {
+      const binding = this.ready.shift();
+      const event = binding?.queue.shift();
+      if (!(binding && event)) {
+        return;
+      }
+
+      this.runTurn(binding, event);
+    }
+  }
+
+  private runTurn(binding: WorkerSessionBinding, event: TailEvent): void {
+    binding.running = true;
+    this.activeTurns += 1;
+
+    const turn = Promise.resolve()
+      .then(() => this.handle(event, { session: binding.session }))
+      .catch((error: unknown) => {
+        this.emitError(error);
+      })
+      .finally(() => {
+        this.turns.delete(turn);
+        this.activeTurns -= 1;
+        binding.running = false;
+        if (binding.queue.length > 0) {
+          this.ready.push(binding);
+        } else {
+          this.scheduleIdleDisconnect(binding);
+        }
+        this.pump();
+      });
+
+    this.turns.add(turn);
+  }
+
+  private scheduleIdleDisconnect(binding: WorkerSessionBinding): void {
+    if (this.idleTimeoutMs === 0 || this.closeTask) {
+      return;
+    }
+
+    clearTimeout(binding.idleTimer);
+    binding.idleTimer = setTimeout(() => {
+      binding.idleTimer = undefined;
+      if (binding.running || binding.queue.length > 0) {
+        return;
+      }
+
+      this.retire(binding);
+    }, this.idleTimeoutMs);
+  }
+
+  /**
+   * Moves `sessionId` to the most recently bound end of `lastSeqs` and drops
+   * the oldest unbound sessions past the limit.
+   */
+  private remember(sessionId: string): void {
+    const lastSeq = this.lastSeqs.get(sessionId) ?? 0;
+    this.lastSeqs.delete(sessionId);
+    this.lastSeqs.set(sessionId, lastSeq);
+
+    let excess = this.lastSeqs.size - WORKER_MAX_REMEMBERED_SESSIONS;
+    for (const id of this.lastSeqs.keys()) {
+      if (excess <= 0) {
+        return;
+      }
+      if (!(this.bindings.has(id) || this.pendingBinds.has(id))) {
+        this.lastSeqs.delete(id);
+        excess -= 1;
+      }
+    }
+  }
+
+  /**
+   * Drops an archived session: it is unbound once idle and not rebound on
+   * `session.activated`.
+   */
+  private forget(sessionId: string): void {
+    const binding = this.bindings.get(sessionId);
+    if (binding && !binding.running && binding.queue.length === 0) {
+      this.retire(binding);
+    }
+    this.lastSeqs.delete(sessionId);
+  }
+
+  private retire(binding: WorkerSessionBinding): void {
+    this.unbind(binding);
+    drainOutbox(binding.session, this.drainTimeoutMs).then(() => {
+      binding.session.disconnect();
+    });
+  }
+
+  private unbind(binding: WorkerSessionBinding): void {
+    clearTimeout(binding.idleTimer);
+    binding.idleTimer = undefined;
+    binding.stopEvents();
+    this.bindings.delete(binding.session.id);
+  }
+
+  private async shutdown(): Promise<void> {
+    for (const stop of this.stopLifecycle) {
+      stop();
+    }
+    this.ready.length = 0;
+    for (const binding of this.bindings.values()) {
+      binding.queue.length = 0;
+    }
+
+    await Promise.all(this.pendingBinds.values());
+    await Promise.all(this.turns);
+
+    const bindings = [...this.bindings.values()];
+    for (const binding of bindings) {
+      this.unbind(binding);
+    }
+    await Promise.all(
+      bindings.map((binding) =>
+        drainOutbox(binding.session, this.drainTimeoutMs)
+      )
+    );
+    for (const binding of bindings) {
+      binding.session.disconnect();
+    }
+  }
+
+  private emitError(error: unknown): void {
+    const workerError =
+      error instanceof Error
+        ? error
+        : new StarciteError(`Worker turn failed: ${String(error)}`);
+
+    if (this.emitter.listenerCount("error") > 0) {
+      this.emitter.emit("error", workerError);
+      return;
+    }
+
+    queueMicrotask(() => {
+      throw workerError;
+    });
+  }
+}
+
+/**
+ * Resolves once the session's append queue is empty or paused on a terminal
+ * failure that needs manual recovery, once the session is disconnected, or
+ * after `timeoutMs`, whichever comes first.
+ */
+function drainOutbox(
+  session: StarciteSession,
+  timeoutMs: number
+): Promise<void> {
+  const isDrained = (): boolean => {
+    const append = session.appendState();
+    return append.pending.length === 0 || append.status === "paused";
+  };
+  if (isDrained()) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    const stops: Array<() => void> = [];
+    const finish = (): void => {
+      clearTimeout(timer);
+      for (const stop of stops) {
+        stop();
+      }
+      resolve();
+    };
+    const timer = setTimeout(finish, timeoutMs);
+    (timer as { unref?: () => void }).unref?.();
+    stops.push(
+      session.on("state", () => {
+        if (isDrained()) {
+          finish();
+        }
+      }),
+      session.on("disconnect", finish)
+    );
+  });
+}
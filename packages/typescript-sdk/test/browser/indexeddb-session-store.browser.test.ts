@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  decodeSessionStoreValue,
+  encodeSessionStoreValue,
+  IndexedDBSessionStore,
+} from "../../src/session-store";
+import type { TailEvent } from "../../src/types";
+
+const openStores: IndexedDBSessionStore[] = [];
+
+function makeEvent(seq: number, text = `frame-${seq}`): TailEvent {
+  return {
+    seq,
+    cursor: seq,
+    type: "content",
+    payload: { text },
+    actor: "agent:drafter",
+    producer_id: "producer:drafter",
+    producer_seq: seq,
+  };
+}
+
+function makeStore(
+  databaseName: string,
+  maxSessions?: number
+): IndexedDBSessionStore {
+  const store = new IndexedDBSessionStore({ databaseName, maxSessions });
+  openStores.push(store);
+  return store;
+}
+
+function encodeTimeline(
+  events: TailEvent[],
+  pendingIds: string[] = []
+): string {
+  const lastSeq = events.at(-1)?.seq ?? 0;
+  return encodeSessionStoreValue({
+    timeline: {
+      lastSeq,
+      cursor: lastSeq,
+      events,
+      coverage:
+        events.length > 0
+          ? [
+              {
+                fromSeq: events[0]?.seq ?? 1,
+                toSeq: lastSeq,
+                afterCursor: lastSeq,
+              },
+            ]
+          : undefined,
+    },
+    outbox: {
+      producerId: "producer:local",
+      lastAcknowledgedProducerSeq: 0,
+      pending: pendingIds.map((id, index) => ({
+        id,
+        request: {
+          type: "content",
+          payload: { text: id },
+          producer_id: "producer:local",
+          producer_seq: index + 1,
+        },
+        enqueuedAtMs: 1,
+        retryAttempt: 0,
+      })),
+    },
+  });
+}
+
+async function countEventRecords(databaseName: string): Promise<number> {
+  const database = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(databaseName);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const count = await new Promise<number>((resolve, reject) => {
+    const request = database
+      .transaction("events", "readonly")
+      .objectStore("events")
+      .count();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  database.close();
+  return count;
+}
+
+describe("IndexedDBSessionStore", () => {
+  afterEach(async () => {
+    for (const store of openStores.splice(0)) {
+      await store.close();
+    }
+  });
+
+  it("round-trips timeline and outbox state through per-record storage", async () => {
+    const databaseName = `starcite-test-${crypto.randomUUID()}`;
+    const store = makeStore(databaseName);
+    const value = encodeTimeline([makeEvent(1), makeEvent(2)], ["append-1"]);
+
+    await store.write("ses_idb", value);
+
+    const restored = await makeStore(databaseName).read("ses_idb");
+    expect(decodeSessionStoreValue(restored ?? "")).toEqual(
+      decodeSessionStoreValue(value)
+    );
+    expect(await countEventRecords(databaseName)).toBe(2);
+  });
+
+  it("drops event records that are no longer part of the timeline", async () => {
+    const databaseName = `starcite-test-${crypto.randomUUID()}`;
+    const store = makeStore(databaseName);
+
+    await store.write("ses_idb", encodeTimeline([makeEvent(1), makeEvent(2)]));
+    await store.write(
+      "ses_idb",
+      encodeTimeline([makeEvent(2, "corrected"), makeEvent(3)])
+    );
+
+    const restored = decodeSessionStoreValue(
+      (await store.read("ses_idb")) ?? ""
+    );
+    expect(restored?.events).toEqual([makeEvent(2, "corrected"), makeEvent(3)]);
+    expect(await countEventRecords(databaseName)).toBe(2);
+  });
+
+  it("evicts the least recently written sessions without pending appends", async () => {
+    const databaseName = `starcite-test-${crypto.randomUUID()}`;
+    const store = makeStore(databaseName, 2);
+
+    await store.write("ses_pending", encodeTimeline([makeEvent(1)], ["a-1"]));
+    await store.write("ses_old", encodeTimeline([makeEvent(1)]));
+    await store.write("ses_new", encodeTimeline([makeEvent(1)]));
+
+    expect(await store.read("ses_pending")).toBeDefined();
+    expect(await store.read("ses_old")).toBeUndefined();
+    expect(await store.read("ses_new")).toBeDefined();
+  });
+
+  it("clears every record for a session", async () => {
+    const databaseName = `starcite-test-${crypto.randomUUID()}`;
+    const store = makeStore(databaseName);
+
+    await store.write("ses_idb", encodeTimeline([makeEvent(1)], ["a-1"]));
+    await store.clear("ses_idb");
+
+    expect(await store.read("ses_idb")).toBeUndefined();
+    expect(await countEventRecords(databaseName)).toBe(0);
+  });
+});
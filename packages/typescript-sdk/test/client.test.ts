@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 import { Starcite } from "../src/client";
 import {
   StarciteApiError,
+  StarciteAuthorizationError,
   StarciteConnectionError,
   StarciteError,
 } from "../src/errors";
@@ -10,6 +11,7 @@ import {
   encodeSessionStoreValue,
   MemorySessionStore,
 } from "../src/session-store";
+import type { AsyncSessionStore } from "../src/types";
 
 vi.mock("phoenix", () => {
   class MockChannel {
@@ -59,6 +61,22 @@ vi.mock("phoenix", () => {
       return true;
     }
 
+    onOpen(): string {
+      return "open";
+    }
+
+    onClose(): string {
+      return "close";
+    }
+
+    onError(): string {
+      return "error";
+    }
+
+    off(): void {
+      return;
+    }
+
     channel(): MockChannel {
       return new MockChannel();
     }
@@ -254,7 +272,7 @@ describe("Starcite", () => {
       baseUrl: "http://localhost:4000",
       fetch: fetchMock,
     });
-    const session = await starcite.session({ token: sessionToken });
+    const session = starcite.session({ token: sessionToken });
 
     await session.append({
       actor: "agent:researcher",
@@ -400,7 +418,7 @@ describe("Starcite", () => {
       baseUrl: "http://localhost:4000",
       fetch: fetchMock,
     });
-    const session = await starcite.session({ token: sessionToken });
+    const session = starcite.session({ token: sessionToken });
 
     const firstAppend = session.append({ text: "one" });
     const secondAppend = session.append({ text: "two" });
@@ -447,7 +465,7 @@ describe("Starcite", () => {
         baseUrl: "http://localhost:4000",
         fetch: fetchMock,
       });
-      const session = await starcite.session({ token: sessionToken });
+      const session = starcite.session({ token: sessionToken });
 
       const appendPromise = session.append({ text: "retry me" });
 
@@ -509,7 +527,7 @@ describe("Starcite", () => {
         baseUrl: "http://localhost:4000",
         fetch: fetchMock,
       });
-      const session = await starcite.session({ token: sessionToken });
+      const session = starcite.session({ token: sessionToken });
 
       const firstAppend = session.append({ text: "one" });
       const secondAppend = session.append({ text: "two" });
@@ -537,139 +555,142 @@ describe("Starcite", () => {
     }
   });
 
-  it("retries retryable append API responses before succeeding", async () => {
-    vi.useFakeTimers();
+  it("pipelines appends up to maxInFlight while acknowledging in producer order", async () => {
+    const sessionToken = makeTailSessionToken("ses_pipeline", "writer");
+    const releases = new Map<number, () => void>();
+    const settled: number[] = [];
 
-    try {
-      const sessionToken = makeTailSessionToken(
-        "ses_retryable_status",
-        "writer"
+    fetchMock.mockImplementation(async (_url, init) => {
+      const body = JSON.parse((init as RequestInit).body as string) as {
+        producer_seq: number;
+      };
+      await new Promise<void>((resolve) => {
+        releases.set(body.producer_seq, resolve);
+      });
+
+      return new Response(
+        JSON.stringify({
+          seq: body.producer_seq,
+          last_seq: body.producer_seq,
+          deduped: false,
+        }),
+        { status: 201 }
       );
+    });
 
-      fetchMock
-        .mockResolvedValueOnce(
-          new Response(
-            JSON.stringify({
-              error: "upstream_unavailable",
-              message: "please retry",
-            }),
-            { status: 503, statusText: "Service Unavailable" }
-          )
-        )
-        .mockResolvedValueOnce(
-          new Response(
-            JSON.stringify({ seq: 1, last_seq: 1, deduped: false }),
-            {
-              status: 201,
-            }
-          )
-        );
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const session = starcite.session({
+      token: sessionToken,
+      appendOptions: { maxInFlight: 2 },
+    });
 
-      const starcite = new Starcite({
-        baseUrl: "http://localhost:4000",
-        fetch: fetchMock,
-      });
-      const session = await starcite.session({ token: sessionToken });
+    const appends = ["one", "two", "three"].map((text, index) =>
+      session.append({ text }).then((result) => {
+        settled.push(index + 1);
+        return result;
+      })
+    );
 
-      const appendPromise = session.append({ text: "retry 503" });
+    await waitForValues([...releases.keys()], 2);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(session.appendState().inFlightItemIds).toHaveLength(2);
 
-      await Promise.resolve();
-      expect(fetchMock).toHaveBeenCalledTimes(1);
+    releases.get(2)?.();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(settled).toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
 
-      await vi.advanceTimersByTimeAsync(250);
+    releases.get(1)?.();
+    await waitForCondition(() => releases.has(3), "third append sent");
+    expect(settled).toEqual([1, 2]);
 
-      await expect(appendPromise).resolves.toEqual({ seq: 1, deduped: false });
-      expect(fetchMock).toHaveBeenCalledTimes(2);
-    } finally {
-      vi.useRealTimers();
-    }
+    releases.get(3)?.();
+    await expect(Promise.all(appends)).resolves.toEqual([
+      { seq: 1, deduped: false },
+      { seq: 2, deduped: false },
+      { seq: 3, deduped: false },
+    ]);
+    expect(settled).toEqual([1, 2, 3]);
+    expect(session.appendState().inFlightItemIds).toBeUndefined();
   });
 
-  it("pauses the queue on non-retryable append failures to preserve producer ordering", async () => {
-    const sessionToken = makeTailSessionToken("ses_hard_failure", "writer");
-    const lifecycleEvents: string[] = [];
+  it("resends a pipelined append the server rejected for arriving before its predecessor", async () => {
+    const sessionToken = makeTailSessionToken("ses_pipeline_order", "writer");
+    const sentSeqs: number[] = [];
+    let releaseFirst: (() => void) | undefined;
+    let committedSeq = 0;
 
-    fetchMock
-      .mockResolvedValueOnce(
-        new Response(
+    fetchMock.mockImplementation(async (_url, init) => {
+      const body = JSON.parse(String(init?.body)) as { producer_seq: number };
+      sentSeqs.push(body.producer_seq);
+      if (body.producer_seq === 1) {
+        await new Promise<void>((resolve) => {
+          releaseFirst = resolve;
+        });
+      }
+
+      if (body.producer_seq !== committedSeq + 1) {
+        return new Response(
           JSON.stringify({
-            error: "invalid_event",
-            message: "payload rejected",
+            error: "producer_seq_conflict",
+            message: "producer_seq is ahead of the last committed seq",
           }),
-          { status: 400, statusText: "Bad Request" }
-        )
-      )
-      .mockResolvedValueOnce(
-        new Response(JSON.stringify({ seq: 2, last_seq: 2, deduped: false }), {
-          status: 201,
-        })
+          { status: 409 }
+        );
+      }
+
+      committedSeq = body.producer_seq;
+      return new Response(
+        JSON.stringify({
+          seq: body.producer_seq,
+          last_seq: body.producer_seq,
+          deduped: false,
+        }),
+        { status: 201 }
       );
+    });
 
     const starcite = new Starcite({
       baseUrl: "http://localhost:4000",
       fetch: fetchMock,
     });
-    const session = await starcite.session({ token: sessionToken });
-    session.on("append", (event) => {
-      lifecycleEvents.push(event.type);
+    const session = starcite.session({
+      token: sessionToken,
+      appendOptions: { maxInFlight: 2 },
     });
 
-    const firstAppend = session.append({ text: "bad payload" });
-    const firstAppendResult = firstAppend.catch((error) => error);
-    const secondAppend = session.append({ text: "hold queue behind failure" });
-    let secondSettled = false;
-    secondAppend
-      .finally(() => {
-        secondSettled = true;
-      })
-      .catch(() => undefined);
-
-    const firstError = await firstAppendResult;
-    expect(firstError).toBeInstanceOf(StarciteApiError);
-
-    await Promise.resolve();
-    expect(secondSettled).toBe(false);
-    expect(fetchMock).toHaveBeenCalledTimes(1);
-    expect(session.appendState()).toEqual(
-      expect.objectContaining({
-        status: "paused",
-        lastFailure: expect.objectContaining({
-          retryable: false,
-          terminal: true,
-          status: 400,
-        }),
-      })
-    );
-    expect(
-      session
-        .appendState()
-        .pending.map((pendingAppend) => pendingAppend.request.producer_seq)
-    ).toEqual([1, 2]);
-    expect(lifecycleEvents[0]).toBe("queued");
-    expect(lifecycleEvents[1]).toBe("attempt_started");
-    expect(lifecycleEvents).toContain("paused");
+    const appends = Promise.all([
+      session.append({ text: "one" }),
+      session.append({ text: "two" }),
+    ]);
+    await waitForCondition(() => sentSeqs.length === 2, "window sent");
 
-    session.resetAppendQueue();
-    await expect(secondAppend).rejects.toThrow("append queue reset");
+    releaseFirst?.();
+    await expect(appends).resolves.toEqual([
+      { seq: 1, deduped: false },
+      { seq: 2, deduped: false },
+    ]);
+    expect(sentSeqs).toEqual([1, 2, 2]);
+    expect(session.appendState().status).toBe("idle");
   });
 
-  it("pauses the queue when an in-flight retrying append is aborted", async () => {
+  it("retries a pipelined window from the first unacknowledged append", async () => {
     vi.useFakeTimers();
 
     try {
-      const sessionToken = makeTailSessionToken("ses_abort_retry", "writer");
-      const abortController = new AbortController();
+      const sessionToken = makeTailSessionToken("ses_pipeline_retry", "writer");
+      let shouldFailFirstAttempt = true;
 
-      fetchMock.mockImplementation((url, init) => {
-        expect(url).toBe(
-          "http://localhost:4000/v1/sessions/ses_abort_retry/append"
-        );
-        const requestInit = init as RequestInit;
-        const body = JSON.parse(requestInit.body as string) as {
+      fetchMock.mockImplementation((_url, init) => {
+        const body = JSON.parse((init as RequestInit).body as string) as {
           producer_seq: number;
         };
 
-        if (body.producer_seq === 1) {
+        if (body.producer_seq === 1 && shouldFailFirstAttempt) {
+          shouldFailFirstAttempt = false;
           throw new Error("temporary network failure");
         }
 
@@ -687,79 +708,85 @@ describe("Starcite", () => {
         baseUrl: "http://localhost:4000",
         fetch: fetchMock,
       });
-      const session = await starcite.session({ token: sessionToken });
-
-      const firstAppend = session.append(
-        { text: "cancel me" },
-        { signal: abortController.signal }
-      );
-      const firstAppendResult = firstAppend.catch((error) => error);
-      const secondAppend = session.append({ text: "send after abort" });
-      let secondSettled = false;
-      secondAppend
-        .finally(() => {
-          secondSettled = true;
-        })
-        .catch(() => undefined);
+      const session = starcite.session({
+        token: sessionToken,
+        appendOptions: { maxInFlight: 2 },
+      });
 
-      await Promise.resolve();
-      await Promise.resolve();
-      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const firstAppend = session.append({ text: "one" });
+      const secondAppend = session.append({ text: "two" });
 
-      abortController.abort();
       await vi.advanceTimersByTimeAsync(250);
 
-      const firstError = await firstAppendResult;
-      expect(firstError).toBeInstanceOf(StarciteError);
-      expect((firstError as Error).message).toContain("append() aborted");
-      expect(secondSettled).toBe(false);
-      expect(fetchMock).toHaveBeenCalledTimes(1);
-      expect(session.appendState()).toEqual(
-        expect.objectContaining({
-          status: "paused",
-          lastFailure: expect.objectContaining({
-            retryable: false,
-            terminal: true,
-          }),
-        })
-      );
+      await expect(Promise.all([firstAppend, secondAppend])).resolves.toEqual([
+        { seq: 1, deduped: false },
+        { seq: 2, deduped: false },
+      ]);
 
-      session.resetAppendQueue();
-      await expect(secondAppend).rejects.toThrow("append queue reset");
+      const requestBodies = fetchMock.mock.calls.map((call) => {
+        return JSON.parse((call[1] as RequestInit).body as string) as {
+          producer_seq: number;
+        };
+      });
+      expect(requestBodies.map((body) => body.producer_seq)).toEqual([
+        1, 2, 1, 2,
+      ]);
     } finally {
       vi.useRealTimers();
     }
   });
 
-  it("resumes a paused queue after retry-limit exhaustion and preserves producer ordering", async () => {
+  it("rejects a non-positive maxInFlight", () => {
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+
+    expect(() =>
+      starcite.session({
+        token: makeTailSessionToken("ses_pipeline_invalid", "writer"),
+        appendOptions: { maxInFlight: 0 },
+      })
+    ).toThrow("append maxInFlight must be a positive integer");
+  });
+
+  it("sends appendMany as one atomic batch with contiguous producer sequences", async () => {
     vi.useFakeTimers();
 
     try {
-      const sessionToken = makeTailSessionToken(
-        "ses_retry_limit_resume",
-        "writer"
-      );
-      let transientFailureCount = 0;
+      const sessionToken = makeTailSessionToken("ses_append_many", "writer");
+      let shouldFailBatch = true;
 
       fetchMock.mockImplementation((url, init) => {
-        expect(url).toBe(
-          "http://localhost:4000/v1/sessions/ses_retry_limit_resume/append"
-        );
-        const requestInit = init as RequestInit;
-        const body = JSON.parse(requestInit.body as string) as {
-          producer_seq: number;
+        const body = JSON.parse((init as RequestInit).body as string) as {
+          producer_seq?: number;
+          events?: Array<{ producer_seq: number }>;
         };
 
-        if (body.producer_seq === 1 && transientFailureCount < 2) {
-          transientFailureCount += 1;
+        if (
+          url === "http://localhost:4000/v1/sessions/ses_append_many/append"
+        ) {
+          return new Response(
+            JSON.stringify({ seq: 10, last_seq: 10, deduped: false }),
+            { status: 201 }
+          );
+        }
+
+        expect(url).toBe(
+          "http://localhost:4000/v1/sessions/ses_append_many/append_batch"
+        );
+        if (shouldFailBatch) {
+          shouldFailBatch = false;
           throw new Error("temporary network failure");
         }
 
         return new Response(
           JSON.stringify({
-            seq: body.producer_seq,
-            last_seq: body.producer_seq,
-            deduped: false,
+            results: (body.events ?? []).map((_event, index) => ({
+              seq: 11 + index,
+              deduped: false,
+            })),
+            last_seq: 12,
           }),
           { status: 201 }
         );
@@ -769,26 +796,700 @@ describe("Starcite", () => {
         baseUrl: "http://localhost:4000",
         fetch: fetchMock,
       });
-      const session = await starcite.session({
-        token: sessionToken,
-        appendOptions: {
-          retryPolicy: {
-            maxAttempts: 1,
-          },
-        },
+      const session = starcite.session({ token: sessionToken });
+      const lifecycle: string[] = [];
+      session.on("append", (event) => {
+        if (event.type === "queued") {
+          lifecycle.push(`queued:${event.item.batch?.length ?? 1}`);
+        }
+        if (event.type === "acknowledged") {
+          lifecycle.push(
+            `acknowledged:${event.seq}:${event.results?.length ?? 1}`
+          );
+        }
       });
 
-      const firstAppendResult = session
-        .append({ text: "recoverable after pause" })
-        .catch((error) => error);
-      const secondAppend = session.append({ text: "send after resume" });
-
-      await Promise.resolve();
-      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const single = session.append({ text: "status" });
+      const batch = session.appendMany([
+        { type: "tool.result", payload: { ok: true } },
+        { type: "status", payload: { state: "done" } },
+      ]);
 
       await vi.advanceTimersByTimeAsync(250);
 
-      const firstError = await firstAppendResult;
+      await expect(single).resolves.toEqual({ seq: 10, deduped: false });
+      await expect(batch).resolves.toEqual([
+        { seq: 11, deduped: false },
+        { seq: 12, deduped: false },
+      ]);
+      expect(lifecycle).toEqual([
+        "queued:1",
+        "queued:2",
+        "acknowledged:10:1",
+        "acknowledged:12:2",
+      ]);
+
+      const batchBodies = fetchMock.mock.calls.slice(1).map((call) => {
+        return JSON.parse((call[1] as RequestInit).body as string) as {
+          events: Array<{ producer_seq: number; idempotency_key: string }>;
+        };
+      });
+      expect(batchBodies).toHaveLength(2);
+      expect(batchBodies[1]).toEqual(batchBodies[0]);
+      expect(batchBodies[0]?.events.map((event) => event.producer_seq)).toEqual(
+        [2, 3]
+      );
+      expect(
+        new Set(batchBodies[0]?.events.map((event) => event.idempotency_key))
+          .size
+      ).toBe(2);
+      expect(session.appendState().lastAcknowledgedProducerSeq).toBe(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("fails appendMany without retrying when the server has no batch endpoint", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ error: "not_found" }), { status: 404 })
+    );
+
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const session = starcite.session({
+      token: makeTailSessionToken("ses_no_batch", "writer"),
+    });
+
+    await expect(
+      session.appendMany([{ text: "one" }, { text: "two" }])
+    ).rejects.toMatchObject({ status: 404 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(session.appendState().status).toBe("paused");
+  });
+
+  it("pauses appendMany without retrying when the batch response is missing results", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        JSON.stringify({ results: [{ seq: 1, deduped: false }], last_seq: 1 }),
+        { status: 201 }
+      )
+    );
+
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const session = starcite.session({
+      token: makeTailSessionToken("ses_short_batch", "writer"),
+    });
+
+    const appended = session.appendMany([{ text: "one" }, { text: "two" }]);
+    await expect(appended).rejects.toBeInstanceOf(StarciteError);
+    await expect(appended).rejects.not.toBeInstanceOf(StarciteConnectionError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(session.appendState().status).toBe("paused");
+  });
+
+  it("coalesces consecutive delta appends and flushes them before other appends", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const sessionToken = makeTailSessionToken("ses_coalesce", "writer");
+      fetchMock.mockImplementation((_url, init) => {
+        const body = JSON.parse((init as RequestInit).body as string) as {
+          producer_seq: number;
+        };
+        return new Response(
+          JSON.stringify({
+            seq: body.producer_seq,
+            last_seq: body.producer_seq,
+            deduped: false,
+          }),
+          { status: 201 }
+        );
+      });
+
+      const starcite = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+      });
+      const session = starcite.session({
+        token: sessionToken,
+        appendOptions: {
+          coalesce: {
+            key: (input) =>
+              input.type === "delta" ? String(input.payload?.id) : undefined,
+            merge: (pending, next) => ({
+              ...pending,
+              payload: {
+                ...pending.payload,
+                delta: `${pending.payload?.delta}${next.payload?.delta}`,
+              },
+            }),
+            windowMs: 100,
+          },
+        },
+      });
+
+      const delta = (id: string, text: string) =>
+        session.append({ type: "delta", payload: { id, delta: text } });
+
+      const first = [delta("a", "Hel"), delta("a", "lo")];
+      await vi.advanceTimersByTimeAsync(100);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      const second = [delta("a", " wor"), delta("a", "ld"), delta("b", "!")];
+      const end = session.append({ type: "end", payload: { id: "b" } });
+
+      await expect(Promise.all([...first, ...second, end])).resolves.toEqual([
+        { seq: 1, deduped: false },
+        { seq: 1, deduped: false },
+        { seq: 2, deduped: false },
+        { seq: 2, deduped: false },
+        { seq: 3, deduped: false },
+        { seq: 4, deduped: false },
+      ]);
+
+      const requestBodies = fetchMock.mock.calls.map((call) => {
+        return JSON.parse((call[1] as RequestInit).body as string) as {
+          type: string;
+          payload: Record<string, unknown>;
+        };
+      });
+      expect(
+        requestBodies.map((body) => [body.type, body.payload.delta])
+      ).toEqual([
+        ["delta", "Hello"],
+        ["delta", " world"],
+        ["delta", "!"],
+        ["end", undefined],
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("flushes a coalesced append once its UTF-8 payload reaches maxBytes", async () => {
+    vi.useFakeTimers();
+
+    try {
+      fetchMock.mockResolvedValue(
+        new Response(JSON.stringify({ seq: 1, last_seq: 1, deduped: false }), {
+          status: 201,
+        })
+      );
+
+      const starcite = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+      });
+      const session = starcite.session({
+        token: makeTailSessionToken("ses_coalesce_bytes", "writer"),
+        appendOptions: {
+          coalesce: {
+            key: () => "delta",
+            merge: (pending, next) => ({
+              ...pending,
+              payload: {
+                delta: `${pending.payload?.delta}${next.payload?.delta}`,
+              },
+            }),
+            windowMs: 1000,
+            maxBytes: 64,
+          },
+        },
+      });
+
+      // 40 two-byte characters: under 64 UTF-16 code units, over 64 bytes.
+      const delta = "é".repeat(20);
+      const appended = [
+        session.append({ type: "delta", payload: { delta } }),
+        session.append({ type: "delta", payload: { delta } }),
+      ];
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await expect(Promise.all(appended)).resolves.toHaveLength(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("retries retryable append API responses before succeeding", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const sessionToken = makeTailSessionToken(
+        "ses_retryable_status",
+        "writer"
+      );
+
+      fetchMock
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({
+              error: "upstream_unavailable",
+              message: "please retry",
+            }),
+            { status: 503, statusText: "Service Unavailable" }
+          )
+        )
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({ seq: 1, last_seq: 1, deduped: false }),
+            {
+              status: 201,
+            }
+          )
+        );
+
+      const starcite = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+      });
+      const session = starcite.session({ token: sessionToken });
+
+      const appendPromise = session.append({ text: "retry 503" });
+
+      await Promise.resolve();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(250);
+
+      await expect(appendPromise).resolves.toEqual({ seq: 1, deduped: false });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("reports requests and append attempts to instrumentation hooks", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const sessionToken = makeTailSessionToken("ses_instrumented", "writer");
+      fetchMock
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ error: "upstream_unavailable" }), {
+            status: 503,
+          })
+        )
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({ seq: 1, last_seq: 1, deduped: false }),
+            { status: 201 }
+          )
+        );
+
+      const onRequestStart = vi.fn();
+      const onRequestEnd = vi.fn();
+      const onAppendAttempt = vi.fn(() => {
+        throw new Error("hook failure");
+      });
+      const starcite = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+        instrumentation: { onRequestStart, onRequestEnd, onAppendAttempt },
+      });
+      const session = starcite.session({ token: sessionToken });
+
+      const appendPromise = session.append({ text: "traced" });
+      await vi.advanceTimersByTimeAsync(250);
+      await expect(appendPromise).resolves.toEqual({ seq: 1, deduped: false });
+
+      const url = "http://localhost:4000/v1/sessions/ses_instrumented/append";
+      expect(onRequestStart).toHaveBeenCalledTimes(2);
+      expect(onRequestStart).toHaveBeenNthCalledWith(1, {
+        requestId: expect.any(Number),
+        method: "POST",
+        url,
+      });
+      const [failedRequest] = onRequestEnd.mock.calls[0] ?? [];
+      expect(failedRequest).toMatchObject({
+        requestId: onRequestStart.mock.calls[0]?.[0]?.requestId,
+        status: 503,
+        error: expect.any(StarciteApiError),
+      });
+      expect(onRequestEnd.mock.calls[1]?.[0]).toMatchObject({
+        requestId: onRequestStart.mock.calls[1]?.[0]?.requestId,
+        status: 201,
+      });
+      expect(onRequestEnd.mock.calls[1]?.[0]).not.toHaveProperty("error");
+      expect(onAppendAttempt.mock.calls.map(([event]) => event)).toEqual([
+        expect.objectContaining({
+          sessionId: "ses_instrumented",
+          attempt: 1,
+          eventCount: 1,
+          ok: false,
+          error: expect.any(StarciteApiError),
+        }),
+        expect.objectContaining({
+          sessionId: "ses_instrumented",
+          attempt: 2,
+          eventCount: 1,
+          ok: true,
+          error: undefined,
+        }),
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("waits at least the Retry-After delay before retrying an append", async () => {
+    vi.useFakeTimers();
+
+    try {
+      fetchMock
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ error: "rate_limited" }), {
+            status: 429,
+            headers: { "retry-after": "3" },
+          })
+        )
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({ seq: 1, last_seq: 1, deduped: false }),
+            { status: 201 }
+          )
+        );
+
+      const starcite = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+      });
+      const session = starcite.session({
+        token: makeTailSessionToken("ses_retry_after", "writer"),
+      });
+
+      const appendPromise = session.append({ text: "throttled" });
+      await vi.advanceTimersByTimeAsync(2999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(session.appendState().lastFailure).toMatchObject({
+        status: 429,
+      });
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(appendPromise).resolves.toEqual({ seq: 1, deduped: false });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("pauses the append queue instead of honoring a Retry-After beyond maxRetryAfterMs", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ error: "rate_limited" }), {
+        status: 429,
+        headers: { "retry-after": "30" },
+      })
+    );
+
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const session = starcite.session({
+      token: makeTailSessionToken("ses_retry_after_limit", "writer"),
+      appendOptions: { retryPolicy: { maxRetryAfterMs: 10_000 } },
+    });
+
+    await expect(session.append({ text: "throttled" })).rejects.toMatchObject({
+      status: 429,
+      retryAfterMs: 30_000,
+    });
+    expect(session.appendState().status).toBe("paused");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("holds the outbox while offline without spending retry attempts", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const sessionToken = makeTailSessionToken("ses_offline", "writer");
+      let online = true;
+      const listeners = new Set<(value: boolean) => void>();
+      const setOnline = (value: boolean) => {
+        online = value;
+        for (const listener of listeners) {
+          listener(value);
+        }
+      };
+
+      let failFirstAppend: ((error: Error) => void) | undefined;
+      fetchMock
+        .mockImplementationOnce(
+          () =>
+            new Promise<Response>((_, reject) => {
+              failFirstAppend = reject;
+            })
+        )
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({ seq: 1, last_seq: 1, deduped: false }),
+            { status: 201 }
+          )
+        );
+
+      const starcite = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+        connectivity: {
+          isOnline: () => online,
+          subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+          },
+        },
+      });
+      const session = starcite.session({
+        token: sessionToken,
+        appendOptions: { retryPolicy: { maxRetries: 0 } },
+      });
+
+      const appendPromise = session.append({ text: "sent after reconnect" });
+      await Promise.resolve();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      setOnline(false);
+      failFirstAppend?.(new TypeError("network down"));
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      expect(session.state().offline).toBe(true);
+      expect(session.appendState()).toMatchObject({
+        status: "offline",
+        retryAttempt: undefined,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      setOnline(true);
+
+      await expect(appendPromise).resolves.toEqual({ seq: 1, deduped: false });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(session.state().offline).toBe(false);
+      expect(session.appendState().status).toBe("idle");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("pauses the queue on non-retryable append failures to preserve producer ordering", async () => {
+    const sessionToken = makeTailSessionToken("ses_hard_failure", "writer");
+    const lifecycleEvents: string[] = [];
+
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            error: "invalid_event",
+            message: "payload rejected",
+          }),
+          { status: 400, statusText: "Bad Request" }
+        )
+      )
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ seq: 2, last_seq: 2, deduped: false }), {
+          status: 201,
+        })
+      );
+
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const session = starcite.session({ token: sessionToken });
+    session.on("append", (event) => {
+      lifecycleEvents.push(event.type);
+    });
+
+    const firstAppend = session.append({ text: "bad payload" });
+    const firstAppendResult = firstAppend.catch((error) => error);
+    const secondAppend = session.append({ text: "hold queue behind failure" });
+    let secondSettled = false;
+    secondAppend
+      .finally(() => {
+        secondSettled = true;
+      })
+      .catch(() => undefined);
+
+    const firstError = await firstAppendResult;
+    expect(firstError).toBeInstanceOf(StarciteApiError);
+
+    await Promise.resolve();
+    expect(secondSettled).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(session.appendState()).toEqual(
+      expect.objectContaining({
+        status: "paused",
+        lastFailure: expect.objectContaining({
+          retryable: false,
+          terminal: true,
+          status: 400,
+        }),
+      })
+    );
+    expect(
+      session
+        .appendState()
+        .pending.map((pendingAppend) => pendingAppend.request.producer_seq)
+    ).toEqual([1, 2]);
+    expect(
+      session
+        .state()
+        .optimisticEvents?.map((event) => [
+          event.seq,
+          "status" in event ? event.status : "committed",
+        ])
+    ).toEqual([
+      [undefined, "failed"],
+      [undefined, "queued"],
+    ]);
+    expect(lifecycleEvents[0]).toBe("queued");
+    expect(lifecycleEvents[1]).toBe("attempt_started");
+    expect(lifecycleEvents).toContain("paused");
+
+    session.resetAppendQueue();
+    await expect(secondAppend).rejects.toThrow("append queue reset");
+  });
+
+  it("pauses the queue when an in-flight retrying append is aborted", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const sessionToken = makeTailSessionToken("ses_abort_retry", "writer");
+      const abortController = new AbortController();
+
+      fetchMock.mockImplementation((url, init) => {
+        expect(url).toBe(
+          "http://localhost:4000/v1/sessions/ses_abort_retry/append"
+        );
+        const requestInit = init as RequestInit;
+        const body = JSON.parse(requestInit.body as string) as {
+          producer_seq: number;
+        };
+
+        if (body.producer_seq === 1) {
+          throw new Error("temporary network failure");
+        }
+
+        return new Response(
+          JSON.stringify({
+            seq: body.producer_seq,
+            last_seq: body.producer_seq,
+            deduped: false,
+          }),
+          { status: 201 }
+        );
+      });
+
+      const starcite = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+      });
+      const session = starcite.session({ token: sessionToken });
+
+      const firstAppend = session.append(
+        { text: "cancel me" },
+        { signal: abortController.signal }
+      );
+      const firstAppendResult = firstAppend.catch((error) => error);
+      const secondAppend = session.append({ text: "send after abort" });
+      let secondSettled = false;
+      secondAppend
+        .finally(() => {
+          secondSettled = true;
+        })
+        .catch(() => undefined);
+
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      abortController.abort();
+      await vi.advanceTimersByTimeAsync(250);
+
+      const firstError = await firstAppendResult;
+      expect(firstError).toBeInstanceOf(StarciteError);
+      expect((firstError as Error).message).toContain("append() aborted");
+      expect(secondSettled).toBe(false);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(session.appendState()).toEqual(
+        expect.objectContaining({
+          status: "paused",
+          lastFailure: expect.objectContaining({
+            retryable: false,
+            terminal: true,
+          }),
+        })
+      );
+
+      session.resetAppendQueue();
+      await expect(secondAppend).rejects.toThrow("append queue reset");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("resumes a paused queue after retry-limit exhaustion and preserves producer ordering", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const sessionToken = makeTailSessionToken(
+        "ses_retry_limit_resume",
+        "writer"
+      );
+      let transientFailureCount = 0;
+
+      fetchMock.mockImplementation((url, init) => {
+        expect(url).toBe(
+          "http://localhost:4000/v1/sessions/ses_retry_limit_resume/append"
+        );
+        const requestInit = init as RequestInit;
+        const body = JSON.parse(requestInit.body as string) as {
+          producer_seq: number;
+        };
+
+        if (body.producer_seq === 1 && transientFailureCount < 2) {
+          transientFailureCount += 1;
+          throw new Error("temporary network failure");
+        }
+
+        return new Response(
+          JSON.stringify({
+            seq: body.producer_seq,
+            last_seq: body.producer_seq,
+            deduped: false,
+          }),
+          { status: 201 }
+        );
+      });
+
+      const starcite = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+      });
+      const session = starcite.session({
+        token: sessionToken,
+        appendOptions: {
+          retryPolicy: {
+            maxRetries: 1,
+          },
+        },
+      });
+
+      const firstAppendResult = session
+        .append({ text: "recoverable after pause" })
+        .catch((error) => error);
+      const secondAppend = session.append({ text: "send after resume" });
+
+      await Promise.resolve();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(250);
+
+      const firstError = await firstAppendResult;
       expect(firstError).toBeInstanceOf(StarciteConnectionError);
       expect(session.appendState().status).toBe("paused");
 
@@ -825,7 +1526,7 @@ describe("Starcite", () => {
       fetch: fetchMock,
       sessionStore,
     });
-    const session = await starcite.session({
+    const session = starcite.session({
       token: sessionToken,
       appendOptions: {
         autoFlush: false,
@@ -856,7 +1557,7 @@ describe("Starcite", () => {
       fetch: fetchMock,
       sessionStore,
     });
-    const restoredSession = await restoredClient.session({
+    const restoredSession = restoredClient.session({
       token: sessionToken,
     });
 
@@ -890,6 +1591,368 @@ describe("Starcite", () => {
     );
   });
 
+  it("persists an appendMany batch as one outbox entry and flushes it after restore", async () => {
+    const sessionToken = makeTailSessionToken("ses_persisted_batch", "writer");
+    const sessionStore = new MemorySessionStore();
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      sessionStore,
+    });
+    const session = starcite.session({
+      token: sessionToken,
+      appendOptions: {
+        autoFlush: false,
+      },
+    });
+
+    session
+      .appendMany([{ text: "first" }, { text: "second" }])
+      .catch(() => undefined);
+
+    const pending = readStoredState(sessionStore, "ses_persisted_batch")?.outbox
+      ?.pending;
+    expect(pending).toHaveLength(1);
+    expect(pending?.[0]?.batch?.map((req) => req.producer_seq)).toEqual([1, 2]);
+
+    fetchMock.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          results: [
+            { seq: 1, deduped: false },
+            { seq: 2, deduped: false },
+          ],
+          last_seq: 2,
+        }),
+        { status: 201 }
+      )
+    );
+
+    const restoredSession = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      sessionStore,
+    }).session({ token: sessionToken });
+
+    await waitForCondition(() => {
+      return (
+        readStoredState(sessionStore, "ses_persisted_batch")?.outbox?.pending
+          .length === 0
+      );
+    }, "persisted batch to flush");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(
+      "http://localhost:4000/v1/sessions/ses_persisted_batch/append_batch"
+    );
+    expect(restoredSession.appendState().lastAcknowledgedProducerSeq).toBe(2);
+  });
+
+  it("restores pending appends from an async session store before flushing new ones", async () => {
+    const sessionToken = makeTailSessionToken("ses_async_outbox", "writer");
+    const backing = new MemorySessionStore();
+    const sessionStore: AsyncSessionStore = {
+      read: async (sessionId) => {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        return backing.read(sessionId);
+      },
+      write: async (sessionId, value) => {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        backing.write(sessionId, value);
+      },
+    };
+    const producerId = crypto.randomUUID();
+    backing.write(
+      "ses_async_outbox",
+      encodeSessionStoreValue({
+        outbox: {
+          producerId,
+          lastAcknowledgedProducerSeq: 0,
+          pending: [
+            {
+              id: "restored-append",
+              request: {
+                type: "content",
+                payload: { text: "restored" },
+                producer_id: producerId,
+                producer_seq: 1,
+                source: "agent",
+                idempotency_key: "restored-append",
+              },
+              enqueuedAtMs: 1,
+              retryAttempt: 0,
+            },
+          ],
+        },
+      })
+    );
+
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ seq: 1, last_seq: 1, deduped: false }), {
+          status: 201,
+        })
+      )
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ seq: 2, last_seq: 2, deduped: false }), {
+          status: 201,
+        })
+      );
+
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      sessionStore,
+    });
+    const session = starcite.session({ token: sessionToken });
+    const result = await session.append({ text: "fresh" });
+
+    expect(result).toEqual({ seq: 2, deduped: false });
+    const bodies = fetchMock.mock.calls.map((call) => {
+      return JSON.parse((call[1] as RequestInit).body as string) as {
+        producer_id: string;
+        producer_seq: number;
+      };
+    });
+    expect(bodies).toEqual([
+      expect.objectContaining({ producer_id: producerId, producer_seq: 1 }),
+      expect.objectContaining({ producer_id: producerId, producer_seq: 2 }),
+    ]);
+
+    await session.flushStore();
+    expect(readStoredState(backing, "ses_async_outbox")?.outbox).toEqual(
+      expect.objectContaining({
+        producerId,
+        lastAcknowledgedProducerSeq: 2,
+        pending: [],
+      })
+    );
+  });
+
+  it("leaves the persisted outbox to the session store lock holder", async () => {
+    const sessionToken = makeTailSessionToken("ses_locked_outbox", "writer");
+    const backing = new MemorySessionStore();
+    let lockHeld = false;
+    const sessionStore: AsyncSessionStore = {
+      read: (sessionId) => Promise.resolve(backing.read(sessionId)),
+      write: (sessionId, value) => {
+        backing.write(sessionId, value);
+        return Promise.resolve();
+      },
+      lock: () => {
+        if (lockHeld) {
+          return Promise.resolve(undefined);
+        }
+
+        lockHeld = true;
+        return Promise.resolve({
+          release: () => {
+            lockHeld = false;
+            return Promise.resolve();
+          },
+        });
+      },
+    };
+    const producerId = crypto.randomUUID();
+    const storedValue = encodeSessionStoreValue({
+      outbox: {
+        producerId,
+        lastAcknowledgedProducerSeq: 0,
+        pending: [
+          {
+            id: "restored-append",
+            request: {
+              type: "content",
+              payload: { text: "restored" },
+              producer_id: producerId,
+              producer_seq: 1,
+              source: "agent",
+              idempotency_key: "restored-append",
+            },
+            enqueuedAtMs: 1,
+            retryAttempt: 0,
+          },
+        ],
+      },
+    });
+    backing.write("ses_locked_outbox", storedValue);
+
+    const owner = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      sessionStore,
+      appendOptions: { autoFlush: false },
+    }).session({ token: sessionToken });
+    await owner.ready();
+
+    const follower = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      sessionStore,
+    }).session({ token: sessionToken });
+    await follower.ready();
+
+    expect(owner.appendState().pending).toHaveLength(1);
+    expect(follower.appendState().pending).toHaveLength(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ seq: 1, last_seq: 1, deduped: false }), {
+        status: 201,
+      })
+    );
+    await follower.append({ text: "from follower" });
+    await follower.flushStore();
+    expect(backing.read("ses_locked_outbox")).toBe(storedValue);
+
+    owner.disconnect();
+    await waitForCondition(() => !lockHeld, "owner to release the lock");
+    follower.disconnect();
+  });
+
+  it("retries the session store lock and takes over the holder's outbox once it is released", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const sessionToken = makeTailSessionToken("ses_lock_takeover", "writer");
+      const backing = new MemorySessionStore();
+      let lockHeld = false;
+      const sessionStore: AsyncSessionStore = {
+        read: (sessionId) => Promise.resolve(backing.read(sessionId)),
+        write: (sessionId, value) => {
+          backing.write(sessionId, value);
+          return Promise.resolve();
+        },
+        lock: () => {
+          if (lockHeld) {
+            return Promise.resolve(undefined);
+          }
+
+          lockHeld = true;
+          return Promise.resolve({
+            release: () => {
+              lockHeld = false;
+              return Promise.resolve();
+            },
+          });
+        },
+      };
+      const producerId = crypto.randomUUID();
+      backing.write(
+        "ses_lock_takeover",
+        encodeSessionStoreValue({
+          outbox: {
+            producerId,
+            lastAcknowledgedProducerSeq: 0,
+            pending: [
+              {
+                id: "orphaned-append",
+                request: {
+                  type: "content",
+                  payload: { text: "orphaned" },
+                  producer_id: producerId,
+                  producer_seq: 1,
+                  source: "agent",
+                  idempotency_key: "orphaned-append",
+                },
+                enqueuedAtMs: 1,
+                retryAttempt: 0,
+              },
+            ],
+          },
+        })
+      );
+      const clientOptions = {
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+        sessionStore,
+        appendOptions: { autoFlush: false },
+      };
+
+      const owner = new Starcite(clientOptions).session({
+        token: sessionToken,
+      });
+      await owner.ready();
+      const follower = new Starcite(clientOptions).session({
+        token: sessionToken,
+      });
+      await follower.ready();
+      expect(follower.appendState().pending).toHaveLength(0);
+
+      owner.disconnect();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(lockHeld).toBe(true);
+      expect(follower.appendState().pending.map((item) => item.id)).toEqual([
+        "orphaned-append",
+      ]);
+
+      follower.disconnect();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(lockHeld).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("writes back restored appends that an async restore found already committed", async () => {
+    const sessionToken = makeTailSessionToken("ses_async_reconcile", "writer");
+    const backing = new MemorySessionStore();
+    const sessionStore: AsyncSessionStore = {
+      read: (sessionId) => Promise.resolve(backing.read(sessionId)),
+      write: (sessionId, value) => {
+        backing.write(sessionId, value);
+        return Promise.resolve();
+      },
+    };
+    const producerId = crypto.randomUUID();
+    const request = {
+      type: "content",
+      payload: { text: "already committed" },
+      producer_id: producerId,
+      producer_seq: 1,
+      source: "agent",
+      idempotency_key: "committed-append",
+    };
+    backing.write(
+      "ses_async_reconcile",
+      encodeSessionStoreValue({
+        timeline: {
+          cursor: 1,
+          lastSeq: 1,
+          events: [{ ...request, seq: 1, actor: "agent:writer", cursor: 1 }],
+          coverage: [{ fromSeq: 1, toSeq: 1, afterCursor: 1 }],
+        },
+        outbox: {
+          producerId,
+          lastAcknowledgedProducerSeq: 0,
+          pending: [
+            {
+              id: "committed-append",
+              request,
+              enqueuedAtMs: 1,
+              retryAttempt: 0,
+            },
+          ],
+        },
+      })
+    );
+
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      sessionStore,
+    }).session({ token: sessionToken });
+    await session.ready();
+    await session.flushStore();
+
+    expect(session.appendState().pending).toEqual([]);
+    expect(readStoredState(backing, "ses_async_reconcile")?.outbox).toEqual(
+      expect.objectContaining({ lastAcknowledgedProducerSeq: 1, pending: [] })
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+    session.disconnect();
+  });
+
   it("auto-flushes restored pending appends when the session store only restores durable tail state", async () => {
     const sessionToken = makeTailSessionToken(
       "ses_reconciled_outbox",
@@ -938,7 +2001,7 @@ describe("Starcite", () => {
       fetch: fetchMock,
       sessionStore,
     });
-    const restoredSession = await starcite.session({
+    const restoredSession = starcite.session({
       token: sessionToken,
     });
 
@@ -998,7 +2061,7 @@ describe("Starcite", () => {
       fetch: fetchMock,
       sessionStore,
     });
-    const session = await starcite.session({ token: sessionToken });
+    const session = starcite.session({ token: sessionToken });
     const firstAppendResult = session
       .append({ text: "bad payload" })
       .catch((error) => error);
@@ -1017,7 +2080,7 @@ describe("Starcite", () => {
       fetch: fetchMock,
       sessionStore,
     });
-    const restoredSession = await restoredClient.session({
+    const restoredSession = restoredClient.session({
       token: sessionToken,
     });
 
@@ -1055,7 +2118,7 @@ describe("Starcite", () => {
       baseUrl: "http://localhost:4000",
       fetch: fetchMock,
     });
-    const session = await starcite.session({
+    const session = starcite.session({
       token: sessionToken,
       appendOptions: {
         terminalFailureMode: "clear",
@@ -1161,6 +2224,304 @@ describe("Starcite", () => {
     });
   });
 
+  it("mints session tokens with custom scopes and TTL", async () => {
+    const readOnlyToken = makeTailSessionToken("ses_share", "viewer", "user");
+    fetchMock.mockImplementation((input) =>
+      Promise.resolve(
+        String(input).endsWith("/v1/sessions")
+          ? new Response(
+              JSON.stringify({
+                id: "ses_share",
+                title: null,
+                metadata: {},
+                created_at: "2026-02-11T00:00:00Z",
+                updated_at: "2026-02-11T00:00:00Z",
+              }),
+              { status: 201 }
+            )
+          : new Response(
+              JSON.stringify({ token: readOnlyToken, expires_in: 300 }),
+              { status: 200 }
+            )
+      )
+    );
+
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      apiKey: makeApiKey(),
+    });
+    const viewer = starcite.user({ id: "viewer" });
+    const tokenBody = (index: number) =>
+      JSON.parse(String(fetchMock.mock.calls[index]?.[1]?.body));
+
+    await expect(
+      starcite.issueToken({
+        sessionId: "ses_share",
+        identity: viewer,
+        scopes: ["session:read"],
+        ttlSeconds: 300,
+      })
+    ).resolves.toEqual({ token: readOnlyToken, expiresIn: 300 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(
+      "https://starcite.ai/api/v1/session-tokens"
+    );
+    expect(tokenBody(0)).toEqual({
+      session_id: "ses_share",
+      principal: { id: "viewer", type: "user" },
+      scopes: ["session:read"],
+      ttl_seconds: 300,
+    });
+
+    const session = await starcite.session({
+      identity: viewer,
+      id: "ses_share",
+      scopes: ["session:read"],
+      ttlSeconds: 60,
+    });
+    expect(session.token).toBe(readOnlyToken);
+    expect(tokenBody(2)).toMatchObject({
+      scopes: ["session:read"],
+      ttl_seconds: 60,
+    });
+
+    await session.refreshAuth();
+    expect(tokenBody(3)).toMatchObject({
+      scopes: ["session:read"],
+      ttl_seconds: 60,
+    });
+    session.disconnect();
+
+    await expect(
+      starcite.issueToken({
+        sessionId: "ses_share",
+        identity: viewer,
+        scopes: [],
+      })
+    ).rejects.toThrow("Session token scopes must be a non-empty list");
+    await expect(
+      starcite.session({ identity: viewer, ttlSeconds: 0 })
+    ).rejects.toThrow("ttlSeconds must be a positive integer");
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("rejects appends locally when the session token lacks the append scope", async () => {
+    const readOnlyToken = tokenFromClaims({
+      session_id: "ses_share",
+      tenant_id: "test-tenant",
+      principal_id: "viewer",
+      principal_type: "user",
+      scopes: ["session:read"],
+    });
+    const sessionStore = new MemorySessionStore();
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      sessionStore,
+    });
+
+    const session = starcite.session({ token: readOnlyToken });
+    expect(session.capabilities).toEqual({ read: true, append: false });
+
+    const appended = session.append({ text: "hello" });
+    await expect(appended).rejects.toBeInstanceOf(StarciteAuthorizationError);
+    await expect(appended).rejects.toMatchObject({
+      sessionId: "ses_share",
+      requiredScope: "session:append",
+    });
+    await expect(
+      session.appendMany([{ text: "one" }, { text: "two" }])
+    ).rejects.toBeInstanceOf(StarciteAuthorizationError);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(session.appendState().pending).toEqual([]);
+    expect(readStoredState(sessionStore, "ses_share")?.outbox).toBe(undefined);
+
+    const fullSession = starcite.session({
+      token: makeTailSessionToken("ses_full"),
+    });
+    expect(fullSession.capabilities).toEqual({ read: true, append: true });
+    session.disconnect();
+    fullSession.disconnect();
+  });
+
+  it("shares one live session per session id, identity and scopes and disposes idle sessions by TTL and LRU", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const starcite = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+        sessionRegistry: { idleTimeoutMs: 1000, maxIdleSessions: 1 },
+      });
+      const writerToken = makeTailSessionToken("ses_shared", "writer");
+      const readerToken = makeTailSessionToken("ses_shared", "reader");
+
+      // Leases on one session share its history.
+      const first = starcite.session({ token: writerToken });
+      const second = starcite.session({ token: writerToken });
+      const reader = starcite.session({ token: readerToken });
+      expect(second).not.toBe(first);
+      expect(second.events()).toBe(first.events());
+      expect(reader.events()).not.toBe(first.events());
+
+      first.disconnect();
+      first.disconnect();
+      const third = starcite.session({ token: writerToken });
+      expect(third.events()).toBe(second.events());
+
+      second.disconnect();
+      third.disconnect();
+      const revived = starcite.session({ token: writerToken });
+      expect(revived.events()).toBe(first.events());
+
+      revived.disconnect();
+      await vi.advanceTimersByTimeAsync(1000);
+      const replacement = starcite.session({ token: writerToken });
+      expect(replacement.events()).not.toBe(first.events());
+
+      replacement.disconnect();
+      reader.disconnect();
+      expect(starcite.session({ token: writerToken }).events()).not.toBe(
+        replacement.events()
+      );
+      expect(starcite.session({ token: readerToken }).events()).toBe(
+        reader.events()
+      );
+
+      starcite.close();
+      expect(() => starcite.session({ token: writerToken })).toThrow(
+        "Starcite client is closed."
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("keeps a released session with pending appends until its outbox drains", async () => {
+    let respond: (() => void) | undefined;
+    fetchMock.mockImplementation(
+      () =>
+        new Promise<Response>((resolve) => {
+          respond = () =>
+            resolve(
+              new Response(
+                JSON.stringify({ seq: 1, last_seq: 1, deduped: false }),
+                { status: 201 }
+              )
+            );
+        })
+    );
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const token = makeTailSessionToken("ses_release");
+
+    const session = starcite.session({ token });
+    const events = session.events();
+    const appended = session.append({ text: "hello" });
+    await vi.waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    session.disconnect();
+    respond?.();
+    await expect(appended).resolves.toEqual({ seq: 1, deduped: false });
+
+    const next = starcite.session({ token });
+    expect(next.events()).not.toBe(events);
+    next.disconnect();
+  });
+
+  it("keeps listeners per lease and adopts a later-expiring token for a shared session", () => {
+    fetchMock.mockReturnValue(new Promise<Response>(() => undefined));
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const now = Math.floor(Date.now() / 1000);
+    const shortToken = tokenFromClaims({
+      session_id: "ses_lease",
+      tenant_id: "test-tenant",
+      principal_id: "drafter",
+      principal_type: "agent",
+      exp: now + 600,
+    });
+    const longToken = tokenFromClaims({
+      session_id: "ses_lease",
+      tenant_id: "test-tenant",
+      principal_id: "drafter",
+      principal_type: "agent",
+      exp: now + 3600,
+    });
+
+    const first = starcite.session({ token: shortToken });
+    const second = starcite.session({ token: longToken });
+    expect(first.token).toBe(longToken);
+    expect(starcite.session({ token: shortToken }).token).toBe(longToken);
+
+    const firstStates = vi.fn();
+    const secondStates = vi.fn();
+    first.on("state", firstStates);
+    second.on("state", secondStates);
+    first.disconnect();
+
+    second.append({ text: "still shared" }).catch(() => undefined);
+    expect(firstStates).not.toHaveBeenCalled();
+    expect(secondStates).toHaveBeenCalled();
+
+    starcite.close();
+  });
+
+  it("dedupes concurrent session({ identity, id }) calls into one bind", async () => {
+    fetchMock.mockImplementation((input) =>
+      Promise.resolve(
+        String(input).endsWith("/v1/sessions")
+          ? new Response(
+              JSON.stringify({
+                id: "ses_bind",
+                title: null,
+                metadata: {},
+                created_at: "2026-02-11T00:00:00Z",
+                updated_at: "2026-02-11T00:00:00Z",
+              }),
+              { status: 201 }
+            )
+          : new Response(
+              JSON.stringify({
+                token: makeTailSessionToken("ses_bind", "planner"),
+                expires_in: 3600,
+              }),
+              { status: 200 }
+            )
+      )
+    );
+
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      apiKey: makeApiKey(),
+    });
+    const planner = starcite.agent({ id: "planner" });
+
+    const [first, second] = await Promise.all([
+      starcite.session({ identity: planner, id: "ses_bind" }),
+      starcite.session({ identity: planner, id: "ses_bind" }),
+    ]);
+    expect(second.events()).toBe(first.events());
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const third = await starcite.session({ identity: planner, id: "ses_bind" });
+    expect(third.events()).toBe(first.events());
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    starcite.close();
+    await expect(
+      starcite.session({ identity: planner, id: "ses_bind" })
+    ).rejects.toThrow("Starcite client is closed.");
+  });
+
   it("session({ identity, id }) binds when create returns conflict", async () => {
     const apiKey = makeApiKey({
       iss: "https://starcite.ai",
@@ -1254,7 +2615,7 @@ describe("Starcite", () => {
     );
   });
 
-  it("fails session creation when apiKey is missing", async () => {
+  it("fails session creation when apiKey is missing", () => {
     const sessionToken = makeTailSessionToken("ses_demo", "user-42", "user");
     const starcite = new Starcite({
       baseUrl: "https://tenant-a.starcite.io",
@@ -1262,7 +2623,7 @@ describe("Starcite", () => {
     });
 
     // session({ token }) works without apiKey
-    const session = await starcite.session({
+    const session = starcite.session({
       token: sessionToken,
     });
     expect(session.id).toBe("ses_demo");
@@ -1568,6 +2929,120 @@ describe("Starcite", () => {
     );
   });
 
+  it("retries safe requests with backoff and honors Retry-After", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const record = {
+        id: "ses_retry",
+        title: null,
+        metadata: {},
+        archived: false,
+        created_at: "2026-02-13T00:00:00Z",
+        updated_at: "2026-02-13T00:00:00Z",
+        version: 1,
+      };
+      fetchMock
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ error: "rate_limited" }), {
+            status: 429,
+            headers: { "retry-after": "2" },
+          })
+        )
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify(record), { status: 200 })
+        );
+
+      const starcite = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+        apiKey: makeApiKey(),
+        retryPolicy: { jitterRatio: 0 },
+      });
+
+      const pending = starcite.getSession("ses_retry");
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(pending).resolves.toMatchObject({ id: "ses_retry" });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("fails without retrying when Retry-After exceeds maxRetryAfterMs", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ error: "rate_limited" }), {
+        status: 429,
+        headers: { "retry-after": "120" },
+      })
+    );
+
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      apiKey: makeApiKey(),
+    });
+
+    await expect(starcite.getSession("ses_throttled")).rejects.toMatchObject({
+      status: 429,
+      retryAfterMs: 120_000,
+      retryCount: 0,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports the retry count once retries are exhausted and never retries unsafe requests", async () => {
+    vi.useFakeTimers();
+
+    try {
+      fetchMock.mockImplementation(() =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({
+              error: "archive_read_unavailable",
+              message: "archive offline",
+            }),
+            { status: 503 }
+          )
+        )
+      );
+
+      const starcite = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: fetchMock,
+        apiKey: makeApiKey(),
+        retryPolicy: { maxRetries: 2, jitterRatio: 0 },
+      });
+
+      const archived = starcite.archiveSession("ses_unavailable");
+      const assertion = expect(archived).rejects.toMatchObject({
+        status: 503,
+        code: "archive_read_unavailable",
+        retryCount: 2,
+      });
+      await vi.advanceTimersByTimeAsync(750);
+      await assertion;
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      fetchMock.mockClear();
+      await expect(
+        starcite.session({ identity: starcite.agent({ id: "planner" }) })
+      ).rejects.toMatchObject({ status: 503, retryCount: 0 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockClear();
+      await expect(
+        starcite.updateSession("ses_unavailable", { title: "Renamed" })
+      ).rejects.toMatchObject({ status: 503, retryCount: 0 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
   it("applies bearer authorization header from apiKey for HTTP requests", async () => {
     fetchMock.mockResolvedValueOnce(
       new Response(
@@ -1596,6 +3071,115 @@ describe("Starcite", () => {
     expect(headers.get("authorization")).toBe(`Bearer ${apiKey}`);
   });
 
+  it("runs HTTP middleware in order for client and session requests", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ seq: 1, last_seq: 1, deduped: false }), {
+        status: 201,
+      })
+    );
+
+    const calls: string[] = [];
+    const statuses: number[] = [];
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      apiKey: makeApiKey(),
+      middleware: [
+        async (request, next) => {
+          calls.push(`outer ${request.method} ${request.url}`);
+          const response = await next(request);
+          statuses.push(response.status);
+          return response;
+        },
+        (request, next) => {
+          calls.push("inner");
+          if (request.url.endsWith("/v1/sessions")) {
+            return new Response(
+              JSON.stringify({ sessions: [], next_cursor: null }),
+              { status: 200 }
+            );
+          }
+          request.headers.set("x-request-id", "req-1");
+          return next({ ...request, url: `${request.url}?traced=1` });
+        },
+      ],
+    });
+
+    await expect(starcite.listSessions()).resolves.toEqual({
+      sessions: [],
+      next_cursor: null,
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const session = starcite.session({
+      token: makeTailSessionToken("ses_middleware", "writer"),
+    });
+    await session.append({ text: "hello" });
+
+    expect(calls).toEqual([
+      "outer GET http://localhost:4000/v1/sessions",
+      "inner",
+      "outer POST http://localhost:4000/v1/sessions/ses_middleware/append",
+      "inner",
+    ]);
+    expect(statuses).toEqual([200, 201]);
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    const headers = new Headers(init?.headers);
+    expect(url).toBe(
+      "http://localhost:4000/v1/sessions/ses_middleware/append?traced=1"
+    );
+    expect(headers.get("x-request-id")).toBe("req-1");
+    expect(headers.get("authorization")).toBe(
+      `Bearer ${makeTailSessionToken("ses_middleware", "writer")}`
+    );
+    expect(init?.method).toBe("POST");
+
+    session.disconnect();
+  });
+
+  it("passes middleware errors through unchanged and without retries", async () => {
+    const middlewareError = new TypeError("request signing failed");
+    const signer = vi.fn(() => {
+      throw middlewareError;
+    });
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      apiKey: makeApiKey(),
+      middleware: [signer],
+    });
+
+    await expect(starcite.getSession("ses_signed")).rejects.toBe(
+      middlewareError
+    );
+    expect(signer).toHaveBeenCalledTimes(1);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const observed: unknown[] = [];
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+    const observing = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      apiKey: makeApiKey(),
+      retryPolicy: false,
+      middleware: [
+        async (request, next) => {
+          try {
+            return await next(request);
+          } catch (error) {
+            observed.push(error);
+            throw error;
+          }
+        },
+      ],
+    });
+
+    await expect(observing.getSession("ses_offline")).rejects.toBeInstanceOf(
+      StarciteConnectionError
+    );
+    expect(observed).toEqual([expect.any(StarciteConnectionError)]);
+  });
+
   it("serializes archived session filters on list requests", async () => {
     fetchMock.mockImplementation(() => {
       return Promise.resolve(
@@ -1638,6 +3222,79 @@ describe("Starcite", () => {
     );
   });
 
+  it("iterates sessions across pages with filters, prefetch, and a max-items cap", async () => {
+    const listPage = (ids: string[], nextCursor: string | null) =>
+      new Response(
+        JSON.stringify({
+          sessions: ids.map((id) => ({
+            id,
+            metadata: {},
+            created_at: "2026-01-01T00:00:00Z",
+          })),
+          next_cursor: nextCursor,
+        }),
+        { status: 200 }
+      );
+    fetchMock
+      .mockResolvedValueOnce(listPage(["ses_1", "ses_2"], "c2"))
+      .mockResolvedValueOnce(listPage(["ses_3", "ses_4"], "c3"))
+      .mockResolvedValueOnce(listPage(["ses_5"], null));
+
+    const starcite = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+
+    const ids: string[] = [];
+    for await (const session of starcite.iterateSessions({
+      limit: 2,
+      archived: "all",
+      metadata: { workflow: "planner" },
+      prefetchPages: 1,
+    })) {
+      ids.push(session.id);
+      if (ids.length === 1) {
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      }
+    }
+
+    expect(ids).toEqual(["ses_1", "ses_2", "ses_3", "ses_4", "ses_5"]);
+    expect(fetchMock.mock.calls.map((call) => call[0])).toEqual([
+      "http://localhost:4000/v1/sessions?limit=2&archived=all&metadata.workflow=planner",
+      "http://localhost:4000/v1/sessions?limit=2&cursor=c2&archived=all&metadata.workflow=planner",
+      "http://localhost:4000/v1/sessions?limit=2&cursor=c3&archived=all&metadata.workflow=planner",
+    ]);
+
+    fetchMock.mockReset();
+    fetchMock
+      .mockResolvedValueOnce(listPage(["ses_1", "ses_2"], "c2"))
+      .mockResolvedValueOnce(listPage(["ses_3", "ses_4"], "c3"));
+
+    const capped: string[] = [];
+    for await (const session of starcite.iterateSessions({ maxItems: 3 })) {
+      capped.push(session.id);
+    }
+    expect(capped).toEqual(["ses_1", "ses_2", "ses_3"]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const controller = new AbortController();
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValueOnce(listPage(["ses_1", "ses_2"], "c2"));
+    const aborted: string[] = [];
+    for await (const session of starcite.iterateSessions({
+      signal: controller.signal,
+    })) {
+      aborted.push(session.id);
+      controller.abort();
+    }
+    expect(aborted).toEqual(["ses_1"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    expect(() => starcite.iterateSessions({ maxItems: -1 })).toThrow(
+      "iterateSessions maxItems must be a non-negative integer"
+    );
+  });
+
   it("fetches a session header by id", async () => {
     fetchMock.mockResolvedValueOnce(
       new Response(
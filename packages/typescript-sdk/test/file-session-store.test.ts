@@ -0,0 +1,94 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileSessionStore } from "../src/file-session-store";
+
+describe("FileSessionStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "starcite-file-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("round-trips one file per session without leaving temp files behind", async () => {
+    const store = new FileSessionStore({ directory });
+
+    expect(await store.read("ses/one")).toBeUndefined();
+
+    await store.write("ses/one", "first");
+    await store.write("ses/one", "second");
+    await store.write("ses_two", "other");
+
+    expect(await store.read("ses/one")).toBe("second");
+    expect(await store.read("ses_two")).toBe("other");
+    expect((await readdir(directory)).sort()).toEqual([
+      "ses%2Fone.json",
+      "ses_two.json",
+    ]);
+
+    await store.clear("ses/one");
+    expect(await store.read("ses/one")).toBeUndefined();
+  });
+
+  it("grants the session lock to one holder at a time", async () => {
+    const first = new FileSessionStore({ directory });
+    const second = new FileSessionStore({ directory });
+
+    const lock = await first.lock("ses_locked");
+    expect(lock).toBeDefined();
+    expect(await second.lock("ses_locked")).toBeUndefined();
+    expect(await second.lock("ses_other")).toBeDefined();
+
+    await lock?.release();
+    const takeover = await second.lock("ses_locked");
+    expect(takeover).toBeDefined();
+    await takeover?.release();
+  });
+
+  it("takes over locks left behind by a dead process on the same host", async () => {
+    await writeFile(
+      join(directory, "ses_stale.json.lock"),
+      JSON.stringify({
+        token: "stale",
+        pid: 2_147_483_646,
+        hostname: hostname(),
+        acquiredAtMs: 0,
+      })
+    );
+
+    const store = new FileSessionStore({ directory });
+    const lock = await store.lock("ses_stale");
+
+    expect(lock).toBeDefined();
+    await lock?.release();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it("lets only one of several racing stores take over a stale lock", async () => {
+    await writeFile(
+      join(directory, "ses_race.json.lock"),
+      JSON.stringify({
+        token: "stale",
+        pid: 2_147_483_646,
+        hostname: hostname(),
+        acquiredAtMs: 0,
+      })
+    );
+
+    const locks = await Promise.all(
+      Array.from({ length: 4 }, () =>
+        new FileSessionStore({ directory }).lock("ses_race")
+      )
+    );
+
+    const held = locks.filter((lock) => lock !== undefined);
+    expect(held).toHaveLength(1);
+    expect(await readdir(directory)).toEqual(["ses_race.json.lock"]);
+    await held[0]?.release();
+  });
+});
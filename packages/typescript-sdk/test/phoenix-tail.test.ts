@@ -1,12 +1,17 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { Starcite } from "../src/client";
-import { StarciteTailError, StarciteTokenExpiredError } from "../src/errors";
+import {
+  StarciteError,
+  StarciteTailError,
+  StarciteTimeoutError,
+  StarciteTokenExpiredError,
+} from "../src/errors";
 import {
   decodeSessionStoreValue,
   encodeSessionStoreValue,
   MemorySessionStore,
 } from "../src/session-store";
-import type { SessionSnapshot } from "../src/types";
+import type { SessionSnapshot, StarciteConnectionState } from "../src/types";
 
 const phoenixMock = vi.hoisted(() => {
   class MockPush {
@@ -615,6 +620,395 @@ describe("Phoenix Tail Transport", () => {
     expect(socket?.disconnectCalls).toHaveLength(1);
   });
 
+  it("runs worker turns per session under a global concurrency cap and drains outboxes on close", async () => {
+    const appendResponses: Array<() => void> = [];
+    let nextSeq = 10;
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockImplementation((input, init) => {
+        const url = String(input);
+        const body = JSON.parse(String(init?.body ?? "{}")) as {
+          id?: string;
+          session_id?: string;
+        };
+        if (url.endsWith("/v1/sessions")) {
+          return Promise.resolve(makeSessionRecord(body.id ?? ""));
+        }
+        if (url.endsWith("/append")) {
+          return new Promise<Response>((resolve) => {
+            appendResponses.push(() => {
+              nextSeq += 1;
+              resolve(
+                new Response(
+                  JSON.stringify({
+                    seq: nextSeq,
+                    last_seq: nextSeq,
+                    deduped: false,
+                  }),
+                  { status: 201 }
+                )
+              );
+            });
+          });
+        }
+        return Promise.resolve(makeTokenResponse(body.session_id ?? ""));
+      });
+
+    const client = new Starcite({
+      apiKey: makeApiKey(),
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const started: string[] = [];
+    const finishTurn: Array<() => void> = [];
+    const worker = client.worker({
+      identity: client.agent({ id: "planner" }),
+      concurrency: 1,
+      handle: (event, { session }) =>
+        new Promise<void>((resolve) => {
+          started.push(`${session.id}:${event.seq}`);
+          finishTurn.push(() => {
+            session.append({ text: `reply ${event.seq}` });
+            resolve();
+          });
+        }),
+    });
+
+    const lifecycle = await waitForChannel("lifecycle");
+    phoenixMock.MockPhoenixSocket.instances[0]?.emitOpen();
+    lifecycle.emitJoinOk({});
+    for (const sessionId of ["ses_w1", "ses_w2"]) {
+      lifecycle.emit("lifecycle", {
+        event: {
+          kind: "session.created",
+          session_id: sessionId,
+          tenant_id: "tenant-alpha",
+          title: null,
+          metadata: {},
+          created_at: "2026-03-27T12:00:00Z",
+          version: 1,
+        },
+      });
+    }
+
+    const one = await waitForChannel("tail:ses_w1");
+    const two = await waitForChannel("tail:ses_w2");
+    expect(worker.sessionIds()).toEqual(["ses_w1", "ses_w2"]);
+    one.emitJoinOk({});
+    two.emitJoinOk({});
+    one.emit("events", {
+      events: [makeEvent(1, "user:alice", 1), makeEvent(2, "user:alice", 2)],
+    });
+    two.emit("events", { events: [makeEvent(1, "user:alice", 1)] });
+    one.emit("events", { events: [makeEvent(3, "agent:planner", 3)] });
+    await flush();
+
+    expect(started).toEqual(["ses_w1:1"]);
+
+    finishTurn[0]?.();
+    await flush();
+    expect(started).toEqual(["ses_w1:1", "ses_w2:1"]);
+
+    finishTurn[1]?.();
+    await flush();
+    expect(started).toEqual(["ses_w1:1", "ses_w2:1", "ses_w1:2"]);
+
+    let closed = false;
+    const closing = worker.close().then(() => {
+      closed = true;
+    });
+    finishTurn[2]?.();
+    await flush();
+    expect(closed).toBe(false);
+
+    while (appendResponses.length > 0 || !closed) {
+      appendResponses.shift()?.();
+      await flush();
+    }
+    await closing;
+
+    expect(
+      fetchMock.mock.calls.filter(([url]) => String(url).endsWith("/append"))
+    ).toHaveLength(3);
+    expect(one.leaveCalls).toBe(1);
+    expect(two.leaveCalls).toBe(1);
+    expect(worker.sessionIds()).toEqual([]);
+    expect(lifecycle.leaveCalls).toBe(1);
+  });
+
+  it("does not rerun handled events when a worker rebinds an idle session on activation", async () => {
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockImplementation((input, init) => {
+        const body = JSON.parse(String(init?.body ?? "{}")) as {
+          id?: string;
+          session_id?: string;
+        };
+        if (String(input).endsWith("/v1/sessions")) {
+          return Promise.resolve(makeSessionRecord(body.id ?? ""));
+        }
+        return Promise.resolve(makeTokenResponse(body.session_id ?? ""));
+      });
+
+    const client = new Starcite({
+      apiKey: makeApiKey(),
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const handled: number[] = [];
+    const worker = client.worker({
+      identity: client.agent({ id: "planner" }),
+      idleTimeoutMs: 5,
+      handle: (event) => {
+        handled.push(event.seq);
+      },
+    });
+
+    const lifecycle = await waitForChannel("lifecycle");
+    phoenixMock.MockPhoenixSocket.instances[0]?.emitOpen();
+    lifecycle.emitJoinOk({});
+    lifecycle.emit("lifecycle", {
+      event: {
+        kind: "session.created",
+        session_id: "ses_idle",
+        tenant_id: "tenant-alpha",
+        title: null,
+        metadata: {},
+        created_at: "2026-03-27T12:00:00Z",
+        version: 1,
+      },
+    });
+
+    const first = await waitForChannel("tail:ses_idle");
+    first.emitJoinOk({});
+    first.emit("events", {
+      events: [makeEvent(1, "user:alice", 1), makeEvent(2, "user:alice", 2)],
+    });
+    await flush();
+    expect(handled).toEqual([1, 2]);
+
+    await vi.waitFor(() => {
+      expect(worker.sessionIds()).toEqual([]);
+    });
+    expect(first.leaveCalls).toBe(1);
+
+    lifecycle.emit("lifecycle", {
+      event: {
+        kind: "session.activated",
+        session_id: "ses_idle",
+        tenant_id: "tenant-alpha",
+      },
+    });
+    const [, second] = await waitForChannels("tail:ses_idle", 2);
+    second?.emitJoinOk({});
+    second?.emit("events", {
+      events: [
+        makeEvent(1, "user:alice", 1),
+        makeEvent(2, "user:alice", 2),
+        makeEvent(3, "user:alice", 3),
+      ],
+    });
+    await flush();
+
+    expect(handled).toEqual([1, 2, 3]);
+    await worker.close();
+  });
+
+  it("disconnects a worker session whose outbox does not drain within drainTimeoutMs on close", async () => {
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockImplementation((input, init) => {
+        const url = String(input);
+        const body = JSON.parse(String(init?.body ?? "{}")) as {
+          id?: string;
+          session_id?: string;
+        };
+        if (url.endsWith("/v1/sessions")) {
+          return Promise.resolve(makeSessionRecord(body.id ?? ""));
+        }
+        if (url.endsWith("/append")) {
+          return new Promise<Response>(() => undefined);
+        }
+        return Promise.resolve(makeTokenResponse(body.session_id ?? ""));
+      });
+
+    const client = new Starcite({
+      apiKey: makeApiKey(),
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const worker = client.worker({
+      identity: client.agent({ id: "planner" }),
+      drainTimeoutMs: 20,
+      handle: (event, { session }) => {
+        session.append({ text: `reply ${event.seq}` });
+      },
+    });
+
+    const lifecycle = await waitForChannel("lifecycle");
+    phoenixMock.MockPhoenixSocket.instances[0]?.emitOpen();
+    lifecycle.emitJoinOk({});
+    lifecycle.emit("lifecycle", {
+      event: {
+        kind: "session.created",
+        session_id: "ses_stuck",
+        tenant_id: "tenant-alpha",
+        title: null,
+        metadata: {},
+        created_at: "2026-03-27T12:00:00Z",
+        version: 1,
+      },
+    });
+
+    const channel = await waitForChannel("tail:ses_stuck");
+    channel.emitJoinOk({});
+    channel.emit("events", { events: [makeEvent(1, "user:alice", 1)] });
+    await vi.waitFor(() => {
+      expect(
+        fetchMock.mock.calls.filter(([url]) => String(url).endsWith("/append"))
+      ).toHaveLength(1);
+    });
+
+    await worker.close();
+    expect(worker.sessionIds()).toEqual([]);
+
+    // The client keeps the released session until its outbox drains.
+    expect(channel.leaveCalls).toBe(0);
+    client.close();
+    expect(channel.leaveCalls).toBe(1);
+  });
+
+  it("stops draining a worker session once the client disconnects it", async () => {
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockImplementation((input, init) => {
+        const url = String(input);
+        const body = JSON.parse(String(init?.body ?? "{}")) as {
+          id?: string;
+          session_id?: string;
+        };
+        if (url.endsWith("/v1/sessions")) {
+          return Promise.resolve(makeSessionRecord(body.id ?? ""));
+        }
+        if (url.endsWith("/append")) {
+          return new Promise<Response>(() => undefined);
+        }
+        return Promise.resolve(makeTokenResponse(body.session_id ?? ""));
+      });
+
+    const client = new Starcite({
+      apiKey: makeApiKey(),
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const worker = client.worker({
+      identity: client.agent({ id: "planner" }),
+      handle: (event, { session }) => {
+        session.append({ text: `reply ${event.seq}` });
+      },
+    });
+
+    const lifecycle = await waitForChannel("lifecycle");
+    phoenixMock.MockPhoenixSocket.instances[0]?.emitOpen();
+    lifecycle.emitJoinOk({});
+    lifecycle.emit("lifecycle", {
+      event: {
+        kind: "session.created",
+        session_id: "ses_closed",
+        tenant_id: "tenant-alpha",
+        title: null,
+        metadata: {},
+        created_at: "2026-03-27T12:00:00Z",
+        version: 1,
+      },
+    });
+
+    const channel = await waitForChannel("tail:ses_closed");
+    channel.emitJoinOk({});
+    channel.emit("events", { events: [makeEvent(1, "user:alice", 1)] });
+    await vi.waitFor(() => {
+      expect(
+        fetchMock.mock.calls.filter(([url]) => String(url).endsWith("/append"))
+      ).toHaveLength(1);
+    });
+
+    let closed = false;
+    const closing = worker.close().then(() => {
+      closed = true;
+    });
+    await flush();
+    expect(closed).toBe(false);
+
+    client.close();
+    await closing;
+    expect(channel.leaveCalls).toBe(1);
+  });
+
+  it("forgets archived sessions so the worker does not rebind them on activation", async () => {
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockImplementation((input, init) => {
+        const body = JSON.parse(String(init?.body ?? "{}")) as {
+          id?: string;
+          session_id?: string;
+        };
+        if (String(input).endsWith("/v1/sessions")) {
+          return Promise.resolve(makeSessionRecord(body.id ?? ""));
+        }
+        return Promise.resolve(makeTokenResponse(body.session_id ?? ""));
+      });
+
+    const client = new Starcite({
+      apiKey: makeApiKey(),
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    });
+    const worker = client.worker({
+      identity: client.agent({ id: "planner" }),
+      handle: () => undefined,
+    });
+
+    const lifecycle = await waitForChannel("lifecycle");
+    phoenixMock.MockPhoenixSocket.instances[0]?.emitOpen();
+    lifecycle.emitJoinOk({});
+    lifecycle.emit("lifecycle", {
+      event: {
+        kind: "session.created",
+        session_id: "ses_archived",
+        tenant_id: "tenant-alpha",
+        title: null,
+        metadata: {},
+        created_at: "2026-03-27T12:00:00Z",
+        version: 1,
+      },
+    });
+
+    const channel = await waitForChannel("tail:ses_archived");
+    channel.emitJoinOk({});
+    lifecycle.emit("lifecycle", {
+      event: {
+        kind: "session.archived",
+        session_id: "ses_archived",
+        tenant_id: "tenant-alpha",
+        archived: true,
+      },
+    });
+    await flush();
+    expect(worker.sessionIds()).toEqual([]);
+    expect(channel.leaveCalls).toBe(1);
+
+    lifecycle.emit("lifecycle", {
+      event: {
+        kind: "session.activated",
+        session_id: "ses_archived",
+        tenant_id: "tenant-alpha",
+      },
+    });
+    await flush();
+    expect(worker.sessionIds()).toEqual([]);
+    await worker.close();
+  });
+
   it("keeps the lifecycle channel attached until the last lifecycle listener is removed", async () => {
     const client = new Starcite({
       apiKey: makeApiKey(),
@@ -640,6 +1034,59 @@ describe("Phoenix Tail Transport", () => {
     expect(channel.leaveCalls).toBe(1);
   });
 
+  it("emits connection state changes for the shared client socket", async () => {
+    const client = new Starcite({
+      apiKey: makeApiKey(),
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+    });
+
+    const states: StarciteConnectionState[] = [];
+    const stopConnection = client.on("connection", (state) => {
+      states.push(state);
+    });
+    const stopLifecycle = client.on("lifecycle", () => undefined);
+
+    await waitForSocketCount(1);
+    const socket = phoenixMock.MockPhoenixSocket.instances[0];
+    socket?.emitOpen();
+    socket?.emitError(new Error("socket hang up"));
+    socket?.emitClose({ code: 1011, reason: "server restart" });
+    socket?.emitOpen();
+    socket?.emitClose({ code: 1000, reason: "shutting down" });
+    stopLifecycle();
+    await flush();
+
+    expect(states).toEqual([
+      { status: "connecting", attempts: 0 },
+      { status: "open", attempts: 0 },
+      { status: "open", attempts: 0, error: "socket hang up" },
+      {
+        status: "reconnecting",
+        attempts: 1,
+        closeCode: 1011,
+        closeReason: "server restart",
+        error: "socket hang up",
+      },
+      {
+        status: "open",
+        attempts: 0,
+        closeCode: 1011,
+        closeReason: "server restart",
+        error: "socket hang up",
+      },
+      {
+        status: "closed",
+        attempts: 0,
+        closeCode: 1000,
+        closeReason: "shutting down",
+        error: "socket hang up",
+      },
+    ]);
+
+    stopConnection();
+  });
+
   it("forwards unmodeled lifecycle event kinds through raw listeners without surfacing an error", async () => {
     const client = new Starcite({
       apiKey: makeApiKey(),
@@ -929,7 +1376,7 @@ describe("Phoenix Tail Transport", () => {
     });
     await flush();
 
-    expect(snapshots).toEqual([1]);
+    expect(snapshots).toEqual([0, 1]);
 
     stopState();
     await flush();
@@ -939,6 +1386,76 @@ describe("Phoenix Tail Transport", () => {
     session.disconnect();
   });
 
+  it("replays disjoint ranges in parallel and folds adjacent ranges into the running replay", async () => {
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+    }).session({ token: makeSessionToken("ses_backfill_reuse") });
+
+    // With the live tail detached, a replay uses the session's own socket.
+    const firstRange = session.range(1, 2);
+    await waitForSocketCount(1);
+    const tailSocket = phoenixMock.MockPhoenixSocket.instances[0];
+    const [firstChannel] = await waitForChannels("tail:ses_backfill_reuse", 1);
+    tailSocket?.emitOpen();
+    firstChannel.emitJoinOk({});
+    firstChannel.emit("events", {
+      events: [
+        makeEvent(1, "agent:planner", 1),
+        makeEvent(2, "agent:planner", 2),
+      ],
+    });
+    await expect(firstRange).resolves.toHaveLength(2);
+    expect(firstChannel.leaveCalls).toBe(1);
+    expect(phoenixMock.MockPhoenixSocket.instances).toHaveLength(1);
+
+    const secondRange = session.range(3, 4);
+    const disjointRange = session.range(7, 8);
+    const adjacentRange = session.range(5, 6);
+    const [, secondChannel, disjointChannel] = await waitForChannels(
+      "tail:ses_backfill_reuse",
+      3
+    );
+    await flush();
+    // The idle tail socket reconnects for one job and a backfill socket
+    // opens for the other.
+    expect(tailSocket?.disconnectCalls).toHaveLength(1);
+    expect(phoenixMock.MockPhoenixSocket.instances).toHaveLength(3);
+    expect(secondChannel.joinCalls[0]).toEqual({ cursor: 2 });
+    expect(disjointChannel.joinCalls[0]).toEqual({ cursor: 2 });
+
+    disjointChannel.emitJoinOk({});
+    disjointChannel.emit("events", {
+      events: [3, 4, 5, 6, 7, 8].map((seq) =>
+        makeEvent(seq, "agent:planner", seq)
+      ),
+    });
+    await expect(disjointRange).resolves.toEqual([
+      makeEvent(7, "agent:planner", 7),
+      makeEvent(8, "agent:planner", 8),
+    ]);
+
+    secondChannel.emitJoinOk({});
+    secondChannel.emit("events", {
+      events: [3, 4, 5, 6].map((seq) => makeEvent(seq, "agent:planner", seq)),
+    });
+    await expect(secondRange).resolves.toHaveLength(2);
+    await expect(adjacentRange).resolves.toEqual([
+      makeEvent(5, "agent:planner", 5),
+      makeEvent(6, "agent:planner", 6),
+    ]);
+    expect(
+      phoenixMock.MockPhoenixChannel.instances.filter(
+        (channel) => channel.topic === "tail:ses_backfill_reuse"
+      )
+    ).toHaveLength(3);
+
+    const backfillSocket = phoenixMock.MockPhoenixSocket.instances[2];
+    expect(backfillSocket?.disconnectCalls).toEqual([]);
+    session.disconnect();
+    expect(backfillSocket?.disconnectCalls).toHaveLength(1);
+  });
+
   it("emits state snapshots for explicit range backfills", async () => {
     const session = new Starcite({
       baseUrl: "http://localhost:4000",
@@ -1154,31 +1671,350 @@ describe("Phoenix Tail Transport", () => {
     session.disconnect();
   });
 
-  it("rejoins range backfills from next_cursor after a recoverable gap", async () => {
+  it("returns full range backfills even when they exceed the retention policy", async () => {
     const session = new Starcite({
       baseUrl: "http://localhost:4000",
       fetch: vi.fn<typeof fetch>(),
-    }).session({ token: makeSessionToken("ses_range_gap") });
+      sessionRetention: { maxEvents: 1 },
+    }).session({ token: makeSessionToken("ses_range_retention") });
 
-    const rangePromise = session.range(4, 4);
+    const rangePromise = session.range(2, 3);
 
     await waitForSocketCount(1);
     const socket = phoenixMock.MockPhoenixSocket.instances[0];
-    const channel = await waitForChannel("tail:ses_range_gap");
-    expect(channel.joinCalls[0]).toEqual({ cursor: 0 });
+    const channel = await waitForChannel("tail:ses_range_retention");
 
     socket?.emitOpen();
     channel.emitJoinOk({});
     channel.emit("events", {
-      events: [makeEvent(1, "agent:planner", 1)],
+      events: [
+        makeEvent(1, "agent:planner", 1),
+        makeEvent(2, "agent:planner", 2),
+        makeEvent(3, "agent:planner", 3),
+      ],
     });
-    channel.emit("gap", {
-      committed_cursor: 3,
-      earliest_available_cursor: 3,
-      from_cursor: 1,
-      next_cursor: 3,
-      reason: "resume_invalidated",
-      type: "gap",
+
+    await expect(rangePromise).resolves.toEqual([
+      makeEvent(2, "agent:planner", 2),
+      makeEvent(3, "agent:planner", 3),
+    ]);
+    expect(session.state().events).toEqual([makeEvent(3, "agent:planner", 3)]);
+
+    session.disconnect();
+  });
+
+  it("keeps pinned seqs materialized past the retention policy until released", async () => {
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+      sessionRetention: { maxEvents: 1 },
+    }).session({ token: makeSessionToken("ses_pinned_retention") });
+
+    const release = session.pin(1, 2);
+    const stopListening = session.on("event", () => undefined);
+
+    await waitForSocketCount(1);
+    const socket = phoenixMock.MockPhoenixSocket.instances[0];
+    const channel = await waitForChannel("tail:ses_pinned_retention");
+
+    socket?.emitOpen();
+    channel.emitJoinOk({});
+    channel.emit("events", {
+      events: [
+        makeEvent(1, "agent:planner", 1),
+        makeEvent(2, "agent:planner", 2),
+        makeEvent(3, "agent:planner", 3),
+      ],
+    });
+
+    expect(session.events().map((event) => event.seq)).toEqual([1, 2, 3]);
+
+    release();
+    expect(session.events().map((event) => event.seq)).toEqual([3]);
+
+    stopListening();
+    session.disconnect();
+  });
+
+  it("streams live events through an async iterator and detaches the tail on break", async () => {
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+    }).session({ token: makeSessionToken("ses_stream_live") });
+
+    const seen: number[] = [];
+    const consumed = (async () => {
+      for await (const event of session.stream({
+        filter: (candidate) => candidate.seq !== 2,
+      })) {
+        seen.push(event.seq);
+        if (event.seq === 3) {
+          break;
+        }
+      }
+    })();
+
+    await waitForSocketCount(1);
+    const socket = phoenixMock.MockPhoenixSocket.instances[0];
+    const channel = await waitForChannel("tail:ses_stream_live");
+
+    socket?.emitOpen();
+    channel.emitJoinOk({});
+    channel.emit("events", {
+      events: [
+        makeEvent(1, "agent:planner", 1),
+        makeEvent(2, "agent:planner", 2),
+        makeEvent(3, "agent:planner", 3),
+      ],
+    });
+
+    await consumed;
+    expect(seen).toEqual([1, 3]);
+    expect(channel.leaveCalls).toBe(1);
+
+    session.disconnect();
+  });
+
+  it("replays a stream from fromSeq by backfilling seqs missing from local history", async () => {
+    const sessionStore = new MemorySessionStore();
+    sessionStore.write(
+      "ses_stream_replay",
+      encodeSessionStoreValue({
+        timeline: {
+          cursor: 4,
+          lastSeq: 4,
+          events: [
+            makeEvent(3, "agent:planner", 3),
+            makeEvent(4, "agent:planner", 4),
+          ],
+          coverage: [{ fromSeq: 3, toSeq: 4, beforeCursor: 2, afterCursor: 4 }],
+        },
+      })
+    );
+
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+      sessionStore,
+    }).session({ token: makeSessionToken("ses_stream_replay") });
+
+    const replayed = (async () => {
+      const seqs: number[] = [];
+      for await (const event of session.stream({
+        fromSeq: 1,
+        phase: "replay",
+      })) {
+        seqs.push(event.seq);
+      }
+      return seqs;
+    })();
+
+    await waitForSocketCount(1);
+    const socket = phoenixMock.MockPhoenixSocket.instances[0];
+    const channel = await waitForChannel("tail:ses_stream_replay");
+    expect(channel.joinCalls[0]).toEqual({ cursor: 0 });
+
+    socket?.emitOpen();
+    channel.emitJoinOk({});
+    channel.emit("events", {
+      events: [
+        makeEvent(1, "agent:planner", 1),
+        makeEvent(2, "agent:planner", 2),
+      ],
+    });
+
+    await expect(replayed).resolves.toEqual([1, 2, 3, 4]);
+
+    session.disconnect();
+  });
+
+  it("ends a pending stream when its signal aborts", async () => {
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+    }).session({ token: makeSessionToken("ses_stream_abort") });
+    const controller = new AbortController();
+
+    const iterator = session
+      .stream({ signal: controller.signal })
+      [Symbol.asyncIterator]();
+    const next = iterator.next();
+
+    const channel = await waitForChannel("tail:ses_stream_abort");
+    controller.abort();
+
+    await expect(next).resolves.toEqual({ done: true, value: undefined });
+    expect(channel.leaveCalls).toBe(1);
+
+    session.disconnect();
+  });
+
+  it("resolves waitFor from materialized history without attaching the tail", async () => {
+    const sessionStore = new MemorySessionStore();
+    sessionStore.write(
+      "ses_wait_replay",
+      encodeSessionStoreValue({
+        timeline: {
+          cursor: 2,
+          lastSeq: 2,
+          events: [
+            makeEvent(1, "agent:planner", 1),
+            makeEvent(2, "agent:worker", 2),
+          ],
+          coverage: [{ fromSeq: 1, toSeq: 2, afterCursor: 2 }],
+        },
+      })
+    );
+
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+      sessionStore,
+    }).session({ token: makeSessionToken("ses_wait_replay") });
+
+    await expect(
+      session.waitFor((event) => event.actor === "agent:worker")
+    ).resolves.toEqual(makeEvent(2, "agent:worker", 2));
+    expect(phoenixMock.MockPhoenixChannel.instances).toHaveLength(0);
+
+    session.disconnect();
+  });
+
+  it("waits for a live match and detaches the tail once it resolves", async () => {
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+    }).session({ token: makeSessionToken("ses_wait_live") });
+
+    const waiting = session.waitFor((event) => event.actor === "agent:worker", {
+      timeoutMs: 5000,
+    });
+
+    await waitForSocketCount(1);
+    const socket = phoenixMock.MockPhoenixSocket.instances[0];
+    const channel = await waitForChannel("tail:ses_wait_live");
+
+    socket?.emitOpen();
+    channel.emitJoinOk({});
+    channel.emit("events", {
+      events: [
+        makeEvent(1, "agent:planner", 1),
+        makeEvent(2, "agent:worker", 2),
+      ],
+    });
+
+    await expect(waiting).resolves.toEqual(makeEvent(2, "agent:worker", 2));
+    expect(channel.leaveCalls).toBe(1);
+
+    session.disconnect();
+  });
+
+  it("rejects waitFor with a typed timeout error and releases the tail", async () => {
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+    }).session({ token: makeSessionToken("ses_wait_timeout") });
+
+    const waiting = session.waitFor(() => false, {
+      timeoutMs: 5,
+      includeReplay: false,
+    });
+    const channel = await waitForChannel("tail:ses_wait_timeout");
+
+    const error = await waiting.catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(StarciteTimeoutError);
+    expect(error).toMatchObject({
+      sessionId: "ses_wait_timeout",
+      timeoutMs: 5,
+    });
+    expect(channel.leaveCalls).toBe(1);
+
+    session.disconnect();
+  });
+
+  it("resumes projections from their persisted snapshot and persists the new seq", async () => {
+    const sessionStore = new MemorySessionStore();
+    sessionStore.write(
+      "ses_projection",
+      JSON.stringify({
+        ...JSON.parse(
+          encodeSessionStoreValue({
+            timeline: {
+              cursor: 3,
+              lastSeq: 3,
+              events: [makeEvent(3, "agent:planner", 3)],
+              coverage: [
+                { fromSeq: 3, toSeq: 3, beforeCursor: 2, afterCursor: 3 },
+              ],
+            },
+          })
+        ),
+        projections: { count: { seq: 2, state: { count: 2 } } },
+      })
+    );
+
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+      sessionStore,
+    }).session({ token: makeSessionToken("ses_projection") });
+
+    const changes: number[] = [];
+    const projection = session.project(
+      (state: { count: number }) => ({ count: state.count + 1 }),
+      { count: 0 },
+      { key: "count" }
+    );
+    projection.on("change", (state, seq) => {
+      changes.push(seq);
+      expect(state.count).toBe(seq);
+    });
+
+    await flush();
+    await flush();
+
+    expect(projection.state).toEqual({ count: 3 });
+    expect(changes).toEqual([3]);
+    expect(
+      readStoredState(sessionStore, "ses_projection")?.projections
+    ).toEqual({ count: { seq: 3, state: { count: 3 } } });
+    expect(() =>
+      session.project((state) => state, {}, { key: "count" })
+    ).toThrow("Projection 'count' is already active");
+
+    const channel = await waitForChannel("tail:ses_projection");
+    projection.dispose();
+    await flush();
+    expect(channel.leaveCalls).toBe(1);
+
+    session.disconnect();
+  });
+
+  it("rejoins range backfills from next_cursor after a recoverable gap", async () => {
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+    }).session({ token: makeSessionToken("ses_range_gap") });
+
+    const rangePromise = session.range(4, 4);
+
+    await waitForSocketCount(1);
+    const socket = phoenixMock.MockPhoenixSocket.instances[0];
+    const channel = await waitForChannel("tail:ses_range_gap");
+    expect(channel.joinCalls[0]).toEqual({ cursor: 0 });
+
+    socket?.emitOpen();
+    channel.emitJoinOk({});
+    channel.emit("events", {
+      events: [makeEvent(1, "agent:planner", 1)],
+    });
+    channel.emit("gap", {
+      committed_cursor: 3,
+      earliest_available_cursor: 3,
+      from_cursor: 1,
+      next_cursor: 3,
+      reason: "resume_invalidated",
+      type: "gap",
     });
     await flush();
 
@@ -1744,6 +2580,78 @@ describe("Phoenix Tail Transport", () => {
     session.disconnect();
   });
 
+  it("reports tail joins, batches, gaps, and token refreshes to instrumentation hooks", async () => {
+    const onJoin = vi.fn();
+    const onTailBatch = vi.fn();
+    const onGap = vi.fn();
+    const onAuthRefresh = vi.fn();
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+      instrumentation: { onJoin, onTailBatch, onGap, onAuthRefresh },
+    }).session({
+      token: makeSessionToken("ses_traced"),
+      refreshToken: () => makeSessionToken("ses_traced", "planner-refreshed"),
+    });
+    const stopError = session.on("error", () => undefined);
+    const stopEvents = session.on("event", () => undefined);
+
+    await waitForSocketCount(1);
+    const channel = await waitForChannel("tail:ses_traced");
+    phoenixMock.MockPhoenixSocket.instances[0]?.emitOpen();
+    channel.emitJoinOk({});
+    channel.emit("events", {
+      events: [
+        makeEvent(1, "agent:planner", 1),
+        makeEvent(2, "agent:planner", 2),
+      ],
+    });
+    const gap = {
+      committed_cursor: 4,
+      earliest_available_cursor: 4,
+      from_cursor: 2,
+      next_cursor: 4,
+      reason: "resume_invalidated",
+      type: "gap",
+    };
+    channel.emit("gap", gap);
+    channel.emitJoinError({ reason: "unauthorized" });
+    channel.emit("token_expired", { reason: "token_expired" });
+    await waitForSocketCount(2);
+
+    expect(onJoin.mock.calls.map(([event]) => event)).toEqual([
+      { topic: "tail:ses_traced", sessionId: "ses_traced", ok: true },
+      {
+        topic: "tail:ses_traced",
+        sessionId: "ses_traced",
+        ok: false,
+        reason: "unauthorized",
+      },
+    ]);
+    expect(onTailBatch).toHaveBeenCalledWith({
+      sessionId: "ses_traced",
+      source: "tail",
+      count: 2,
+      firstSeq: 1,
+      lastSeq: 2,
+    });
+    expect(onGap).toHaveBeenCalledWith({
+      sessionId: "ses_traced",
+      source: "tail",
+      gap,
+    });
+    expect(onAuthRefresh).toHaveBeenCalledWith({
+      sessionId: "ses_traced",
+      reason: "token_expired",
+      durationMs: expect.any(Number),
+      ok: true,
+    });
+
+    stopError();
+    stopEvents();
+    session.disconnect();
+  });
+
   it("does not emit state for gaps that do not advance the cursor", async () => {
     const session = new Starcite({
       baseUrl: "http://localhost:4000",
@@ -1765,7 +2673,7 @@ describe("Phoenix Tail Transport", () => {
     });
     await flush();
 
-    expect(snapshots).toEqual([1]);
+    expect(snapshots).toEqual([-1, 1]);
 
     channel.emit("gap", {
       committed_cursor: 1,
@@ -1777,7 +2685,7 @@ describe("Phoenix Tail Transport", () => {
     });
     await flush();
 
-    expect(snapshots).toEqual([1]);
+    expect(snapshots).toEqual([-1, 1]);
 
     stopState();
     session.disconnect();
@@ -1894,6 +2802,178 @@ describe("Phoenix Tail Transport", () => {
     session.disconnect();
   });
 
+  it("projects pending appends as provisional events until the committed event replaces them", async () => {
+    const fetchMock = vi.fn<typeof fetch>().mockImplementation(() => {
+      return new Promise<Response>(() => undefined);
+    });
+
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    }).session({ token: makeSessionToken("ses_optimistic") });
+
+    const appendPromise = session.append({ text: "hello" });
+    await Promise.resolve();
+
+    const channel = await waitForChannel("tail:ses_optimistic");
+    phoenixMock.MockPhoenixSocket.instances[0]?.emitOpen();
+    channel.emitJoinOk({});
+
+    const provisional = session.state().optimisticEvents;
+    expect(provisional).toEqual([
+      expect.objectContaining({
+        seq: undefined,
+        status: "sending",
+        type: "content",
+        actor: "agent:planner",
+        payload: { text: "hello" },
+        producer_seq: 1,
+      }),
+    ]);
+    expect(session.state().optimisticEvents).toBe(provisional);
+
+    const requestInit = fetchMock.mock.calls[0]?.[1] as RequestInit;
+    const requestBody = JSON.parse(requestInit.body as string) as {
+      idempotency_key: string;
+      producer_id: string;
+    };
+    channel.emit("events", {
+      events: [
+        makeEvent(1, "agent:other", 1),
+        {
+          ...makeEvent(2, "agent:planner", 2),
+          idempotency_key: requestBody.idempotency_key,
+          payload: { text: "hello" },
+          producer_id: requestBody.producer_id,
+          producer_seq: 1,
+        },
+      ],
+    });
+    await flush();
+
+    await expect(appendPromise).resolves.toEqual({ seq: 2, deduped: false });
+    const snapshot = session.state();
+    expect(snapshot.optimisticEvents).toBe(snapshot.events);
+    expect(snapshot.optimisticEvents?.map((event) => event.seq)).toEqual([
+      1, 2,
+    ]);
+
+    session.disconnect();
+  });
+
+  it("keeps an acknowledged append provisional at its seq until the tail delivers it", async () => {
+    const fetchMock = vi.fn<typeof fetch>().mockResolvedValue(
+      new Response(JSON.stringify({ seq: 2, last_seq: 2, deduped: false }), {
+        status: 201,
+      })
+    );
+
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+    }).session({ token: makeSessionToken("ses_acked") });
+
+    const appendPromise = session.append({ text: "hello" });
+    const channel = await waitForChannel("tail:ses_acked");
+    phoenixMock.MockPhoenixSocket.instances[0]?.emitOpen();
+    channel.emitJoinOk({});
+    await expect(appendPromise).resolves.toEqual({ seq: 2, deduped: false });
+
+    expect(session.appendState().pending).toEqual([]);
+    expect(session.state().optimisticEvents).toEqual([
+      expect.objectContaining({
+        seq: 2,
+        status: "acknowledged",
+        payload: { text: "hello" },
+      }),
+    ]);
+
+    channel.emit("events", {
+      events: [makeEvent(1, "agent:other", 1)],
+    });
+    await flush();
+    expect(
+      session
+        .state()
+        .optimisticEvents?.map((event) => [
+          event.seq,
+          "status" in event ? event.status : "committed",
+        ])
+    ).toEqual([
+      [1, "committed"],
+      [2, "acknowledged"],
+    ]);
+    expect(channel.leaveCalls).toBe(0);
+
+    const requestBody = JSON.parse(
+      String(fetchMock.mock.calls[0]?.[1]?.body)
+    ) as { idempotency_key: string; producer_id: string };
+    channel.emit("events", {
+      events: [
+        {
+          ...makeEvent(2, "agent:planner", 2),
+          idempotency_key: requestBody.idempotency_key,
+          payload: { text: "hello" },
+          producer_id: requestBody.producer_id,
+          producer_seq: 1,
+        },
+        makeEvent(3, "agent:other", 3),
+      ],
+    });
+    await flush();
+
+    const snapshot = session.state();
+    expect(snapshot.optimisticEvents).toBe(snapshot.events);
+    expect(snapshot.events.map((event) => event.seq)).toEqual([1, 2, 3]);
+    expect(channel.leaveCalls).toBe(1);
+
+    session.disconnect();
+  });
+
+  it("settles an acknowledged append whose event retention evicted before it was seen", async () => {
+    const fetchMock = vi.fn<typeof fetch>().mockResolvedValue(
+      new Response(JSON.stringify({ seq: 2, last_seq: 2, deduped: false }), {
+        status: 201,
+      })
+    );
+
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: fetchMock,
+      sessionRetention: { maxEvents: 1 },
+    }).session({ token: makeSessionToken("ses_acked_evicted") });
+
+    const appendPromise = session.append({ text: "hello" });
+    const channel = await waitForChannel("tail:ses_acked_evicted");
+    phoenixMock.MockPhoenixSocket.instances[0]?.emitOpen();
+    channel.emitJoinOk({});
+    await expect(appendPromise).resolves.toEqual({ seq: 2, deduped: false });
+
+    const requestBody = JSON.parse(
+      String(fetchMock.mock.calls[0]?.[1]?.body)
+    ) as { idempotency_key: string; producer_id: string };
+    channel.emit("events", {
+      events: [
+        {
+          ...makeEvent(2, "agent:planner", 2),
+          idempotency_key: requestBody.idempotency_key,
+          payload: { text: "hello" },
+          producer_id: requestBody.producer_id,
+          producer_seq: 1,
+        },
+        makeEvent(3, "agent:other", 3),
+      ],
+    });
+    await flush();
+
+    const snapshot = session.state();
+    expect(snapshot.events.map((event) => event.seq)).toEqual([3]);
+    expect(snapshot.optimisticEvents).toBe(snapshot.events);
+    expect(channel.leaveCalls).toBe(1);
+
+    session.disconnect();
+  });
+
   it("surfaces token_expired to session error listeners and detaches the channel", async () => {
     const session = new Starcite({
       baseUrl: "http://localhost:4000",
@@ -1995,6 +3075,228 @@ describe("Phoenix Tail Transport", () => {
     session.disconnect();
   });
 
+  it("refreshes session tokens before they expire without detaching the tail", async () => {
+    const expiresAtSeconds = 1_900_000_000;
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(expiresAtSeconds * 1000 - 40);
+
+    try {
+      const refreshedToken = tokenFromClaims({
+        session_id: "ses_expiring",
+        tenant_id: "tenant-alpha",
+        principal_id: "planner",
+        principal_type: "agent",
+        exp: expiresAtSeconds + 3600,
+      });
+      const refreshToken = vi.fn().mockResolvedValue(refreshedToken);
+      const session = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: vi.fn<typeof fetch>(),
+        tokenRefreshMarginMs: 30_000,
+      }).session({
+        token: tokenFromClaims({
+          session_id: "ses_expiring",
+          tenant_id: "tenant-alpha",
+          principal_id: "planner",
+          principal_type: "agent",
+          exp: expiresAtSeconds,
+        }),
+        refreshToken,
+      });
+      const stopEvents = session.on("event", () => undefined);
+
+      await waitForSocketCount(1);
+      const socket = phoenixMock.MockPhoenixSocket.instances[0];
+      const channel = await waitForChannel("tail:ses_expiring");
+      socket?.emitOpen();
+      channel.emitJoinOk({});
+
+      await vi.waitFor(() => {
+        expect(refreshToken).toHaveBeenCalled();
+      });
+      await flush();
+
+      expect(refreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reason: "expiring",
+          sessionId: "ses_expiring",
+        })
+      );
+      expect(session.token).toBe(refreshedToken);
+      expect(channel.leaveCalls).toBe(0);
+      expect(socket?.disconnectCalls).toEqual([]);
+      expect(socket?.currentParams()).toEqual({ token: refreshedToken });
+
+      // The server expiring the old token only reconnects with the new one.
+      channel.emit("token_expired", { reason: "token_expired" });
+      await waitForSocketCount(2);
+      const [, rebound] = await waitForChannels("tail:ses_expiring", 2);
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(channel.leaveCalls).toBe(1);
+      expect(rebound.joinCalls).toHaveLength(1);
+      expect(
+        phoenixMock.MockPhoenixSocket.instances[1]?.currentParams()
+      ).toEqual({ token: refreshedToken });
+
+      stopEvents();
+      session.disconnect();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("waits in steps for a token refresh due beyond the maximum timer delay", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const lifetimeMs = 60 * 24 * 60 * 60 * 1000;
+      const refreshToken = vi
+        .fn()
+        .mockResolvedValue(makeSessionToken("ses_long_lived"));
+      const session = new Starcite({
+        baseUrl: "http://localhost:4000",
+        fetch: vi.fn<typeof fetch>(),
+        tokenRefreshMarginMs: 60_000,
+      }).session({
+        token: tokenFromClaims({
+          session_id: "ses_long_lived",
+          tenant_id: "tenant-alpha",
+          principal_id: "planner",
+          principal_type: "agent",
+          exp: Math.floor((Date.now() + lifetimeMs) / 1000),
+        }),
+        refreshToken,
+      });
+
+      await vi.advanceTimersByTimeAsync(2 ** 31);
+      expect(refreshToken).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(lifetimeMs - 2 ** 31 - 60_000);
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      session.disconnect();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("multiplexes session tails over the shared API-key socket with per-channel tokens", async () => {
+    const refreshedToken = makeSessionToken("ses_shared_one", "planner-next");
+    const refreshToken = vi.fn().mockResolvedValue(refreshedToken);
+    const client = new Starcite({
+      apiKey: makeApiKey(),
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+      sessionSocketMode: "shared",
+    });
+    const one = client.session({
+      token: makeSessionToken("ses_shared_one"),
+      refreshToken,
+    });
+    const two = client.session({ token: makeSessionToken("ses_shared_two") });
+
+    const seen: string[] = [];
+    const stopOne = one.on("event", (event) => {
+      seen.push(`one:${event.seq}`);
+    });
+    const stopTwo = two.on("event", (event) => {
+      seen.push(`two:${event.seq}`);
+    });
+
+    await waitForSocketCount(1);
+    const socket = phoenixMock.MockPhoenixSocket.instances[0];
+    expect(socket?.currentParams()).toEqual({ token: makeApiKey() });
+
+    const oneChannel = await waitForChannel("tail:ses_shared_one");
+    const twoChannel = await waitForChannel("tail:ses_shared_two");
+    expect(oneChannel.joinCalls[0]).toEqual({
+      live_only: true,
+      token: makeSessionToken("ses_shared_one"),
+    });
+    expect(twoChannel.joinCalls[0]).toEqual({
+      live_only: true,
+      token: makeSessionToken("ses_shared_two"),
+    });
+
+    socket?.emitOpen();
+    oneChannel.emitJoinOk({});
+    twoChannel.emitJoinOk({});
+    oneChannel.emit("events", { events: [makeEvent(1, "agent:planner", 1)] });
+    twoChannel.emit("events", { events: [makeEvent(4, "agent:planner", 4)] });
+    await flush();
+
+    oneChannel.emit("token_expired", { reason: "token_expired" });
+    const [, reboundChannel] = await waitForChannels("tail:ses_shared_one", 2);
+    expect(reboundChannel.joinCalls[0]).toEqual({
+      cursor: 1,
+      token: refreshedToken,
+    });
+    expect(phoenixMock.MockPhoenixSocket.instances).toHaveLength(1);
+    expect(socket?.currentParams()).toEqual({ token: makeApiKey() });
+    expect(socket?.disconnectCalls).toEqual([]);
+
+    reboundChannel.emitJoinOk({});
+    reboundChannel.emit("events", {
+      events: [makeEvent(2, "agent:planner-next", 2)],
+    });
+    twoChannel.emit("events", { events: [makeEvent(5, "agent:planner", 5)] });
+    await flush();
+
+    expect(seen).toEqual(["one:1", "two:4", "one:2", "two:5"]);
+    expect(twoChannel.leaveCalls).toBe(0);
+
+    stopOne();
+    stopTwo();
+    one.disconnect();
+    two.disconnect();
+    await flush();
+    expect(socket?.disconnectCalls).toHaveLength(1);
+  });
+
+  it("replays ranges over the shared API-key socket with the session token while the tail is detached", async () => {
+    const sessionToken = makeSessionToken("ses_shared_range");
+    const session = new Starcite({
+      apiKey: makeApiKey(),
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+      sessionSocketMode: "shared",
+    }).session({ token: sessionToken });
+
+    const rangePromise = session.range(1, 2);
+
+    await waitForSocketCount(1);
+    const socket = phoenixMock.MockPhoenixSocket.instances[0];
+    expect(socket?.currentParams()).toEqual({ token: makeApiKey() });
+    const channel = await waitForChannel("tail:ses_shared_range");
+    expect(channel.joinCalls[0]).toEqual({ cursor: 0, token: sessionToken });
+
+    socket?.emitOpen();
+    channel.emitJoinOk({});
+    channel.emit("events", {
+      events: [
+        makeEvent(1, "agent:planner", 1),
+        makeEvent(2, "agent:planner", 2),
+      ],
+    });
+
+    await expect(rangePromise).resolves.toEqual([
+      makeEvent(1, "agent:planner", 1),
+      makeEvent(2, "agent:planner", 2),
+    ]);
+    expect(phoenixMock.MockPhoenixSocket.instances).toHaveLength(1);
+
+    session.disconnect();
+  });
+
+  it("requires an API key for the shared session socket mode", () => {
+    expect(
+      () =>
+        new Starcite({
+          baseUrl: "http://localhost:4000",
+          sessionSocketMode: "shared",
+        })
+    ).toThrow(StarciteError);
+  });
+
   it("manual refreshAuth reconnects the tail from the current cursor without duplicating retained replay", async () => {
     const refreshedToken = makeSessionToken(
       "ses_manual_refresh_tail",
@@ -2192,6 +3494,64 @@ describe("Phoenix Tail Transport", () => {
     stopEvents();
   });
 
+  it("reports socket reconnects in the session snapshot and on tail errors", async () => {
+    const session = new Starcite({
+      baseUrl: "http://localhost:4000",
+      fetch: vi.fn<typeof fetch>(),
+    }).session({ token: makeSessionToken("ses_connection") });
+
+    const errors: Error[] = [];
+    const stopError = session.on("error", (error) => {
+      errors.push(error);
+    });
+    const stopEvents = session.on("event", () => undefined);
+
+    await waitForSocketCount(1);
+    const socket = phoenixMock.MockPhoenixSocket.instances[0];
+    const channel = await waitForChannel("tail:ses_connection");
+    expect(session.state().connection).toEqual({
+      status: "connecting",
+      attempts: 0,
+    });
+
+    socket?.emitOpen();
+    channel.emitJoinOk({});
+    expect(session.state().connection).toEqual({
+      status: "open",
+      attempts: 0,
+    });
+
+    socket?.emitClose({ code: 1006, reason: "network reset" });
+    socket?.emitClose({ code: 1006, reason: "network reset" });
+    expect(session.state().connection).toEqual({
+      status: "reconnecting",
+      attempts: 2,
+      closeCode: 1006,
+      closeReason: "network reset",
+    });
+
+    channel.emitJoinError({ reason: "join denied" });
+    await flush();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      attempts: 2,
+      closeCode: 1006,
+      closeReason: "network reset",
+    });
+
+    socket?.emitOpen();
+    expect(session.state().connection).toMatchObject({
+      status: "open",
+      attempts: 0,
+      closeCode: 1006,
+    });
+
+    stopError();
+    stopEvents();
+    expect(session.state().connection?.status).toBe("closed");
+  });
+
   it("cleans up eagerly attached channels per session and disconnects session-scoped sockets when each handle disconnects", async () => {
     const fetchMock = vi
       .fn<typeof fetch>()
@@ -252,11 +252,88 @@ describe("SessionHistory", () => {
     expect(history.events).toEqual([]);
   });
 
+  it("evicts the oldest events beyond maxEvents and splits coverage around them", () => {
+    const history = new SessionHistory({ retention: { maxEvents: 2 } });
+    history.applyLiveBatch([
+      makeEvent(1, "frame-1", 1),
+      makeEvent(2, "frame-2", 2),
+      makeEvent(3, "frame-3", 3),
+    ]);
+
+    expect(history.events.map((event) => event.seq)).toEqual([2, 3]);
+    expect(history.lastSeq).toBe(3);
+    expect(history.state(false).cursor).toBe(3);
+    expect(history.firstMissingRange(1, 3)).toEqual({ fromSeq: 1, toSeq: 1 });
+    expect(history.snapshot()?.coverage).toEqual([
+      { fromSeq: 2, toSeq: 3, beforeCursor: 1, afterCursor: 3 },
+    ]);
+
+    history.applyBackfillBatch([makeEvent(1, "frame-1", 1)], 0);
+
+    expect(history.events.map((event) => event.seq)).toEqual([2, 3]);
+    expect(history.isRangeCovered(1, 1)).toBe(false);
+  });
+
+  it("evicts by serialized UTF-8 size when maxBytes is exceeded", () => {
+    const eventBytes = new TextEncoder().encode(
+      JSON.stringify(makeEvent(1, "frame-1 ✓", 1))
+    ).byteLength;
+    const history = new SessionHistory({
+      retention: { maxBytes: eventBytes * 2 },
+    });
+
+    history.applyLiveBatch([
+      makeEvent(1, "frame-1 ✓", 1),
+      makeEvent(2, "frame-2 ✓", 2),
+    ]);
+    expect(history.events.map((event) => event.seq)).toEqual([1, 2]);
+
+    history.applyLiveBatch([makeEvent(3, "frame-3 ✓✓", 3)]);
+    expect(history.events.map((event) => event.seq)).toEqual([3]);
+  });
+
+  it("keeps pinned seqs until the pin is released", () => {
+    const history = new SessionHistory({ retention: { maxEvents: 1 } });
+    const release = history.pin(1, 2);
+
+    history.applyLiveBatch([
+      makeEvent(1, "frame-1", 1),
+      makeEvent(2, "frame-2", 2),
+      makeEvent(3, "frame-3", 3),
+    ]);
+    expect(history.readRange(1, 2).map((event) => event.seq)).toEqual([1, 2]);
+
+    release();
+    expect(history.events.map((event) => event.seq)).toEqual([3]);
+    expect(history.anchorBeforeSeq(1)).toEqual({ cursor: 0, seq: 0 });
+  });
+
+  it("applies the retention policy to restored snapshots", () => {
+    const history = new SessionHistory({ retention: { maxEvents: 1 } });
+
+    history.restore({
+      cursor: 5,
+      lastSeq: 5,
+      events: [makeEvent(4, "frame-4", 4), makeEvent(5, "frame-5", 5)],
+      coverage: [{ fromSeq: 4, toSeq: 5, beforeCursor: 3, afterCursor: 5 }],
+    });
+
+    expect(history.snapshot()).toEqual({
+      cursor: 5,
+      lastSeq: 5,
+      events: [makeEvent(5, "frame-5", 5)],
+      coverage: [{ fromSeq: 5, toSeq: 5, beforeCursor: 4, afterCursor: 5 }],
+    });
+  });
+
   it("rejects invalid range requests at the invariant boundary", () => {
     const history = new SessionHistory();
 
     expect(() => history.isRangeCovered(0, 1)).toThrow(StarciteError);
     expect(() => history.firstMissingRange(3, 2)).toThrow(StarciteError);
     expect(() => history.anchorBeforeSeq(0)).toThrow(StarciteError);
+    expect(() => new SessionHistory({ retention: { maxEvents: 0 } })).toThrow(
+      StarciteError
+    );
   });
 });
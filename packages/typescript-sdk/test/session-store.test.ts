@@ -2,8 +2,10 @@ import { describe, expect, it } from "vitest";
 import {
   decodeSessionStoreValue,
   encodeSessionStoreValue,
+  SessionStoreWriter,
   WebStorageSessionStore,
 } from "../src/session-store";
+import type { AsyncSessionStore } from "../src/types";
 
 class FakeStorage {
   private readonly values = new Map<string, string>();
@@ -70,3 +72,68 @@ describe("WebStorageSessionStore", () => {
     });
   });
 });
+
+describe("SessionStoreWriter", () => {
+  it("serializes async writes and collapses queued values to the latest one", async () => {
+    const writes: string[] = [];
+    const releases: Array<() => void> = [];
+    const store: AsyncSessionStore = {
+      read: () => Promise.resolve(undefined),
+      write: (_sessionId, value) => {
+        writes.push(value);
+        return new Promise((resolve) => {
+          releases.push(resolve);
+        });
+      },
+    };
+    const writer = new SessionStoreWriter({
+      store,
+      sessionId: "ses_async",
+      onWriteError: () => undefined,
+    });
+
+    writer.write("first");
+    writer.write("second");
+    writer.write("third");
+    expect(writes).toEqual(["first"]);
+
+    releases.shift()?.();
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(writes).toEqual(["first", "third"]);
+
+    releases.shift()?.();
+    await writer.flush();
+    expect(writes).toEqual(["first", "third"]);
+  });
+
+  it("reports rejected async writes and keeps draining later ones", async () => {
+    const writes: string[] = [];
+    const failures: unknown[] = [];
+    let attempt = 0;
+    const store: AsyncSessionStore = {
+      read: () => Promise.resolve(undefined),
+      write: (_sessionId, value) => {
+        attempt += 1;
+        writes.push(value);
+        return attempt === 1
+          ? Promise.reject(new Error("quota exceeded"))
+          : Promise.resolve();
+      },
+    };
+    const writer = new SessionStoreWriter({
+      store,
+      sessionId: "ses_async",
+      onWriteError: (error) => {
+        failures.push(error);
+      },
+    });
+
+    writer.write("first");
+    writer.write("second");
+    await writer.flush();
+
+    expect(writes).toEqual(["first", "second"]);
+    expect(failures).toEqual([new Error("quota exceeded")]);
+  });
+});
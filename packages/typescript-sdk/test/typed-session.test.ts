@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { StarciteError } from "../src/errors";
+import { defineEventCatalog, TypedSession } from "../src/typed-session";
+import type {
+  SessionEventContext,
+  SessionEventListener,
+  SessionHandle,
+  TailEvent,
+} from "../src/types";
+
+const catalog = defineEventCatalog({
+  "message.user": z.object({ text: z.string().min(1) }),
+  "agent.done": z.object({
+    workerId: z.string(),
+    attempts: z.number().int().default(1),
+  }),
+});
+
+function makeEvent(
+  seq: number,
+  type: string,
+  payload: Record<string, unknown>
+) {
+  return {
+    seq,
+    type,
+    payload,
+    actor: "agent:worker",
+    producer_id: "producer:worker",
+    producer_seq: seq,
+  } satisfies TailEvent;
+}
+
+function makeSession() {
+  const listeners: SessionEventListener[] = [];
+  const session = {
+    id: "ses_typed",
+    append: vi.fn(() => Promise.resolve({ seq: 1, deduped: false })),
+    on: vi.fn((_eventName: string, listener: SessionEventListener) => {
+      listeners.push(listener);
+      return () => undefined;
+    }),
+  } as unknown as SessionHandle;
+
+  const emit = (event: TailEvent) => {
+    const context: SessionEventContext = { phase: "live" };
+    for (const listener of listeners) {
+      listener(event, context);
+    }
+  };
+
+  return { session, emit };
+}
+
+describe("TypedSession", () => {
+  it("validates appends against the catalog before enqueueing", async () => {
+    const { session } = makeSession();
+    const typed = new TypedSession(session, catalog);
+
+    await typed.append({
+      type: "agent.done",
+      payload: { workerId: "w-1" },
+      actor: "agent:worker",
+    });
+    expect(session.append).toHaveBeenCalledWith(
+      {
+        type: "agent.done",
+        payload: { workerId: "w-1", attempts: 1 },
+        actor: "agent:worker",
+      },
+      undefined
+    );
+
+    await expect(
+      typed.append({ type: "message.user", payload: { text: "" } })
+    ).rejects.toBeInstanceOf(StarciteError);
+    await expect(
+      typed.append({ type: "nope", payload: {} } as never)
+    ).rejects.toThrow("Unknown event type 'nope'");
+    expect(session.append).toHaveBeenCalledTimes(1);
+  });
+
+  it("dispatches parsed payloads by type and routes mismatches to onInvalid", () => {
+    const { session, emit } = makeSession();
+    const typed = new TypedSession(session, catalog);
+    const done: string[] = [];
+    const invalid: string[] = [];
+
+    typed.on("agent.done", (event) => {
+      done.push(`${event.payload.workerId}:${event.payload.attempts}`);
+    });
+    typed.onInvalid(({ event, reason }) => {
+      invalid.push(`${event.seq}:${reason}`);
+    });
+
+    emit(makeEvent(1, "agent.done", { workerId: "w-1" }));
+    emit(makeEvent(2, "agent.done", { workerId: 42 }));
+    emit(makeEvent(3, "message.user", { text: "hi" }));
+    emit(makeEvent(4, "tool.call", {}));
+
+    expect(done).toEqual(["w-1:1"]);
+    expect(invalid).toEqual(["2:invalid_payload", "4:unknown_type"]);
+  });
+});
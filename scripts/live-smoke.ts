@@ -16,6 +16,7 @@ interface LiveSmokeResult {
     nextCursor?: string | null;
     skipped?: boolean;
     reason?: string;
+    retries?: number;
   };
   tailReplay: {
     ok: boolean;
@@ -62,7 +63,7 @@ function toErrorMessage(error: unknown): string {
   return typeof error === "string" ? error : "Unknown error";
 }
 
-function isArchiveReadUnavailable(error: unknown): boolean {
+function isArchiveReadUnavailable(error: unknown): error is StarciteApiError {
   return (
     error instanceof StarciteApiError &&
     error.status === 503 &&
@@ -109,6 +110,7 @@ async function main(): Promise<void> {
         ok: false,
         skipped: true,
         reason: "archive_read_unavailable",
+        retries: error.retryCount,
       };
     } else {
       throw new Error(`listSessions() failed: ${toErrorMessage(error)}`);